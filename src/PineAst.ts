@@ -0,0 +1,326 @@
+/**
+ * Node types of the Pine Script syntax tree produced by PineAstParser.
+ * Every node carries the offsets of its source text, `end` is exclusive.
+ */
+export interface PineNode {
+  kind: string
+  start: number
+  end: number
+}
+
+/** A type annotation such as `float`, `chart.point`, `array<float>`, `map<string, int>` or `int[]`. */
+export interface PineTypeReference extends PineNode {
+  kind: 'TypeReference'
+  name: string
+  typeArguments: PineTypeReference[]
+  isArray: boolean
+}
+
+export interface PineIdentifier extends PineNode {
+  kind: 'Identifier'
+  name: string
+}
+
+export interface PineLiteral extends PineNode {
+  kind: 'Literal'
+  literalType: 'int' | 'float' | 'string' | 'bool' | 'color'
+  raw: string
+}
+
+export interface PineMemberExpression extends PineNode {
+  kind: 'MemberExpression'
+  object: PineExpression
+  property: PineIdentifier
+}
+
+export interface PineArgument extends PineNode {
+  kind: 'Argument'
+  name?: PineIdentifier
+  value: PineExpression
+}
+
+export interface PineCallExpression extends PineNode {
+  kind: 'CallExpression'
+  callee: PineExpression
+  typeArguments: PineTypeReference[]
+  args: PineArgument[]
+}
+
+/** A history reference such as `close[1]`. */
+export interface PineIndexExpression extends PineNode {
+  kind: 'IndexExpression'
+  object: PineExpression
+  index: PineExpression
+}
+
+export interface PineUnaryExpression extends PineNode {
+  kind: 'UnaryExpression'
+  operator: string
+  argument: PineExpression
+}
+
+export interface PineBinaryExpression extends PineNode {
+  kind: 'BinaryExpression'
+  operator: string
+  left: PineExpression
+  right: PineExpression
+}
+
+export interface PineTernaryExpression extends PineNode {
+  kind: 'TernaryExpression'
+  test: PineExpression
+  consequent: PineExpression
+  alternate: PineExpression
+}
+
+/** A bracketed list such as the `[a, b]` returned by a function. */
+export interface PineTupleExpression extends PineNode {
+  kind: 'TupleExpression'
+  elements: PineExpression[]
+}
+
+export interface PineBlock extends PineNode {
+  kind: 'Block'
+  body: PineStatement[]
+}
+
+export interface PineIfExpression extends PineNode {
+  kind: 'IfExpression'
+  test: PineExpression
+  consequent: PineBlock
+  alternate?: PineBlock | PineIfExpression
+}
+
+/** `for i = from to to [by step]` */
+export interface PineForExpression extends PineNode {
+  kind: 'ForExpression'
+  iterator: PineIdentifier
+  from: PineExpression
+  to: PineExpression
+  step?: PineExpression
+  body: PineBlock
+}
+
+/** `for item in iterable` or `for [index, item] in iterable` */
+export interface PineForInExpression extends PineNode {
+  kind: 'ForInExpression'
+  iterators: PineIdentifier[]
+  iterable: PineExpression
+  body: PineBlock
+}
+
+export interface PineWhileExpression extends PineNode {
+  kind: 'WhileExpression'
+  test: PineExpression
+  body: PineBlock
+}
+
+/** A `switch` arm, `test` is undefined for the default arm. */
+export interface PineSwitchCase extends PineNode {
+  kind: 'SwitchCase'
+  test?: PineExpression
+  body: PineBlock
+}
+
+export interface PineSwitchExpression extends PineNode {
+  kind: 'SwitchExpression'
+  discriminant?: PineExpression
+  cases: PineSwitchCase[]
+}
+
+export type PineExpression =
+  | PineIdentifier
+  | PineLiteral
+  | PineMemberExpression
+  | PineCallExpression
+  | PineIndexExpression
+  | PineUnaryExpression
+  | PineBinaryExpression
+  | PineTernaryExpression
+  | PineTupleExpression
+  | PineIfExpression
+  | PineForExpression
+  | PineForInExpression
+  | PineWhileExpression
+  | PineSwitchExpression
+
+export interface PineImportDeclaration extends PineNode {
+  kind: 'ImportDeclaration'
+  path: string
+  alias: PineIdentifier
+  /** True if the alias comes from an explicit `as` clause rather than the library name. */
+  explicitAlias: boolean
+}
+
+export interface PineParameter extends PineNode {
+  kind: 'Parameter'
+  name: PineIdentifier
+  qualifier?: string
+  typeAnnotation?: PineTypeReference
+  defaultValue?: PineExpression
+}
+
+export interface PineFunctionDeclaration extends PineNode {
+  kind: 'FunctionDeclaration'
+  name: PineIdentifier
+  params: PineParameter[]
+  body: PineBlock
+  isExport: boolean
+  isMethod: boolean
+  docComment?: string
+}
+
+export interface PineFieldDeclaration extends PineNode {
+  kind: 'FieldDeclaration'
+  name: PineIdentifier
+  typeAnnotation: PineTypeReference
+  isConst: boolean
+  isVarip: boolean
+  defaultValue?: PineExpression
+}
+
+export interface PineTypeDeclaration extends PineNode {
+  kind: 'TypeDeclaration'
+  name: PineIdentifier
+  fields: PineFieldDeclaration[]
+  isExport: boolean
+  docComment?: string
+}
+
+export interface PineEnumMember extends PineNode {
+  kind: 'EnumMember'
+  name: PineIdentifier
+  title?: PineLiteral
+}
+
+export interface PineEnumDeclaration extends PineNode {
+  kind: 'EnumDeclaration'
+  name: PineIdentifier
+  members: PineEnumMember[]
+  isExport: boolean
+  docComment?: string
+}
+
+export interface PineVariableDeclaration extends PineNode {
+  kind: 'VariableDeclaration'
+  name: PineIdentifier
+  /** `var` or `varip` */
+  mode?: string
+  /** `const`, `simple` or `series` */
+  qualifier?: string
+  typeAnnotation?: PineTypeReference
+  init: PineExpression
+  isExport: boolean
+  docComment?: string
+}
+
+export interface PineTupleDeclaration extends PineNode {
+  kind: 'TupleDeclaration'
+  names: PineIdentifier[]
+  init: PineExpression
+}
+
+/** A reassignment with `:=` or a compound operator such as `+=`. */
+export interface PineAssignment extends PineNode {
+  kind: 'Assignment'
+  operator: string
+  target: PineExpression
+  value: PineExpression
+}
+
+export interface PineExpressionStatement extends PineNode {
+  kind: 'ExpressionStatement'
+  expression: PineExpression
+}
+
+export interface PineLoopControl extends PineNode {
+  kind: 'BreakStatement' | 'ContinueStatement'
+}
+
+export type PineStatement =
+  | PineImportDeclaration
+  | PineFunctionDeclaration
+  | PineTypeDeclaration
+  | PineEnumDeclaration
+  | PineVariableDeclaration
+  | PineTupleDeclaration
+  | PineAssignment
+  | PineExpressionStatement
+  | PineLoopControl
+
+export interface PineScript extends PineNode {
+  kind: 'Script'
+  /** The version of the `//@version=` annotation, if any. */
+  version?: number
+  body: PineStatement[]
+}
+
+/**
+ * PineAstWalker traverses syntax trees without knowing every node shape:
+ * any property holding a node, or an array of nodes, is a child.
+ */
+export class PineAstWalker {
+  /**
+   * Lists the direct children of a node in source order.
+   * @param node - The node.
+   * @returns The child nodes.
+   */
+  static children(node: PineNode): PineNode[] {
+    const children: PineNode[] = []
+    for (const [key, value] of Object.entries(node)) {
+      if (key === 'kind') {
+        continue
+      }
+      const values = Array.isArray(value) ? value : [value]
+      for (const item of values) {
+        if (item && typeof item === 'object' && typeof item.kind === 'string') {
+          children.push(item)
+        }
+      }
+    }
+    return children.sort((a, b) => a.start - b.start)
+  }
+
+  /**
+   * Visits a node and its descendants depth-first.
+   * @param node - The node to start from.
+   * @param visit - Called for every node with its parent. Returning false skips the node's children.
+   * @param parent - The parent of the start node, if known.
+   */
+  static walk(node: PineNode, visit: (node: PineNode, parent?: PineNode) => boolean | void, parent?: PineNode) {
+    if (visit(node, parent) === false) {
+      return
+    }
+    for (const child of PineAstWalker.children(node)) {
+      PineAstWalker.walk(child, visit, node)
+    }
+  }
+
+  /**
+   * Finds the innermost node containing an offset, with the chain of its ancestors.
+   * @param root - The node to search.
+   * @param offset - The offset.
+   * @returns The nodes from the root down to the innermost node containing the offset.
+   */
+  static pathAt(root: PineNode, offset: number): PineNode[] {
+    const path: PineNode[] = []
+    let current: PineNode | undefined = root
+    while (current) {
+      path.push(current)
+      current = PineAstWalker.children(current).find((child) => child.start <= offset && offset <= child.end)
+    }
+    return path
+  }
+
+  /**
+   * Renders a type reference back to its source form, e.g. `array<float>` or `int[]`.
+   * @param type - The type reference.
+   * @returns The type as text.
+   */
+  static typeToString(type: PineTypeReference): string {
+    const args = type.typeArguments.length
+      ? `<${type.typeArguments.map((arg) => PineAstWalker.typeToString(arg)).join(', ')}>`
+      : ''
+    return `${type.name}${args}${type.isArray ? '[]' : ''}`
+  }
+}
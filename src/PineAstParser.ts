@@ -0,0 +1,1024 @@
+import { PineLexer, PineToken } from './PineLexer'
+import {
+  PineArgument,
+  PineBlock,
+  PineEnumDeclaration,
+  PineEnumMember,
+  PineExpression,
+  PineFieldDeclaration,
+  PineForExpression,
+  PineFunctionDeclaration,
+  PineIdentifier,
+  PineIfExpression,
+  PineImportDeclaration,
+  PineParameter,
+  PineScript,
+  PineStatement,
+  PineSwitchCase,
+  PineSwitchExpression,
+  PineTypeDeclaration,
+  PineTypeReference,
+  PineVariableDeclaration,
+} from './PineAst'
+
+/** A syntax error found while parsing, with the offsets of the offending text. */
+export interface PineParseError {
+  message: string
+  start: number
+  end: number
+}
+
+/** The result of parsing a script. */
+export interface PineParseResult {
+  script: PineScript
+  errors: PineParseError[]
+  tokens: PineToken[]
+  comments: PineToken[]
+  lineStarts: number[]
+}
+
+/** Thrown internally to abandon the current statement, the parser then resumes at the next line. */
+class PineSyntaxError extends Error {
+  constructor(message: string, public token: PineToken) {
+    super(message)
+  }
+}
+
+/**
+ * PineAstParser builds a syntax tree from Pine Script source with a recursive descent parser.
+ *
+ * The parser never throws on bad input: a statement that fails to parse is recorded in `errors`
+ * and skipped, so the rest of the script still yields a usable tree.
+ */
+export class PineAstParser {
+  static readonly qualifiers: string[] = ['const', 'simple', 'series']
+  static readonly assignmentOperators: string[] = [':=', '+=', '-=', '*=', '/=', '%=']
+
+  private text: string
+  private tokens: PineToken[]
+  private comments: PineToken[]
+  private lineStarts: number[]
+  private pos = 0
+  private errors: PineParseError[] = []
+  /** Standalone comment lines, used to find the doc comment above a declaration. */
+  private commentLines: Map<number, PineToken> = new Map()
+
+  constructor(text: string) {
+    this.text = text
+    const lexed = PineLexer.tokenize(text)
+    this.tokens = lexed.tokens
+    this.comments = lexed.comments
+    this.lineStarts = lexed.lineStarts
+    for (const comment of this.comments) {
+      if (!text.slice(this.lineStarts[comment.line], comment.start).trim()) {
+        this.commentLines.set(comment.line, comment)
+      }
+    }
+  }
+
+  /**
+   * Parses a script.
+   * @param text - The script source.
+   * @returns The syntax tree, the syntax errors and the tokens it was built from.
+   */
+  static parse(text: string): PineParseResult {
+    return new PineAstParser(text).parse()
+  }
+
+  /**
+   * Parses the source this parser was created with.
+   * @returns The syntax tree, the syntax errors and the tokens it was built from.
+   */
+  parse(): PineParseResult {
+    const body: PineStatement[] = []
+    while (!this.check('eof')) {
+      if (this.check('newline') || this.check('dedent')) {
+        this.advance()
+        continue
+      }
+      this.parseStatementLine(body)
+    }
+    const version = this.comments.map((comment) => /^\/\/\s*@version\s*=\s*(\d+)/.exec(comment.value)).find(Boolean)
+    const script: PineScript = { kind: 'Script', start: 0, end: this.text.length, body }
+    if (version) {
+      script.version = Number(version[1])
+    }
+    return {
+      script,
+      errors: this.errors,
+      tokens: this.tokens,
+      comments: this.comments,
+      lineStarts: this.lineStarts,
+    }
+  }
+
+  // Statements
+
+  /**
+   * Parses one line of comma separated statements into `body`, recovering from syntax errors.
+   * @param body - The statement list to append to.
+   */
+  private parseStatementLine(body: PineStatement[]) {
+    const startPos = this.pos
+    try {
+      if (this.check('indent')) {
+        const indent = this.advance()
+        this.errors.push({ message: 'Unexpected indentation', start: indent.start, end: indent.start + 1 })
+        body.push(...this.parseBlockBody(indent).body)
+        return
+      }
+      do {
+        body.push(this.parseStatement())
+      } while (this.match('punctuation', ','))
+      this.expectLineEnd()
+    } catch (error) {
+      this.recover(error)
+      if (this.pos === startPos && !this.check('eof') && !this.check('dedent')) {
+        this.advance()
+      }
+    }
+  }
+
+  /**
+   * Records a syntax error and skips the rest of the statement.
+   * @param error - The caught error, anything but a PineSyntaxError is rethrown.
+   */
+  private recover(error: unknown) {
+    if (!(error instanceof PineSyntaxError)) {
+      throw error
+    }
+    const { token } = error
+    this.errors.push({ message: error.message, start: token.start, end: Math.max(token.end, token.start + 1) })
+    this.synchronize()
+  }
+
+  /** Skips to the start of the next statement at the current block depth. */
+  private synchronize() {
+    let nesting = 0
+    while (!this.check('eof')) {
+      const token = this.peek()
+      if (token.kind === 'newline' && nesting === 0) {
+        this.advance()
+        return
+      }
+      if (token.kind === 'dedent') {
+        if (nesting === 0) {
+          return
+        }
+        nesting--
+        this.advance()
+        if (nesting === 0) {
+          return
+        }
+        continue
+      }
+      if (token.kind === 'indent') {
+        nesting++
+      }
+      this.advance()
+    }
+  }
+
+  /** Accepts the end of a statement: a newline, the end of a block or the end of the script. */
+  private expectLineEnd() {
+    if (this.match('newline') || this.check('dedent') || this.check('eof') || this.previous()?.kind === 'dedent') {
+      return
+    }
+    throw this.error(`Unexpected ${PineAstParser.describe(this.peek())}`)
+  }
+
+  private parseStatement(): PineStatement {
+    const first = this.peek()
+    if (this.checkKeyword('import')) {
+      return this.parseImport()
+    }
+    if (this.checkKeyword('break') || this.checkKeyword('continue')) {
+      const token = this.advance()
+      return {
+        kind: token.value === 'break' ? 'BreakStatement' : 'ContinueStatement',
+        start: token.start,
+        end: token.end,
+      }
+    }
+
+    const isExport = this.matchKeyword('export')
+    const docComment = this.docCommentFor(first)
+    if (this.checkKeyword('type')) {
+      return this.parseTypeDeclaration(first, isExport, docComment)
+    }
+    if (this.checkKeyword('enum')) {
+      return this.parseEnumDeclaration(first, isExport, docComment)
+    }
+    if (this.checkKeyword('method') || this.isFunctionDeclaration()) {
+      return this.parseFunctionDeclaration(first, isExport, docComment)
+    }
+    const declaration = this.parseVariableDeclaration(first, isExport, docComment)
+    if (declaration) {
+      return declaration
+    }
+    if (isExport) {
+      throw this.error('Expected a function, type, enum or constant after export')
+    }
+
+    if (this.check('punctuation', '[')) {
+      const names = this.attempt(() => this.parseTupleNames())
+      if (names && this.match('operator', '=')) {
+        const init = this.parseExpression()
+        return { kind: 'TupleDeclaration', names, init, start: first.start, end: init.end }
+      }
+    }
+
+    const expression = this.parseExpression()
+    const operator = this.peek()
+    if (operator.kind === 'operator' && PineAstParser.assignmentOperators.includes(operator.value)) {
+      this.advance()
+      const value = this.parseExpression()
+      return {
+        kind: 'Assignment',
+        operator: operator.value,
+        target: expression,
+        value,
+        start: first.start,
+        end: value.end,
+      }
+    }
+    return { kind: 'ExpressionStatement', expression, start: expression.start, end: expression.end }
+  }
+
+  /** Parses `import user/library/version [as alias]`. */
+  private parseImport(): PineImportDeclaration {
+    const keyword = this.advance()
+    const pathTokens: PineToken[] = []
+    while (!this.check('newline') && !this.check('eof') && !this.check('punctuation', ',') && !this.checkValue('as')) {
+      pathTokens.push(this.advance())
+    }
+    if (!pathTokens.length) {
+      throw this.error('Expected a library path after import')
+    }
+    const pathStart = pathTokens[0].start
+    const pathEnd = pathTokens[pathTokens.length - 1].end
+    const path = this.text.slice(pathStart, pathEnd).replace(/\s+/g, '')
+    if (this.match('identifier', 'as')) {
+      const alias = this.parseIdentifier()
+      return { kind: 'ImportDeclaration', path, alias, explicitAlias: true, start: keyword.start, end: alias.end }
+    }
+    const segments = path.split('/')
+    const name = segments.length > 1 ? segments[segments.length - 2] : segments[0]
+    const nameToken = pathTokens.find((token) => token.value === name) ?? pathTokens[0]
+    const alias: PineIdentifier = { kind: 'Identifier', name, start: nameToken.start, end: nameToken.end }
+    return { kind: 'ImportDeclaration', path, alias, explicitAlias: false, start: keyword.start, end: pathEnd }
+  }
+
+  /** Parses a function or method declaration, the `export` keyword has already been consumed. */
+  private parseFunctionDeclaration(first: PineToken, isExport: boolean, docComment?: string): PineFunctionDeclaration {
+    const isMethod = this.matchKeyword('method')
+    const name = this.parseIdentifier()
+    this.expect('punctuation', '(')
+    const params: PineParameter[] = []
+    if (!this.check('punctuation', ')')) {
+      do {
+        params.push(this.parseParameter())
+      } while (this.match('punctuation', ','))
+    }
+    this.expect('punctuation', ')')
+    this.expect('operator', '=>')
+    const body = this.parseBody()
+    const declaration: PineFunctionDeclaration = {
+      kind: 'FunctionDeclaration',
+      name,
+      params,
+      body,
+      isExport,
+      isMethod,
+      start: first.start,
+      end: body.end,
+    }
+    if (docComment) {
+      declaration.docComment = docComment
+    }
+    return declaration
+  }
+
+  /** Parses `[qualifier] [type] name [= default]`. */
+  private parseParameter(): PineParameter {
+    const first = this.peek()
+    let qualifier: string | undefined
+    if (PineAstParser.qualifiers.includes(first.value) && this.peek(1).kind === 'identifier') {
+      qualifier = this.advance().value
+    }
+    const typeAnnotation = this.attempt(() => {
+      const type = this.parseTypeReference()
+      return this.check('identifier') ? type : undefined
+    })
+    const name = this.parseIdentifier()
+    const parameter: PineParameter = { kind: 'Parameter', name, start: first.start, end: name.end }
+    if (qualifier) {
+      parameter.qualifier = qualifier
+    }
+    if (typeAnnotation) {
+      parameter.typeAnnotation = typeAnnotation
+    }
+    if (this.match('operator', '=')) {
+      parameter.defaultValue = this.parseExpression()
+      parameter.end = parameter.defaultValue.end
+    }
+    return parameter
+  }
+
+  /** Parses a `type` declaration and its indented fields. */
+  private parseTypeDeclaration(first: PineToken, isExport: boolean, docComment?: string): PineTypeDeclaration {
+    this.advance()
+    const name = this.parseIdentifier()
+    const fields: PineFieldDeclaration[] = []
+    const declaration: PineTypeDeclaration = {
+      kind: 'TypeDeclaration',
+      name,
+      fields,
+      isExport,
+      start: first.start,
+      end: name.end,
+    }
+    if (docComment) {
+      declaration.docComment = docComment
+    }
+    this.parseIndented(() => {
+      const fieldStart = this.peek()
+      const isVarip = this.matchKeyword('varip')
+      const isConst = this.match('identifier', 'const')
+      const typeAnnotation = this.parseTypeReference()
+      const fieldName = this.parseIdentifier()
+      const field: PineFieldDeclaration = {
+        kind: 'FieldDeclaration',
+        name: fieldName,
+        typeAnnotation,
+        isConst,
+        isVarip,
+        start: fieldStart.start,
+        end: fieldName.end,
+      }
+      if (this.match('operator', '=')) {
+        field.defaultValue = this.parseExpression()
+        field.end = field.defaultValue.end
+      }
+      fields.push(field)
+      declaration.end = field.end
+    })
+    return declaration
+  }
+
+  /** Parses an `enum` declaration and its indented members. */
+  private parseEnumDeclaration(first: PineToken, isExport: boolean, docComment?: string): PineEnumDeclaration {
+    this.advance()
+    const name = this.parseIdentifier()
+    const members: PineEnumMember[] = []
+    const declaration: PineEnumDeclaration = {
+      kind: 'EnumDeclaration',
+      name,
+      members,
+      isExport,
+      start: first.start,
+      end: name.end,
+    }
+    if (docComment) {
+      declaration.docComment = docComment
+    }
+    this.parseIndented(() => {
+      const memberName = this.parseIdentifier()
+      const member: PineEnumMember = {
+        kind: 'EnumMember',
+        name: memberName,
+        start: memberName.start,
+        end: memberName.end,
+      }
+      if (this.match('operator', '=')) {
+        const title = this.parsePrimary()
+        if (title.kind !== 'Literal' || title.literalType !== 'string') {
+          throw new PineSyntaxError('Expected a string title for the enum member', this.previous())
+        }
+        member.title = title
+        member.end = title.end
+      }
+      members.push(member)
+      declaration.end = member.end
+    })
+    return declaration
+  }
+
+  /**
+   * Parses `[var|varip] [qualifier] [type] name = value` if the tokens at the cursor form a declaration.
+   * @returns The declaration, or undefined with the cursor untouched.
+   */
+  private parseVariableDeclaration(
+    first: PineToken,
+    isExport: boolean,
+    docComment?: string,
+  ): PineVariableDeclaration | undefined {
+    const saved = this.pos
+    const mode = this.checkKeyword('var') || this.checkKeyword('varip') ? this.advance().value : undefined
+    let qualifier: string | undefined
+    if (PineAstParser.qualifiers.includes(this.peek().value) && this.peek(1).kind === 'identifier') {
+      qualifier = this.advance().value
+    }
+    const typeAnnotation = this.attempt(() => {
+      const type = this.parseTypeReference()
+      return this.check('identifier') ? type : undefined
+    })
+    if (!this.check('identifier') || !this.checkAt(1, 'operator', '=')) {
+      if (mode || qualifier) {
+        throw this.error('Expected a variable declaration')
+      }
+      this.pos = saved
+      return undefined
+    }
+    const name = this.parseIdentifier()
+    this.advance()
+    const init = this.parseExpression()
+    const declaration: PineVariableDeclaration = {
+      kind: 'VariableDeclaration',
+      name,
+      init,
+      isExport,
+      start: first.start,
+      end: init.end,
+    }
+    if (mode) {
+      declaration.mode = mode
+    }
+    if (qualifier) {
+      declaration.qualifier = qualifier
+    }
+    if (typeAnnotation) {
+      declaration.typeAnnotation = typeAnnotation
+    }
+    if (docComment) {
+      declaration.docComment = docComment
+    }
+    return declaration
+  }
+
+  /** Parses the `[a, b]` names on the left of a tuple declaration. */
+  private parseTupleNames(): PineIdentifier[] {
+    this.expect('punctuation', '[')
+    const names: PineIdentifier[] = []
+    do {
+      names.push(this.parseIdentifier())
+    } while (this.match('punctuation', ','))
+    this.expect('punctuation', ']')
+    if (!this.check('operator', '=')) {
+      throw this.error("Expected '='")
+    }
+    return names
+  }
+
+  /**
+   * Parses an indented list of one-line entries, as found in `type` and `enum` declarations.
+   * @param parseEntry - Parses one entry.
+   */
+  private parseIndented(parseEntry: () => void) {
+    if (!this.match('newline') || !this.check('indent')) {
+      return
+    }
+    this.advance()
+    while (!this.check('dedent') && !this.check('eof')) {
+      if (this.match('newline')) {
+        continue
+      }
+      try {
+        parseEntry()
+        this.expectLineEnd()
+      } catch (error) {
+        this.recover(error)
+      }
+    }
+    this.match('dedent')
+  }
+
+  /** Parses the body after `=>`: either the rest of the line or an indented block. */
+  private parseBody(): PineBlock {
+    if (this.check('newline') && this.checkAt(1, 'indent')) {
+      this.advance()
+      return this.parseBlockBody(this.advance())
+    }
+    const statement = this.parseStatement()
+    return { kind: 'Block', body: [statement], start: statement.start, end: statement.end }
+  }
+
+  /** Parses an indented block, expecting a newline followed by an indent at the cursor. */
+  private parseBlock(): PineBlock {
+    this.expect('newline')
+    if (!this.check('indent')) {
+      throw this.error('Expected an indented block')
+    }
+    return this.parseBlockBody(this.advance())
+  }
+
+  /**
+   * Parses the statements of a block up to its closing dedent.
+   * @param indent - The indent token that opened the block.
+   */
+  private parseBlockBody(indent: PineToken): PineBlock {
+    const body: PineStatement[] = []
+    let end = indent.start
+    while (!this.check('dedent') && !this.check('eof')) {
+      if (this.match('newline')) {
+        continue
+      }
+      this.parseStatementLine(body)
+      end = Math.max(end, this.lastContentEnd())
+    }
+    this.match('dedent')
+    return { kind: 'Block', body, start: indent.start, end }
+  }
+
+  // Expressions
+
+  private parseExpression(): PineExpression {
+    return this.parseTernary()
+  }
+
+  private parseTernary(): PineExpression {
+    const test = this.parseBinary(0)
+    if (this.endedBlock() || !this.match('operator', '?')) {
+      return test
+    }
+    const consequent = this.parseTernary()
+    this.expect('operator', ':')
+    const alternate = this.parseTernary()
+    return { kind: 'TernaryExpression', test, consequent, alternate, start: test.start, end: alternate.end }
+  }
+
+  /** Binary operators from the loosest to the tightest binding. */
+  private static readonly precedence: string[][] = [
+    ['or'],
+    ['and'],
+    ['==', '!='],
+    ['<', '>', '<=', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ]
+
+  private parseBinary(level: number): PineExpression {
+    if (level >= PineAstParser.precedence.length) {
+      return this.parseUnary()
+    }
+    let left = this.parseBinary(level + 1)
+    const operators = PineAstParser.precedence[level]
+    while (
+      !this.endedBlock() &&
+      (this.check('operator') || this.check('keyword')) &&
+      operators.includes(this.peek().value)
+    ) {
+      const operator = this.advance().value
+      const right = this.parseBinary(level + 1)
+      left = { kind: 'BinaryExpression', operator, left, right, start: left.start, end: right.end }
+    }
+    return left
+  }
+
+  private parseUnary(): PineExpression {
+    const token = this.peek()
+    if (this.checkKeyword('not') || this.check('operator', '-') || this.check('operator', '+')) {
+      this.advance()
+      const argument = this.parseUnary()
+      return { kind: 'UnaryExpression', operator: token.value, argument, start: token.start, end: argument.end }
+    }
+    return this.parsePostfix()
+  }
+
+  /** Parses member access, calls, history references and generic calls such as `array.new<float>()`. */
+  private parsePostfix(): PineExpression {
+    let expression = this.parsePrimary()
+    for (;;) {
+      if (this.endedBlock()) {
+        return expression
+      } else if (this.match('punctuation', '.')) {
+        const property = this.parseIdentifier(true)
+        expression = {
+          kind: 'MemberExpression',
+          object: expression,
+          property,
+          start: expression.start,
+          end: property.end,
+        }
+      } else if (this.check('punctuation', '(')) {
+        expression = this.parseCall(expression, [])
+      } else if (this.match('punctuation', '[')) {
+        const index = this.parseExpression()
+        const close = this.expect('punctuation', ']')
+        expression = { kind: 'IndexExpression', object: expression, index, start: expression.start, end: close.end }
+      } else if (
+        this.check('operator', '<') &&
+        (expression.kind === 'Identifier' || expression.kind === 'MemberExpression')
+      ) {
+        const typeArguments = this.attempt(() => {
+          const types = this.parseTypeArguments()
+          return this.check('punctuation', '(') ? types : undefined
+        })
+        if (!typeArguments) {
+          return expression
+        }
+        expression = this.parseCall(expression, typeArguments)
+      } else {
+        return expression
+      }
+    }
+  }
+
+  /**
+   * Whether the last expression was a block (`if`, `for`, `switch`, ...) that consumed its closing dedent. The tokens
+   * after it start the next line, so they must not continue the expression as an operand, call or index.
+   */
+  private endedBlock(): boolean {
+    return this.previous()?.kind === 'dedent'
+  }
+
+  private parseCall(callee: PineExpression, typeArguments: PineTypeReference[]): PineExpression {
+    this.expect('punctuation', '(')
+    const args: PineArgument[] = []
+    if (!this.check('punctuation', ')')) {
+      do {
+        const start = this.peek().start
+        let name: PineIdentifier | undefined
+        // Keywords name arguments too, e.g. the `type` of a v4 `input(type = input.integer)`
+        if ((this.check('identifier') || this.check('keyword')) && this.checkAt(1, 'operator', '=')) {
+          name = this.parseIdentifier(true)
+          this.advance()
+        }
+        const value = this.parseExpression()
+        const argument: PineArgument = { kind: 'Argument', value, start, end: value.end }
+        if (name) {
+          argument.name = name
+        }
+        args.push(argument)
+      } while (this.match('punctuation', ','))
+    }
+    const close = this.expect('punctuation', ')')
+    return { kind: 'CallExpression', callee, typeArguments, args, start: callee.start, end: close.end }
+  }
+
+  private parsePrimary(): PineExpression {
+    const token = this.peek()
+    switch (token.kind) {
+      case 'number':
+        this.advance()
+        return {
+          kind: 'Literal',
+          literalType: /[.eE]/.test(token.value) ? 'float' : 'int',
+          raw: token.value,
+          start: token.start,
+          end: token.end,
+        }
+      case 'string':
+        this.advance()
+        return { kind: 'Literal', literalType: 'string', raw: token.value, start: token.start, end: token.end }
+      case 'color':
+        this.advance()
+        return { kind: 'Literal', literalType: 'color', raw: token.value, start: token.start, end: token.end }
+      case 'identifier':
+        return this.parseIdentifier()
+      case 'keyword':
+        return this.parseKeywordExpression(token)
+      case 'punctuation':
+        if (token.value === '(') {
+          this.advance()
+          const inner = this.parseExpression()
+          this.expect('punctuation', ')')
+          return inner
+        }
+        if (token.value === '[') {
+          this.advance()
+          const elements: PineExpression[] = []
+          if (!this.check('punctuation', ']')) {
+            do {
+              elements.push(this.parseExpression())
+            } while (this.match('punctuation', ','))
+          }
+          const close = this.expect('punctuation', ']')
+          return { kind: 'TupleExpression', elements, start: token.start, end: close.end }
+        }
+        break
+    }
+    throw this.error(`Unexpected ${PineAstParser.describe(token)}`)
+  }
+
+  private parseKeywordExpression(token: PineToken): PineExpression {
+    switch (token.value) {
+      case 'true':
+      case 'false':
+        this.advance()
+        return { kind: 'Literal', literalType: 'bool', raw: token.value, start: token.start, end: token.end }
+      case 'if':
+        return this.parseIf()
+      case 'for':
+        return this.parseFor()
+      case 'while': {
+        this.advance()
+        const test = this.parseExpression()
+        const body = this.parseBlock()
+        return { kind: 'WhileExpression', test, body, start: token.start, end: body.end }
+      }
+      case 'switch':
+        return this.parseSwitch()
+    }
+    throw this.error(`Unexpected '${token.value}'`)
+  }
+
+  private parseIf(): PineIfExpression {
+    const keyword = this.advance()
+    const test = this.parseExpression()
+    const consequent = this.parseBlock()
+    const expression: PineIfExpression = {
+      kind: 'IfExpression',
+      test,
+      consequent,
+      start: keyword.start,
+      end: consequent.end,
+    }
+    if (this.checkKeyword('else')) {
+      this.advance()
+      expression.alternate = this.checkKeyword('if') ? this.parseIf() : this.parseBlock()
+      expression.end = expression.alternate.end
+    }
+    return expression
+  }
+
+  private parseFor(): PineExpression {
+    const keyword = this.advance()
+    if (this.check('punctuation', '[')) {
+      this.advance()
+      const iterators: PineIdentifier[] = []
+      do {
+        iterators.push(this.parseIdentifier())
+      } while (this.match('punctuation', ','))
+      this.expect('punctuation', ']')
+      this.expect('identifier', 'in')
+      const iterable = this.parseExpression()
+      const body = this.parseBlock()
+      return { kind: 'ForInExpression', iterators, iterable, body, start: keyword.start, end: body.end }
+    }
+    const iterator = this.parseIdentifier()
+    if (this.match('identifier', 'in')) {
+      const iterable = this.parseExpression()
+      const body = this.parseBlock()
+      return { kind: 'ForInExpression', iterators: [iterator], iterable, body, start: keyword.start, end: body.end }
+    }
+    this.expect('operator', '=')
+    const from = this.parseExpression()
+    this.expect('identifier', 'to')
+    const to = this.parseExpression()
+    const step = this.match('identifier', 'by') ? this.parseExpression() : undefined
+    const body = this.parseBlock()
+    const expression: PineForExpression = {
+      kind: 'ForExpression',
+      iterator,
+      from,
+      to,
+      body,
+      start: keyword.start,
+      end: body.end,
+    }
+    if (step) {
+      expression.step = step
+    }
+    return expression
+  }
+
+  private parseSwitch(): PineExpression {
+    const keyword = this.advance()
+    const discriminant = this.check('newline') ? undefined : this.parseExpression()
+    const cases: PineSwitchCase[] = []
+    this.expect('newline')
+    if (!this.check('indent')) {
+      throw this.error('Expected an indented block')
+    }
+    this.advance()
+    while (!this.check('dedent') && !this.check('eof')) {
+      if (this.match('newline')) {
+        continue
+      }
+      const first = this.peek()
+      try {
+        const test = this.check('operator', '=>') ? undefined : this.parseExpression()
+        this.expect('operator', '=>')
+        const body = this.parseBody()
+        const switchCase: PineSwitchCase = { kind: 'SwitchCase', body, start: first.start, end: body.end }
+        if (test) {
+          switchCase.test = test
+        }
+        cases.push(switchCase)
+        this.expectLineEnd()
+      } catch (error) {
+        this.recover(error)
+      }
+    }
+    const end = Math.max(keyword.end, this.lastContentEnd())
+    this.match('dedent')
+    const expression: PineSwitchExpression = { kind: 'SwitchExpression', cases, start: keyword.start, end }
+    if (discriminant) {
+      expression.discriminant = discriminant
+    }
+    return expression
+  }
+
+  // Types
+
+  /** Parses a type such as `float`, `chart.point`, `array<float>`, `map<string, int>` or `int[]`. */
+  private parseTypeReference(): PineTypeReference {
+    const first = this.peek()
+    if (first.kind !== 'identifier') {
+      throw this.error('Expected a type')
+    }
+    let name = this.advance().value
+    while (this.check('punctuation', '.') && this.checkAt(1, 'identifier')) {
+      this.advance()
+      name += '.' + this.advance().value
+    }
+    const type: PineTypeReference = {
+      kind: 'TypeReference',
+      name,
+      typeArguments: [],
+      isArray: false,
+      start: first.start,
+      end: this.previous().end,
+    }
+    if (this.check('operator', '<')) {
+      type.typeArguments = this.parseTypeArguments()
+      type.end = this.previous().end
+    }
+    if (this.check('punctuation', '[') && this.checkAt(1, 'punctuation', ']')) {
+      this.advance()
+      type.isArray = true
+      type.end = this.advance().end
+    }
+    return type
+  }
+
+  /** Parses `<type, ...>`. */
+  private parseTypeArguments(): PineTypeReference[] {
+    this.expect('operator', '<')
+    const types: PineTypeReference[] = []
+    do {
+      types.push(this.parseTypeReference())
+    } while (this.match('punctuation', ','))
+    this.expect('operator', '>')
+    return types
+  }
+
+  // Helpers
+
+  /**
+   * Parses an identifier.
+   * @param allowKeyword - Accept a keyword as well, for member names such as `strategy.type`.
+   */
+  private parseIdentifier(allowKeyword = false): PineIdentifier {
+    const token = this.peek()
+    if (token.kind !== 'identifier' && !(allowKeyword && token.kind === 'keyword')) {
+      throw this.error(`Expected an identifier, found ${PineAstParser.describe(token)}`)
+    }
+    this.advance()
+    return { kind: 'Identifier', name: token.value, start: token.start, end: token.end }
+  }
+
+  /** Checks whether the cursor is at `name(...) =>`, the start of a function declaration. */
+  private isFunctionDeclaration(): boolean {
+    if (!this.check('identifier') || !this.checkAt(1, 'punctuation', '(')) {
+      return false
+    }
+    let depth = 0
+    for (let i = this.pos + 1; i < this.tokens.length; i++) {
+      const token = this.tokens[i]
+      if (token.kind === 'newline' || token.kind === 'eof') {
+        return false
+      }
+      if (token.kind === 'punctuation' && (token.value === '(' || token.value === '[')) {
+        depth++
+      } else if (token.kind === 'punctuation' && (token.value === ')' || token.value === ']')) {
+        depth--
+        if (depth === 0) {
+          const next = this.tokens[i + 1]
+          return next?.kind === 'operator' && next.value === '=>'
+        }
+      }
+    }
+    return false
+  }
+
+  /**
+   * Collects the contiguous standalone comment lines directly above a token.
+   * @param token - The first token of a declaration.
+   * @returns The comment lines joined by newlines, or undefined if there are none.
+   */
+  private docCommentFor(token: PineToken): string | undefined {
+    const lines: string[] = []
+    for (let line = token.line - 1; this.commentLines.has(line); line--) {
+      lines.unshift(this.commentLines.get(line)!.value)
+    }
+    return lines.length ? lines.join('\n') + '\n' : undefined
+  }
+
+  /**
+   * Runs a speculative parse, rewinding the cursor if it fails.
+   * @param parse - The parse to try. Returning undefined also counts as a failure.
+   * @returns The parse result, or undefined.
+   */
+  private attempt<T>(parse: () => T | undefined): T | undefined {
+    const saved = this.pos
+    const errorCount = this.errors.length
+    try {
+      const result = parse()
+      if (result === undefined) {
+        this.pos = saved
+      }
+      return result
+    } catch (error) {
+      if (!(error instanceof PineSyntaxError)) {
+        throw error
+      }
+      this.pos = saved
+      this.errors.length = errorCount
+      return undefined
+    }
+  }
+
+  /** The end offset of the last token with source text before the cursor. */
+  private lastContentEnd(): number {
+    for (let i = this.pos - 1; i >= 0; i--) {
+      const token = this.tokens[i]
+      if (token.kind !== 'newline' && token.kind !== 'indent' && token.kind !== 'dedent') {
+        return token.end
+      }
+    }
+    return 0
+  }
+
+  private peek(offset = 0): PineToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)]
+  }
+
+  private previous(): PineToken {
+    return this.tokens[Math.max(this.pos - 1, 0)]
+  }
+
+  private advance(): PineToken {
+    const token = this.peek()
+    if (token.kind !== 'eof') {
+      this.pos++
+    }
+    return token
+  }
+
+  private check(kind: PineToken['kind'], value?: string): boolean {
+    return this.checkAt(0, kind, value)
+  }
+
+  private checkAt(offset: number, kind: PineToken['kind'], value?: string): boolean {
+    const token = this.peek(offset)
+    return token.kind === kind && (value === undefined || token.value === value)
+  }
+
+  private checkKeyword(value: string): boolean {
+    return this.check('keyword', value)
+  }
+
+  private checkValue(value: string): boolean {
+    return this.peek().value === value
+  }
+
+  private match(kind: PineToken['kind'], value?: string): boolean {
+    if (!this.check(kind, value)) {
+      return false
+    }
+    this.advance()
+    return true
+  }
+
+  private matchKeyword(value: string): boolean {
+    return this.match('keyword', value)
+  }
+
+  private expect(kind: PineToken['kind'], value?: string): PineToken {
+    if (!this.check(kind, value)) {
+      const expected = value ? `'${value}'` : `a ${kind}`
+      throw this.error(`Expected ${expected}, found ${PineAstParser.describe(this.peek())}`)
+    }
+    return this.advance()
+  }
+
+  /** Describes a token for an error message. */
+  private static describe(token: PineToken): string {
+    switch (token.kind) {
+      case 'eof':
+        return 'end of script'
+      case 'newline':
+        return 'end of line'
+      case 'indent':
+      case 'dedent':
+        return 'indentation'
+    }
+    return `'${token.value}'`
+  }
+
+  private error(message: string): PineSyntaxError {
+    return new PineSyntaxError(message, this.peek())
+  }
+}
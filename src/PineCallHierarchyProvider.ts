@@ -0,0 +1,257 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import {
+  PineAstWalker,
+  PineCallExpression,
+  PineFunctionDeclaration,
+  PineIdentifier,
+  PineImportDeclaration,
+  PineNode,
+  PineParameter,
+} from './PineAst'
+import { PineAstParser } from './PineAstParser'
+import { PineDefinitionProvider } from './PineDefinitionProvider'
+import { PineLibraryContentProvider } from './PineLibraryContentProvider'
+import { PineScopeAnalysis, PineScopeAnalyzer, PineSymbol } from './PineScopeAnalyzer'
+
+/** A call found in a function body or the script body: the called name and what it resolves to. */
+interface PineCallSite {
+  /** The called name, e.g. `helper`, the method name of `obj.method()` or the member of `lib.func()`. */
+  name: PineIdentifier
+  /** The user function or method, bound through the receiver's type for method calls. */
+  symbol?: PineSymbol
+  /** The import of a call into a library, e.g. `lib` of `lib.func()`. */
+  library?: PineImportDeclaration
+}
+
+/**
+ * The PineCallHierarchyProvider class shows the incoming and outgoing calls of user functions and methods.
+ * Calls are read from the function bodies of the syntax tree, the same bodies PineParser keeps as
+ * `functionBuild.body`, and bound by the scope analysis, so `obj.method()` resolves to the method of the
+ * receiver's type. Calls into imported libraries appear as external items that open the library source when it
+ * has been fetched. Calls outside any function belong to an item for the script body.
+ */
+export class PineCallHierarchyProvider implements vscode.CallHierarchyProvider {
+  /** The kinds of symbol that take part in the hierarchy. */
+  static readonly kinds = ['function', 'method']
+
+  /**
+   * Finds the function or method at a position, at its declaration or at a call.
+   * @param document - The document.
+   * @param position - The position.
+   * @returns The item, or undefined if there is no user function or library function at the position.
+   */
+  prepareCallHierarchy(document: vscode.TextDocument, position: vscode.Position): vscode.CallHierarchyItem | undefined {
+    const text = document.getText()
+    const analysis = Class.PineParser.analyzeScript(text)
+    const offset = document.offsetAt(position)
+    const symbol = PineScopeAnalyzer.symbolAt(analysis, offset)
+    if (symbol && PineCallHierarchyProvider.kinds.includes(symbol.kind)) {
+      return this.itemFor(document, symbol)
+    }
+    const site = this.callSites(analysis, Class.PineParser.parseScript(text).script).find(
+      ({ name }) => name.start <= offset && offset <= name.end,
+    )
+    return site?.library ? this.externalItem(document, site.library, site.name.name) : undefined
+  }
+
+  /**
+   * Lists the callers of a function or method, grouped by the calling function.
+   * @param item - The function or method.
+   * @returns The calls, or none for library functions.
+   */
+  async provideCallHierarchyIncomingCalls(item: vscode.CallHierarchyItem): Promise<vscode.CallHierarchyIncomingCall[]> {
+    const document = await vscode.workspace.openTextDocument(item.uri)
+    const text = document.getText()
+    const analysis = Class.PineParser.analyzeScript(text)
+    const { script } = Class.PineParser.parseScript(text)
+    const symbol = this.symbolOf(document, analysis, item)
+    if (!symbol) {
+      return []
+    }
+    const functions = script.body.filter(
+      (statement): statement is PineFunctionDeclaration => statement.kind === 'FunctionDeclaration',
+    )
+    const callers: Map<PineFunctionDeclaration | undefined, vscode.Range[]> = new Map()
+    for (const site of this.callSites(analysis, script)) {
+      if (site.symbol !== symbol) {
+        continue
+      }
+      const caller = functions.find(
+        (declaration) => declaration.start <= site.name.start && site.name.end <= declaration.end,
+      )
+      callers.set(caller, [...(callers.get(caller) ?? []), this.rangeOf(document, site.name)])
+    }
+    return [...callers].map(([caller, ranges]) => {
+      const callerSymbol = caller && analysis.symbols.find((s) => s.node === caller)
+      const from = callerSymbol ? this.itemFor(document, callerSymbol) : this.scriptItem(document)
+      return new vscode.CallHierarchyIncomingCall(from, ranges)
+    })
+  }
+
+  /**
+   * Lists the functions and methods a function, a method or the script body calls, grouped by the callee.
+   * @param item - The caller.
+   * @returns The calls, including calls into libraries.
+   */
+  async provideCallHierarchyOutgoingCalls(item: vscode.CallHierarchyItem): Promise<vscode.CallHierarchyOutgoingCall[]> {
+    const document = await vscode.workspace.openTextDocument(item.uri)
+    const text = document.getText()
+    const analysis = Class.PineParser.analyzeScript(text)
+    const { script } = Class.PineParser.parseScript(text)
+    const symbol = this.symbolOf(document, analysis, item)
+    const isScript = item.kind === vscode.SymbolKind.File
+    if (!symbol && !isScript) {
+      return []
+    }
+    const functions = script.body.filter((statement) => statement.kind === 'FunctionDeclaration')
+    const inFunction = ({ name }: PineCallSite) =>
+      functions.some((declaration) => declaration.start <= name.start && name.end <= declaration.end)
+    const sites = symbol
+      ? this.callSites(analysis, (symbol.node as PineFunctionDeclaration).body)
+      : this.callSites(analysis, script).filter((site) => !inFunction(site))
+    const callees: Map<PineSymbol | string, { item: vscode.CallHierarchyItem; ranges: vscode.Range[] }> = new Map()
+    for (const site of sites) {
+      const key = site.symbol ?? (site.library && `${site.library.alias.name}.${site.name.name}`)
+      if (!key) {
+        continue
+      }
+      const callee = callees.get(key) ?? {
+        item: site.symbol
+          ? this.itemFor(document, site.symbol)
+          : this.externalItem(document, site.library as PineImportDeclaration, site.name.name),
+        ranges: [],
+      }
+      callee.ranges.push(this.rangeOf(document, site.name))
+      callees.set(key, callee)
+    }
+    return [...callees.values()].map(({ item: callee, ranges }) => new vscode.CallHierarchyOutgoingCall(callee, ranges))
+  }
+
+  /**
+   * Finds the calls to user functions, user methods and library functions under a node.
+   * @param analysis - The scope analysis of the script.
+   * @param root - The node to search, e.g. a function body.
+   * @returns The calls in source order.
+   */
+  private callSites(analysis: PineScopeAnalysis, root: PineNode): PineCallSite[] {
+    const referenceAt = (start: number) => analysis.references.find((reference) => reference.start === start)
+    const sites: PineCallSite[] = []
+    PineAstWalker.walk(root, (node) => {
+      if (node.kind !== 'CallExpression') {
+        return
+      }
+      const { callee } = node as PineCallExpression
+      if (callee.kind !== 'Identifier' && callee.kind !== 'MemberExpression') {
+        return
+      }
+      const name = callee.kind === 'Identifier' ? callee : callee.property
+      const symbol = referenceAt(name.start)?.symbol
+      if (symbol && PineCallHierarchyProvider.kinds.includes(symbol.kind)) {
+        sites.push({ name, symbol })
+      } else if (callee.kind === 'MemberExpression' && callee.object.kind === 'Identifier') {
+        const object = referenceAt(callee.object.start)?.symbol
+        if (object?.kind === 'import') {
+          sites.push({ name, library: object.node as PineImportDeclaration })
+        }
+      }
+    })
+    return sites
+  }
+
+  /** Finds the function or method of an item by the position of its name. */
+  private symbolOf(
+    document: vscode.TextDocument,
+    analysis: PineScopeAnalysis,
+    item: vscode.CallHierarchyItem,
+  ): PineSymbol | undefined {
+    const offset = document.offsetAt(item.selectionRange.start)
+    return analysis.symbols.find(
+      (symbol) => PineCallHierarchyProvider.kinds.includes(symbol.kind) && symbol.nameNode.start === offset,
+    )
+  }
+
+  /**
+   * Creates the item of a user function or method, with its parameters as detail.
+   * @param document - The document of the declaration.
+   * @param symbol - The function or method.
+   * @returns The item.
+   */
+  private itemFor(document: vscode.TextDocument, symbol: PineSymbol): vscode.CallHierarchyItem {
+    const declaration = symbol.node as PineFunctionDeclaration
+    const params = declaration.params.map((param: PineParameter) =>
+      param.typeAnnotation ? `${PineAstWalker.typeToString(param.typeAnnotation)} ${param.name.name}` : param.name.name,
+    )
+    const isMethod = symbol.kind === 'method'
+    const receiver = isMethod ? symbol.members[0]?.type : undefined
+    return new vscode.CallHierarchyItem(
+      isMethod ? vscode.SymbolKind.Method : vscode.SymbolKind.Function,
+      receiver ? `${receiver}.${symbol.name}` : symbol.name,
+      `(${params.join(', ')})`,
+      document.uri,
+      this.rangeOf(document, declaration),
+      this.rangeOf(document, symbol.nameNode),
+    )
+  }
+
+  /**
+   * Creates the item of a function of an imported library, located in the library source when it has been
+   * fetched and at the import otherwise.
+   * @param document - The importing document.
+   * @param library - The import.
+   * @param name - The function name.
+   * @returns The item.
+   */
+  private externalItem(
+    document: vscode.TextDocument,
+    library: PineImportDeclaration,
+    name: string,
+  ): vscode.CallHierarchyItem {
+    const alias = library.alias.name
+    const lib = PineLibraryContentProvider.libraryFor(alias)
+    let uri = document.uri
+    let range = this.rangeOf(document, library)
+    let selectionRange = range
+    if (lib) {
+      uri = PineLibraryContentProvider.uriFor(lib)
+      const { script, lineStarts } = PineAstParser.parse(lib.script)
+      const declaration = script.body.find(
+        (statement): statement is PineFunctionDeclaration =>
+          statement.kind === 'FunctionDeclaration' && statement.name.name === name,
+      )
+      const toRange = (node: PineNode) =>
+        new vscode.Range(
+          PineDefinitionProvider.positionIn(lineStarts, node.start),
+          PineDefinitionProvider.positionIn(lineStarts, node.end),
+        )
+      range = declaration ? toRange(declaration) : new vscode.Range(0, 0, 0, 0)
+      selectionRange = declaration ? toRange(declaration.name) : range
+    }
+    return new vscode.CallHierarchyItem(
+      vscode.SymbolKind.Function,
+      `${alias}.${name}`,
+      `external: ${library.path}`,
+      uri,
+      range,
+      selectionRange,
+    )
+  }
+
+  /** Creates the item that stands for the calls made outside any function. */
+  private scriptItem(document: vscode.TextDocument): vscode.CallHierarchyItem {
+    const name = document.uri.path.split('/').pop() ?? 'script'
+    const end = document.lineAt(document.lineCount - 1).range.end
+    return new vscode.CallHierarchyItem(
+      vscode.SymbolKind.File,
+      name,
+      'script body',
+      document.uri,
+      new vscode.Range(new vscode.Position(0, 0), end),
+      new vscode.Range(0, 0, 0, 0),
+    )
+  }
+
+  private rangeOf(document: vscode.TextDocument, node: PineNode): vscode.Range {
+    return new vscode.Range(document.positionAt(node.start), document.positionAt(node.end))
+  }
+}
@@ -20,6 +20,23 @@ import { PineHoverMethod } from './PineHoverProvider/PineHoverIsMethod'
 import { PineRenameProvider } from './PineRenameProvider'
 import { PineParser } from './PineParser'
 import { PineCompletionService } from './PineCompletionService'
+import { PineLocalLint } from './PineLocalLint'
+import { PineDocumentSymbolProvider } from './PineDocumentSymbolProvider'
+import { PineDefinitionProvider } from './PineDefinitionProvider'
+import { PineLibraryContentProvider } from './PineLibraryContentProvider'
+import { PineReferenceProvider } from './PineReferenceProvider'
+import { PineCodeLensProvider } from './PineCodeLensProvider'
+import { PineWorkspaceLint } from './PineWorkspaceLint'
+import { PineStatusBar } from './PineStatusBar'
+import { PineCodeActionProvider } from './PineCodeActionProvider'
+import { PineLintCache } from './PineLintCache'
+import { PineSemanticTokensProvider } from './PineSemanticTokensProvider'
+import { PineInlayHintsProvider } from './PineInlayHintsProvider'
+import { PineFormattingProvider } from './PineFormattingProvider'
+import { PineFoldingRangeProvider } from './PineFoldingRangeProvider'
+import { PineCallHierarchyProvider } from './PineCallHierarchyProvider'
+import { PineWorkspaceSymbolProvider } from './PineWorkspaceSymbolProvider'
+import { PineMigration } from './PineMigration'
 
 export class Class {
   public static context: vscode.ExtensionContext | undefined
@@ -43,6 +60,23 @@ export class Class {
   public static pineHoverIsMethod: PineHoverMethod
   public static pineRenameProvider: PineRenameProvider
   public static pineParser: PineParser
+  public static pineLocalLint: PineLocalLint
+  public static pineDocumentSymbolProvider: PineDocumentSymbolProvider
+  public static pineDefinitionProvider: PineDefinitionProvider
+  public static pineLibraryContentProvider: PineLibraryContentProvider
+  public static pineReferenceProvider: PineReferenceProvider
+  public static pineCodeLensProvider: PineCodeLensProvider
+  public static pineWorkspaceLint: PineWorkspaceLint
+  public static pineStatusBar: PineStatusBar
+  public static pineCodeActionProvider: PineCodeActionProvider
+  public static pineLintCache: PineLintCache
+  public static pineSemanticTokensProvider: PineSemanticTokensProvider
+  public static pineInlayHintsProvider: PineInlayHintsProvider
+  public static pineFormattingProvider: PineFormattingProvider
+  public static pineFoldingRangeProvider: PineFoldingRangeProvider
+  public static pineCallHierarchyProvider: PineCallHierarchyProvider
+  public static pineWorkspaceSymbolProvider: PineWorkspaceSymbolProvider
+  public static pineMigration: PineMigration
 
   static setContext(context: vscode.ExtensionContext) {
     Class.context = context
@@ -278,6 +312,193 @@ export class Class {
     return Class.pineParser
   }
 
+  /**
+   * Lazy loads and returns an instance of PineLocalLint.
+   * @returns {PineLocalLint} The PineLocalLint instance.
+   */
+  static get PineLocalLint(): PineLocalLint {
+    if (!Class.pineLocalLint) {
+      Class.pineLocalLint = new PineLocalLint(Class.PineDocsManager)
+    }
+    return Class.pineLocalLint
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineDocumentSymbolProvider.
+   * @returns {PineDocumentSymbolProvider} The PineDocumentSymbolProvider instance.
+   */
+  static get PineDocumentSymbolProvider(): PineDocumentSymbolProvider {
+    if (!Class.pineDocumentSymbolProvider) {
+      Class.pineDocumentSymbolProvider = new PineDocumentSymbolProvider()
+    }
+    return Class.pineDocumentSymbolProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineDefinitionProvider.
+   * @returns {PineDefinitionProvider} The PineDefinitionProvider instance.
+   */
+  static get PineDefinitionProvider(): PineDefinitionProvider {
+    if (!Class.pineDefinitionProvider) {
+      Class.pineDefinitionProvider = new PineDefinitionProvider()
+    }
+    return Class.pineDefinitionProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineLibraryContentProvider.
+   * @returns {PineLibraryContentProvider} The PineLibraryContentProvider instance.
+   */
+  static get PineLibraryContentProvider(): PineLibraryContentProvider {
+    if (!Class.pineLibraryContentProvider) {
+      Class.pineLibraryContentProvider = new PineLibraryContentProvider()
+    }
+    return Class.pineLibraryContentProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineReferenceProvider.
+   * @returns {PineReferenceProvider} The PineReferenceProvider instance.
+   */
+  static get PineReferenceProvider(): PineReferenceProvider {
+    if (!Class.pineReferenceProvider) {
+      Class.pineReferenceProvider = new PineReferenceProvider()
+    }
+    return Class.pineReferenceProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineCodeLensProvider.
+   * @returns {PineCodeLensProvider} The PineCodeLensProvider instance.
+   */
+  static get PineCodeLensProvider(): PineCodeLensProvider {
+    if (!Class.pineCodeLensProvider) {
+      Class.pineCodeLensProvider = new PineCodeLensProvider()
+    }
+    return Class.pineCodeLensProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineWorkspaceLint.
+   * @returns {PineWorkspaceLint} The PineWorkspaceLint instance.
+   */
+  static get PineWorkspaceLint(): PineWorkspaceLint {
+    if (!Class.pineWorkspaceLint) {
+      Class.pineWorkspaceLint = new PineWorkspaceLint()
+    }
+    return Class.pineWorkspaceLint
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineStatusBar.
+   * @returns {PineStatusBar} The PineStatusBar instance.
+   */
+  static get PineStatusBar(): PineStatusBar {
+    if (!Class.pineStatusBar) {
+      Class.pineStatusBar = new PineStatusBar()
+    }
+    return Class.pineStatusBar
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineCodeActionProvider.
+   * @returns {PineCodeActionProvider} The PineCodeActionProvider instance.
+   */
+  static get PineCodeActionProvider(): PineCodeActionProvider {
+    if (!Class.pineCodeActionProvider) {
+      Class.pineCodeActionProvider = new PineCodeActionProvider()
+    }
+    return Class.pineCodeActionProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineLintCache.
+   * @returns {PineLintCache} The PineLintCache instance.
+   */
+  static get PineLintCache(): PineLintCache {
+    if (!Class.pineLintCache) {
+      Class.pineLintCache = new PineLintCache(Class.context?.globalStorageUri)
+    }
+    return Class.pineLintCache
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineSemanticTokensProvider.
+   * @returns {PineSemanticTokensProvider} The PineSemanticTokensProvider instance.
+   */
+  static get PineSemanticTokensProvider(): PineSemanticTokensProvider {
+    if (!Class.pineSemanticTokensProvider) {
+      Class.pineSemanticTokensProvider = new PineSemanticTokensProvider()
+    }
+    return Class.pineSemanticTokensProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineInlayHintsProvider.
+   * @returns {PineInlayHintsProvider} The PineInlayHintsProvider instance.
+   */
+  static get PineInlayHintsProvider(): PineInlayHintsProvider {
+    if (!Class.pineInlayHintsProvider) {
+      Class.pineInlayHintsProvider = new PineInlayHintsProvider()
+    }
+    return Class.pineInlayHintsProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineFormattingProvider.
+   * @returns {PineFormattingProvider} The PineFormattingProvider instance.
+   */
+  static get PineFormattingProvider(): PineFormattingProvider {
+    if (!Class.pineFormattingProvider) {
+      Class.pineFormattingProvider = new PineFormattingProvider()
+    }
+    return Class.pineFormattingProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineFoldingRangeProvider.
+   * @returns {PineFoldingRangeProvider} The PineFoldingRangeProvider instance.
+   */
+  static get PineFoldingRangeProvider(): PineFoldingRangeProvider {
+    if (!Class.pineFoldingRangeProvider) {
+      Class.pineFoldingRangeProvider = new PineFoldingRangeProvider()
+    }
+    return Class.pineFoldingRangeProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineCallHierarchyProvider.
+   * @returns {PineCallHierarchyProvider} The PineCallHierarchyProvider instance.
+   */
+  static get PineCallHierarchyProvider(): PineCallHierarchyProvider {
+    if (!Class.pineCallHierarchyProvider) {
+      Class.pineCallHierarchyProvider = new PineCallHierarchyProvider()
+    }
+    return Class.pineCallHierarchyProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineWorkspaceSymbolProvider.
+   * @returns {PineWorkspaceSymbolProvider} The PineWorkspaceSymbolProvider instance.
+   */
+  static get PineWorkspaceSymbolProvider(): PineWorkspaceSymbolProvider {
+    if (!Class.pineWorkspaceSymbolProvider) {
+      Class.pineWorkspaceSymbolProvider = new PineWorkspaceSymbolProvider()
+    }
+    return Class.pineWorkspaceSymbolProvider
+  }
+
+  /**
+   * Lazy loads and returns an instance of PineMigration.
+   * @returns {PineMigration} The PineMigration instance.
+   */
+  static get PineMigration(): PineMigration {
+    if (!Class.pineMigration) {
+      Class.pineMigration = new PineMigration()
+    }
+    return Class.pineMigration
+  }
+
   /**
    * Disposes the specified class.
    * @param {any} ClassToDisposeOf - The class to dispose of.
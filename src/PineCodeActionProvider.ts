@@ -0,0 +1,328 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineAstWalker, PineCallExpression } from './PineAst'
+import { PineConverter } from './PineConverter'
+import { PineDocumentSymbolProvider } from './PineDocumentSymbolProvider'
+
+/**
+ * The PineCodeActionProvider class offers quick fixes for lint diagnostics:
+ * close matches for undeclared identifiers and unknown functions, removal of unknown named arguments,
+ * missing required arguments filled in with their documented defaults, a `//@version=6` annotation, and the
+ * conversion of v3/v4 scripts to v5.
+ * The diagnostics are recognized by their message, so fixes apply to pine-facade and local lint findings alike.
+ */
+export class PineCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+  /** The most close matches offered for a misspelled name. */
+  static readonly maxSuggestions = 5
+
+  /**
+   * Provides the quick fixes for the diagnostics in a range.
+   * @param document - The document in which the actions were requested.
+   * @param range - The range for which the actions were requested.
+   * @param context - The diagnostics in the range.
+   * @returns The quick fixes.
+   */
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    context: vscode.CodeActionContext,
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = []
+    for (const diagnostic of context.diagnostics) {
+      actions.push(...this.actionsFor(document, diagnostic))
+    }
+    return actions
+  }
+
+  /**
+   * Builds the quick fixes for one diagnostic.
+   * @param document - The document the diagnostic belongs to.
+   * @param diagnostic - The diagnostic.
+   * @returns The quick fixes, none if the message is not recognized.
+   */
+  private actionsFor(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+    const { message } = diagnostic
+    let match = /Undeclared identifier ['"`]([\w.]+)['"`]/.exec(message)
+    if (match) {
+      return this.replaceName(document, diagnostic, match[1], this.identifierNames(document))
+    }
+    match = /Could not find function or function reference ['"`]([\w.]+)['"`]/.exec(message)
+    if (match) {
+      return this.replaceName(document, diagnostic, match[1], this.functionNames(document))
+    }
+    match = /does not have an argument with the name ['"`](\w+)['"`]/.exec(message)
+    if (match) {
+      return this.removeArgument(document, diagnostic, match[1])
+    }
+    match = /Missing required arguments in call to ['"`]([\w.]+)['"`]: (.+)$/.exec(message)
+    if (match) {
+      return this.addArguments(
+        document,
+        diagnostic,
+        match[1],
+        match[2].split(',').map((name) => name.trim()),
+      )
+    }
+    if (/Must be v5 or v6|missing the '\/\/@version' annotation/.test(message)) {
+      const version = /\/\/@version=([34])\b/.exec(document.getText())?.[1]
+      if (!version) {
+        return [this.setVersion(document, diagnostic)]
+      }
+      // Only changing the version of a v3/v4 script would not compile, so the conversion comes first
+      const setVersion = this.setVersion(document, diagnostic)
+      setVersion.isPreferred = false
+      return [this.convertToV5(document, diagnostic, version), setVersion]
+    }
+    return []
+  }
+
+  /**
+   * Offers to replace a misspelled name with close matches.
+   * @param document - The document.
+   * @param diagnostic - The diagnostic reporting the name.
+   * @param name - The misspelled name.
+   * @param candidates - The names that could have been meant.
+   * @returns One action per close match, the closest one preferred.
+   */
+  private replaceName(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    name: string,
+    candidates: Iterable<string>,
+  ): vscode.CodeAction[] {
+    const range = document.getWordRangeAtPosition(diagnostic.range.start, /[A-Za-z_][\w.]*/)
+    if (!range || document.getText(range) !== name) {
+      return []
+    }
+    return PineCodeActionProvider.closeMatches(name, candidates).map((suggestion, index) => {
+      const action = this.createAction(`Change to '${suggestion}'`, diagnostic)
+      action.edit?.replace(document.uri, range, suggestion)
+      action.isPreferred = index === 0
+      return action
+    })
+  }
+
+  /**
+   * Offers to remove an unknown named argument from the call the diagnostic points into.
+   * @param document - The document.
+   * @param diagnostic - The diagnostic reporting the argument.
+   * @param argName - The name of the argument.
+   * @returns The action, or none if the call is not found.
+   */
+  private removeArgument(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    argName: string,
+  ): vscode.CodeAction[] {
+    const call = this.callAt(document, diagnostic, (node) => node.args.some((arg) => arg.name?.name === argName))
+    if (!call) {
+      return []
+    }
+    const index = call.args.findIndex((arg) => arg.name?.name === argName)
+    const arg = call.args[index]
+    // Take the separating comma along: the one before the argument, or the one after it if it is the first
+    const start = index > 0 ? call.args[index - 1].end : arg.start
+    const end = index === 0 && call.args.length > 1 ? call.args[1].start : arg.end
+    const action = this.createAction(`Remove argument '${argName}'`, diagnostic)
+    action.edit?.delete(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)))
+    action.isPreferred = true
+    return [action]
+  }
+
+  /**
+   * Offers to add missing required arguments as named arguments, using the defaults from the docs.
+   * Arguments without a documented default are added as `na`.
+   * @param document - The document.
+   * @param diagnostic - The diagnostic reporting the call.
+   * @param callee - The name of the called function.
+   * @param names - The names of the missing arguments.
+   * @returns The action, or none if the call is not found.
+   */
+  private addArguments(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    callee: string,
+    names: string[],
+  ): vscode.CodeAction[] {
+    const call = this.callAt(document, diagnostic, (node) => PineDocumentSymbolProvider.calleeName(node) === callee)
+    if (!call) {
+      return []
+    }
+    const docArgs: any[] = this.functionDocs(document, callee)?.args ?? []
+    const added = names.map((name) => {
+      const value = docArgs.find((arg) => arg.name === name)?.default
+      return `${name}=${value !== undefined && value !== null && value !== '' ? value : 'na'}`
+    })
+    const text = `${call.args.length > 0 ? ', ' : ''}${added.join(', ')}`
+    const action = this.createAction(
+      `Add missing ${names.length === 1 ? 'argument' : 'arguments'}: ${added.join(', ')}`,
+      diagnostic,
+    )
+    action.edit?.insert(document.uri, document.positionAt(call.end - 1), text)
+    action.isPreferred = true
+    return [action]
+  }
+
+  /**
+   * Offers to set the script version to 6, replacing an existing `//@version` annotation or inserting one.
+   * @param document - The document.
+   * @param diagnostic - The version diagnostic.
+   * @returns The action.
+   */
+  private setVersion(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+    const text = document.getText()
+    const match = /\/\/@version=\d+/.exec(text)
+    const action = this.createAction(match ? 'Change to //@version=6' : 'Insert //@version=6', diagnostic)
+    if (match) {
+      const range = new vscode.Range(
+        document.positionAt(match.index),
+        document.positionAt(match.index + match[0].length),
+      )
+      action.edit?.replace(document.uri, range, '//@version=6')
+    } else {
+      action.edit?.insert(document.uri, new vscode.Position(0, 0), '//@version=6\n')
+    }
+    action.isPreferred = true
+    return action
+  }
+
+  /**
+   * Offers to convert a v3 or v4 script to v5 with PineConverter. The edits open in the refactor preview, which
+   * shows the diff before it is applied.
+   * @param document - The document.
+   * @param diagnostic - The version diagnostic.
+   * @param version - The version of the script.
+   * @returns The action.
+   */
+  private convertToV5(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    version: string,
+  ): vscode.CodeAction {
+    const action = this.createAction(`Convert v${version} script to v5`, diagnostic)
+    const metadata: vscode.WorkspaceEditEntryMetadata = { needsConfirmation: true, label: `Convert v${version} to v5` }
+    for (const edit of PineConverter.convert(document.getText())) {
+      const range = new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end))
+      action.edit?.replace(document.uri, range, edit.text, metadata)
+    }
+    action.isPreferred = true
+    return action
+  }
+
+  private createAction(title: string, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix)
+    action.diagnostics = [diagnostic]
+    action.edit = new vscode.WorkspaceEdit()
+    return action
+  }
+
+  /**
+   * Finds the innermost call around the start of a diagnostic that satisfies a condition.
+   * Calls on the diagnostic's line are tried when none encloses it.
+   * @param document - The document.
+   * @param diagnostic - The diagnostic.
+   * @param accept - The condition.
+   * @returns The call, or undefined if none satisfies the condition.
+   */
+  private callAt(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    accept: (call: PineCallExpression) => boolean,
+  ): PineCallExpression | undefined {
+    const { script } = Class.PineParser.parseScript(document.getText())
+    const offset = document.offsetAt(diagnostic.range.start)
+    const line = document.lineAt(diagnostic.range.start.line).range
+    const lineStart = document.offsetAt(line.start)
+    const lineEnd = document.offsetAt(line.end)
+    let enclosing: PineCallExpression | undefined
+    let onLine: PineCallExpression | undefined
+    PineAstWalker.walk(script, (node) => {
+      const call = node as PineCallExpression
+      if (call.kind !== 'CallExpression' || !accept(call)) {
+        return
+      }
+      if (call.start <= offset && offset <= call.end) {
+        if (!enclosing || call.end - call.start < enclosing.end - enclosing.start) {
+          enclosing = call
+        }
+      } else if (!onLine && call.start <= lineEnd && call.end >= lineStart) {
+        onLine = call
+      }
+    })
+    return enclosing ?? onLine
+  }
+
+  /**
+   * Looks up the documentation of a user function or a built-in function or method.
+   * @param document - The document, whose user functions take precedence.
+   * @param name - The function name.
+   * @returns The documentation with its `args`, or undefined if unknown.
+   */
+  private functionDocs(document: vscode.TextDocument, name: string): any | undefined {
+    const userFunction = Class.PineParser.extractFunctions(document.getText()).find(
+      (func: any) => func.originalName === name,
+    )
+    return userFunction ?? Class.PineDocsManager.getDocs('functions', 'methods').find((doc: any) => doc?.name === name)
+  }
+
+  /** The names an undeclared identifier could have meant: the script's symbols, built-in variables and constants. */
+  private identifierNames(document: vscode.TextDocument): string[] {
+    const analysis = Class.PineParser.analyzeScript(document.getText())
+    const builtIns = Class.PineDocsManager.getDocs('variables', 'constants').map((doc: any) => doc?.name)
+    return [...analysis.symbols.map((symbol) => symbol.name), ...builtIns]
+  }
+
+  /** The names an unknown function could have meant: the script's functions and the built-in functions. */
+  private functionNames(document: vscode.TextDocument): string[] {
+    const analysis = Class.PineParser.analyzeScript(document.getText())
+    const userFunctions = analysis.symbols.filter((symbol) => symbol.kind === 'function' || symbol.kind === 'method')
+    const builtIns = Class.PineDocsManager.getDocs('functions').map((doc: any) => doc?.name)
+    return [...userFunctions.map((symbol) => symbol.name), ...builtIns]
+  }
+
+  /**
+   * Picks the candidates that are close matches of a name, using the typo tolerance of the completions.
+   * @param name - The misspelled name.
+   * @param candidates - The names to pick from.
+   * @returns The close matches, closest first.
+   */
+  static closeMatches(name: string, candidates: Iterable<string>): string[] {
+    const service = Class.pineCompletionService
+    const matches: { candidate: string; distance: number }[] = []
+    for (const candidate of new Set(candidates)) {
+      if (
+        typeof candidate !== 'string' ||
+        candidate === name ||
+        Math.abs(candidate.length - name.length) > 2 ||
+        !(service?.checkTypoMatch(name, candidate) || service?.checkTypoMatch(candidate, name))
+      ) {
+        continue
+      }
+      matches.push({
+        candidate,
+        distance: PineCodeActionProvider.distance(name.toLowerCase(), candidate.toLowerCase()),
+      })
+    }
+    return matches
+      .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+      .slice(0, PineCodeActionProvider.maxSuggestions)
+      .map((match) => match.candidate)
+  }
+
+  /**
+   * Computes the Levenshtein distance of two strings, used to rank close matches.
+   * @returns The number of single character edits turning one string into the other.
+   */
+  private static distance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i]
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      }
+      previous = current
+    }
+    return previous[b.length]
+  }
+}
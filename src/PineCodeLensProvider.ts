@@ -0,0 +1,40 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineReferenceProvider } from './PineReferenceProvider'
+import { PineSymbolKind } from './PineScopeAnalyzer'
+
+/**
+ * The PineCodeLensProvider class shows a "N references" lens above each user function, method, type and enum.
+ * Clicking the lens opens the references peek view.
+ */
+export class PineCodeLensProvider implements vscode.CodeLensProvider {
+  /** The symbol kinds that get a references lens. */
+  static readonly kinds: PineSymbolKind[] = ['function', 'method', 'type', 'enum']
+
+  /**
+   * Provides the reference lenses of a document.
+   * @param document - The document.
+   * @returns The lenses, one per declaration.
+   */
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const analysis = Class.PineParser.analyzeScript(document.getText())
+    const lenses: vscode.CodeLens[] = []
+    for (const symbol of analysis.symbols) {
+      if (!PineCodeLensProvider.kinds.includes(symbol.kind)) {
+        continue
+      }
+      const position = document.positionAt(symbol.nameNode.start)
+      const range = new vscode.Range(position, document.positionAt(symbol.nameNode.end))
+      const locations = PineReferenceProvider.locationsOf(document, symbol, false)
+      const count = locations.length
+      lenses.push(
+        new vscode.CodeLens(range, {
+          title: `${count} ${count === 1 ? 'reference' : 'references'}`,
+          command: count ? 'editor.action.showReferences' : '',
+          arguments: count ? [document.uri, position, locations] : undefined,
+        }),
+      )
+    }
+    return lenses
+  }
+}
@@ -56,6 +56,8 @@ export class PineCompletionProvider implements vscode.CompletionItemProvider {
     try {
       // Initialize the completion items array
       this.completionItems = []
+      // Complete from the docs of the script's version
+      Class.PineDocsManager.useVersionOf(document.getText())
 
       const completionsFromState: Record<string, any>[] = this.checkCompletions()
 
@@ -130,6 +132,14 @@ export class PineCompletionProvider implements vscode.CompletionItemProvider {
       completionItem.documentation = new vscode.MarkdownString(`${formattedDesc} \`\`\`pine\n${modifiedSyntax}\n\`\`\``)
       const detail = kind ?? ''
       completionItem.detail = detail
+      // Strike through built-ins deprecated in the script's version and note those of only one version
+      const versionNote = Class.PineDocsManager.versionNote(doc.doc?.name ?? name)
+      if (versionNote) {
+        completionItem.detail = detail ? `${detail} (${versionNote.note})` : versionNote.note
+        if (versionNote.deprecated) {
+          completionItem.tags = [vscode.CompletionItemTag.Deprecated]
+        }
+      }
 
       // Use a snippet string for the insert text
       let insertText = label
@@ -199,6 +209,8 @@ export class PineCompletionProvider implements vscode.CompletionItemProvider {
         'User Function': vscode.CompletionItemKind.Function,
         'User Export Type': vscode.CompletionItemKind.Class,
         'User Type': vscode.CompletionItemKind.Class,
+        'User Export Enum': vscode.CompletionItemKind.Enum,
+        'User Enum': vscode.CompletionItemKind.Enum,
         Function: vscode.CompletionItemKind.Function,
         Method: vscode.CompletionItemKind.Method,
         Local: vscode.CompletionItemKind.Module,
@@ -470,6 +482,8 @@ export class PineInlineCompletionContext implements vscode.InlineCompletionItemP
     try {
       // Initialize the completion items array
       this.completionItems = []
+      // Complete from the docs of the script's version
+      Class.PineDocsManager.useVersionOf(document.getText())
 
       const completionsFromState: Record<string, any>[] = this.checkCompletions()
 
@@ -41,7 +41,7 @@ export class PineCompletionService {
    * @param targetName - The full name from the documentation.
    * @returns true if the targetName is a plausible match for the potentialMatch with minor typos.
    */
-  private checkTypoMatch(potentialMatch: string, targetName: string): boolean {
+  checkTypoMatch(potentialMatch: string, targetName: string): boolean {
     if (!potentialMatch) return true // Empty match matches everything (e.g., suggest all on empty line)
     if (!targetName) return false
 
@@ -0,0 +1,208 @@
+import { PineArgument, PineAstWalker, PineCallExpression, PineIdentifier, PineNode } from './PineAst'
+import { PineAstParser } from './PineAstParser'
+import { PineDocumentSymbolProvider } from './PineDocumentSymbolProvider'
+import { PineMigration, PineMigrationEdit } from './PineMigration'
+import { PineScopeAnalyzer } from './PineScopeAnalyzer'
+
+/**
+ * The PineConverter class rewrites v3 and v4 scripts as v5, locally instead of in TradingView's editor.
+ * It renames `study` to `indicator`, moves un-namespaced built-ins into `ta.`, `math.`, `request.`, `str.`,
+ * `ticker.` and `color.`, turns `input(type = …)` into `input.*()`, `transp` into `color.new()` and `iff()` into
+ * the `?:` operator. Names the script declares itself are left alone.
+ */
+export class PineConverter {
+  /** The built-in functions that moved into a namespace, by their v3/v4 name. */
+  static readonly functions: Record<string, string> = {
+    study: 'indicator',
+    color: 'color.new',
+    tickerid: 'ticker.new',
+    ...PineConverter.namespaced(
+      'ta',
+      `
+      alma atr barssince bb bbw cci change cmo cog correlation cross crossover crossunder cum dev dmi ema
+      falling highest highestbars hma kc kcw linreg lowest lowestbars macd median mfi mode mom
+      percentile_linear_interpolation percentile_nearest_rank percentrank pivothigh pivotlow range rising rma
+      roc rsi sar sma stdev stoch supertrend swma tr tsi valuewhen variance vwap vwma wma wpr
+    `,
+    ),
+    ...PineConverter.namespaced(
+      'math',
+      `
+      abs acos asin atan avg ceil cos exp floor log log10 max min pow random round round_to_mintick sign sin
+      sqrt sum tan todegrees toradians
+    `,
+    ),
+    ...PineConverter.namespaced('request', 'security financial quandl splits dividends earnings'),
+    ...PineConverter.namespaced('str', 'tostring tonumber'),
+    ...PineConverter.namespaced('ticker', 'heikinashi renko linebreak kagi pointfigure'),
+  }
+
+  /** The built-in variables that moved into a namespace, by their v3/v4 name. */
+  static readonly variables: Record<string, string> = {
+    tickerid: 'syminfo.tickerid',
+    period: 'timeframe.period',
+    interval: 'timeframe.multiplier',
+    isintraday: 'timeframe.isintraday',
+    isdaily: 'timeframe.isdaily',
+    isweekly: 'timeframe.isweekly',
+    ismonthly: 'timeframe.ismonthly',
+    ...PineConverter.namespaced('ta', 'accdist iii nvi obv pvi pvt tr vwap wad wvad'),
+    ...PineConverter.namespaced(
+      'color',
+      `
+      aqua black blue fuchsia gray green lime maroon navy olive orange purple red silver teal white yellow
+    `,
+    ),
+  }
+
+  /** The `input.*()` function of each v3 (`integer`) and v4 (`input.integer`) input type. */
+  static readonly inputTypes: Record<string, string> = {
+    integer: 'int',
+    float: 'float',
+    bool: 'bool',
+    string: 'string',
+    symbol: 'symbol',
+    resolution: 'timeframe',
+    session: 'session',
+    source: 'source',
+    color: 'color',
+    time: 'time',
+  }
+
+  /**
+   * Converts a v3 or v4 script to v5.
+   * Edits are made bottom-up, so an edit that rewrites a call includes the edits of its arguments.
+   * @param text - The script.
+   * @returns The edits, which do not overlap, in source order.
+   */
+  static convert(text: string): PineMigrationEdit[] {
+    const { script } = PineAstParser.parse(text)
+    const builtIns = new Set(PineScopeAnalyzer.analyze(script).unresolved.map((identifier) => identifier.start))
+    let edits: PineMigrationEdit[] = []
+    const rewrite = (start: number, end: number) => {
+      let result = ''
+      let at = start
+      for (const edit of edits.filter((e) => e.start >= start && e.end <= end).sort((a, b) => a.start - b.start)) {
+        result += text.slice(at, edit.start) + edit.text
+        at = edit.end
+      }
+      return result + text.slice(at, end)
+    }
+    const source = (node: PineNode) => rewrite(node.start, node.end)
+    const replace = (start: number, end: number, newText: string) => {
+      edits = edits.filter((edit) => edit.start < start || edit.end > end)
+      edits.push({ start, end, text: newText })
+    }
+
+    const nodes: { node: PineNode; parent?: PineNode }[] = []
+    PineAstWalker.walk(script, (node, parent) => {
+      nodes.push({ node, parent })
+    })
+    // Descendants come before their ancestors
+    for (const { node, parent } of nodes.reverse()) {
+      if (node.kind === 'Identifier' && builtIns.has(node.start)) {
+        const { name } = node as PineIdentifier
+        const isCallee = parent?.kind === 'CallExpression' && (parent as PineCallExpression).callee === node
+        const renamed = isCallee ? PineConverter.functions[name] : PineConverter.variables[name]
+        if (renamed) {
+          replace(node.start, node.end, renamed)
+        }
+      } else if (node.kind === 'CallExpression') {
+        const call = node as PineCallExpression
+        const name = PineDocumentSymbolProvider.calleeName(call)
+        if (name === 'iff' && call.args.length === 3 && call.args.every((arg) => !arg.name)) {
+          const [test, consequent, alternate] = call.args.map((arg) => source(arg.value))
+          replace(call.start, call.end, `(${test} ? ${consequent} : ${alternate})`)
+        } else if (name === 'input') {
+          PineConverter.convertInput(call, source, replace)
+        } else if (name && name in PineMigration.transpCalls) {
+          PineConverter.convertTransp(call, name, source, replace)
+        }
+      }
+    }
+
+    const version = /\/\/@version=[34]\b/.exec(text)
+    if (version) {
+      replace(version.index, version.index + version[0].length, '//@version=5')
+    }
+    return edits.sort((a, b) => a.start - b.start)
+  }
+
+  /**
+   * Applies edits to a script.
+   * @param text - The script.
+   * @param edits - Edits that do not overlap.
+   * @returns The edited script.
+   */
+  static apply(text: string, edits: PineMigrationEdit[]): string {
+    let result = text
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+      result = result.slice(0, edit.start) + edit.text + result.slice(edit.end)
+    }
+    return result
+  }
+
+  /** Turns `input(defval, title, type = input.integer)` into `input.int(defval, title)`. */
+  private static convertInput(call: PineCallExpression, source: Source, replace: Replace) {
+    const typeArg = call.args.find((arg) => arg.name?.name === 'type')
+    const typeName = typeArg && PineConverter.inputTypeOf(typeArg)
+    if (!typeArg || !typeName) {
+      return
+    }
+    const args = call.args.filter((arg) => arg !== typeArg).map((arg) => source(arg))
+    replace(call.start, call.end, `input.${typeName}(${args.join(', ')})`)
+  }
+
+  /** Moves the `transp` argument of a plot call into its color with `color.new()`. */
+  private static convertTransp(call: PineCallExpression, name: string, source: Source, replace: Replace) {
+    const index = call.args.findIndex((arg) => arg.name?.name === 'transp')
+    if (index < 0) {
+      return
+    }
+    const transp = source(call.args[index].value)
+    const color = PineMigration.argumentOf(call, 'color', PineMigration.transpCalls[name])
+    const removal = PineMigration.argumentRemoval(call, index)
+    const isColorNew = color?.value.kind === 'CallExpression' && source(color.value.callee) === 'color.new'
+    if (color && !isColorNew) {
+      replace(color.value.start, color.value.end, `color.new(${source(color.value)}, ${transp})`)
+    }
+    replace(removal.start, removal.end, '')
+  }
+
+  /**
+   * Finds the `input.*()` function of the `type` argument of an `input()` call.
+   * @param typeArg - The `type` argument, e.g. `input.integer` or, in v3, `integer`.
+   * @returns The function name without `input.`, or undefined if the type is not known.
+   */
+  private static inputTypeOf(typeArg: PineArgument): string | undefined {
+    const { value } = typeArg
+    if (value.kind === 'Identifier') {
+      return PineConverter.inputTypes[value.name]
+    }
+    if (value.kind === 'MemberExpression' && value.object.kind === 'Identifier' && value.object.name === 'input') {
+      return PineConverter.inputTypes[value.property.name]
+    }
+    return undefined
+  }
+
+  /**
+   * Maps names to the same names in a namespace.
+   * @param namespace - The namespace, e.g. `ta`.
+   * @param names - The names, separated by whitespace.
+   * @returns The namespaced name of each name.
+   */
+  private static namespaced(namespace: string, names: string): Record<string, string> {
+    return Object.fromEntries(
+      names
+        .trim()
+        .split(/\s+/)
+        .map((name) => [name, `${namespace}.${name}`]),
+    )
+  }
+}
+
+/** Returns the source of a node with the edits made inside it. */
+type Source = (node: PineNode) => string
+
+/** Replaces a range, dropping the edits made inside it. */
+type Replace = (start: number, end: number, text: string) => void
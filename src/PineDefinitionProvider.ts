@@ -0,0 +1,157 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineAstWalker, PineImportDeclaration, PineMemberExpression, PineNode, PineTypeReference } from './PineAst'
+import { PineAstParser } from './PineAstParser'
+import { PineLibraryContentProvider } from './PineLibraryContentProvider'
+import { PineScopeAnalysis, PineScopeAnalyzer } from './PineScopeAnalyzer'
+
+/**
+ * The PineDefinitionProvider class implements Go to Definition and Peek Definition.
+ * Names resolve to their declaration in the current script, and `alias.member` names of imported libraries
+ * resolve into the library source, shown as a read-only virtual document.
+ */
+export class PineDefinitionProvider implements vscode.DefinitionProvider {
+  /**
+   * Provides the declaration of the name at a position.
+   * @param document - The document in which the definition was requested.
+   * @param position - The position of the name.
+   * @returns The declaration, or undefined if the name is built-in or unknown.
+   */
+  provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.LocationLink[] | undefined {
+    const text = document.getText()
+    const offset = document.offsetAt(position)
+    const analysis = Class.PineParser.analyzeScript(text)
+    const { script } = Class.PineParser.parseScript(text)
+    const path = PineAstWalker.pathAt(script, offset)
+    const innermost = path[path.length - 1]
+    const parent = path[path.length - 2]
+
+    // A member of an imported library, e.g. `lib.func` or the type annotation `lib.Type`
+    const libraryMember = this.libraryMemberAt(analysis, innermost, parent, offset)
+    if (libraryMember) {
+      const origin = new vscode.Range(document.positionAt(libraryMember.start), document.positionAt(libraryMember.end))
+      return this.libraryDefinition(libraryMember.alias, libraryMember.name, origin)
+    }
+
+    const symbol = PineScopeAnalyzer.symbolAt(analysis, offset)
+    if (!symbol) {
+      const importDeclaration = path.find((node): node is PineImportDeclaration => node.kind === 'ImportDeclaration')
+      return importDeclaration
+        ? this.libraryDefinition(importDeclaration.alias.name, undefined, this.rangeOf(document, importDeclaration))
+        : undefined
+    }
+    const reference = PineScopeAnalyzer.referenceAt(analysis, offset)
+    const origin = reference
+      ? new vscode.Range(document.positionAt(reference.start), document.positionAt(reference.end))
+      : this.rangeOf(document, symbol.nameNode)
+    if (symbol.kind === 'import') {
+      return this.libraryDefinition(symbol.name, undefined, origin)
+    }
+    return [
+      {
+        originSelectionRange: origin,
+        targetUri: document.uri,
+        targetRange: this.rangeOf(document, symbol.node),
+        targetSelectionRange: this.rangeOf(document, symbol.nameNode),
+      },
+    ]
+  }
+
+  /**
+   * Detects a library member name at an offset.
+   * @returns The import alias, member name and the span of the member name, or undefined.
+   */
+  private libraryMemberAt(
+    analysis: PineScopeAnalysis,
+    innermost: PineNode,
+    parent: PineNode | undefined,
+    offset: number,
+  ): { alias: string; name: string; start: number; end: number } | undefined {
+    if (innermost.kind === 'Identifier' && parent?.kind === 'MemberExpression') {
+      const member = parent as PineMemberExpression
+      if (member.property !== innermost || member.object.kind !== 'Identifier') {
+        return undefined
+      }
+      const objectSymbol = PineScopeAnalyzer.referenceAt(analysis, member.object.start)?.symbol
+      return objectSymbol?.kind === 'import'
+        ? { alias: objectSymbol.name, name: member.property.name, start: innermost.start, end: innermost.end }
+        : undefined
+    }
+    if (innermost.kind === 'TypeReference') {
+      const { name } = innermost as PineTypeReference
+      const dot = name.indexOf('.')
+      const aliasSymbol = PineScopeAnalyzer.referenceAt(analysis, innermost.start)?.symbol
+      if (dot > 0 && offset > innermost.start + dot && aliasSymbol?.kind === 'import') {
+        const start = innermost.start + dot + 1
+        return { alias: aliasSymbol.name, name: name.slice(dot + 1), start, end: start + name.length - dot - 1 }
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Resolves a library, or one of its exported declarations, to its virtual document.
+   * @param alias - The import alias of the library.
+   * @param name - The exported name, or undefined for the top of the library.
+   * @param origin - The range of the name the definition was requested for.
+   * @returns The location in the library source, or undefined if the library has not been fetched.
+   */
+  private libraryDefinition(
+    alias: string,
+    name: string | undefined,
+    origin: vscode.Range,
+  ): vscode.LocationLink[] | undefined {
+    const lib = PineLibraryContentProvider.libraryFor(alias)
+    if (!lib) {
+      return undefined
+    }
+    const targetUri = PineLibraryContentProvider.uriFor(lib)
+    const top = new vscode.Range(0, 0, 0, 0)
+    if (!name) {
+      return [{ originSelectionRange: origin, targetUri, targetRange: top, targetSelectionRange: top }]
+    }
+    const { script, lineStarts } = PineAstParser.parse(lib.script)
+    const declaration = script.body.find(
+      (statement) =>
+        (statement.kind === 'FunctionDeclaration' ||
+          statement.kind === 'TypeDeclaration' ||
+          statement.kind === 'EnumDeclaration' ||
+          statement.kind === 'VariableDeclaration') &&
+        statement.name.name === name,
+    )
+    if (!declaration || !('name' in declaration)) {
+      return [{ originSelectionRange: origin, targetUri, targetRange: top, targetSelectionRange: top }]
+    }
+    const toRange = (node: PineNode) =>
+      new vscode.Range(
+        PineDefinitionProvider.positionIn(lineStarts, node.start),
+        PineDefinitionProvider.positionIn(lineStarts, node.end),
+      )
+    return [
+      {
+        originSelectionRange: origin,
+        targetUri,
+        targetRange: toRange(declaration),
+        targetSelectionRange: toRange(declaration.name),
+      },
+    ]
+  }
+
+  private rangeOf(document: vscode.TextDocument, node: PineNode): vscode.Range {
+    return new vscode.Range(document.positionAt(node.start), document.positionAt(node.end))
+  }
+
+  /**
+   * Converts an offset into a position using the line start offsets of the lexer.
+   * @param lineStarts - The offsets at which each line starts.
+   * @param offset - The offset.
+   * @returns The position.
+   */
+  static positionIn(lineStarts: number[], offset: number): vscode.Position {
+    let line = lineStarts.length - 1
+    while (line > 0 && lineStarts[line] > offset) {
+      line--
+    }
+    return new vscode.Position(line, offset - lineStarts[line])
+  }
+}
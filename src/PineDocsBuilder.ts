@@ -0,0 +1,561 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+/** An item of the reference manual, as read from its HTML or given by a JSON export. */
+export interface PineManualItem {
+  /** The anchor of the item, e.g. `fun_ta.sma`. Its prefix decides the section of the bundle. */
+  id: string
+  name: string
+  desc?: string
+  /** One line per overload. */
+  syntax?: string[]
+  args?: PineManualArgument[]
+  /** The type of a variable or constant, e.g. `series float`. */
+  type?: string
+  returns?: string
+  remarks?: string
+  /** Markdown links, e.g. `[ta.ema](#fun_ta.ema)`. */
+  seeAlso?: string[]
+  examples?: string
+  /** The fields of a built-in type. */
+  fields?: PineManualArgument[]
+  /** True, or the sentence of the manual, if the item is deprecated. */
+  deprecated?: boolean | string
+}
+
+/** An argument of a function, or a field of a type, in the reference manual. */
+export interface PineManualArgument {
+  name: string
+  /** The qualified type, e.g. `series int|float`. */
+  type?: string
+  desc?: string
+  default?: string | null
+  required?: boolean
+  possibleValues?: string[] | null
+}
+
+/** The signatures that differ between two bundles, keyed as `section:name`. */
+export interface PineDocsChanges {
+  added: string[]
+  removed: string[]
+  changed: { key: string; before: string; after: string }[]
+}
+
+/**
+ * The PineDocsBuilder class regenerates `pineDocs.json`, or a `pineDocs.v<version>.json` of PineDocsManager, from
+ * a locally saved copy of the Pine Script reference manual. The manual is read either as the saved HTML page, whose
+ * items are the elements with an `id` such as `fun_ta.sma` split into sections by their sub-headers, or as a JSON
+ * export: an array of PineManualItem. Argument values the manual does not list are kept from the previous bundle.
+ *
+ * Run it with `pnpm run build-pine-docs <manual.html|manual.json> [--version <n>] [--out <file>] [--previous <file>]`.
+ */
+export class PineDocsBuilder {
+  /** The bundle section of each item id prefix. */
+  static readonly sections: Record<string, string> = {
+    type: 'types',
+    method: 'methods',
+    kw: 'controls',
+    var: 'variables',
+    const: 'constants',
+    fun: 'functions',
+    op: 'operators',
+    an: 'annotations',
+  }
+
+  /** The section titles of the bundle, the operators have none. */
+  static readonly titles: Record<string, string | undefined> = {
+    types: 'Built-in Type',
+    methods: 'Built-in Method',
+    controls: 'Control-Flow Keyword',
+    variables: 'Built-in Variable',
+    constants: 'Built-in Constant',
+    functions: 'Built-in Function',
+    operators: undefined,
+    annotations: 'Built-in @Annotation',
+  }
+
+  /** The types whose functions taking an `id` first are also methods, e.g. `array.get(id, index)`. */
+  static readonly objectTypes = ['array', 'matrix', 'map', 'line', 'box', 'label', 'table', 'linefill', 'polyline']
+
+  /** The type qualifiers from the weakest to the strongest. */
+  static readonly qualifiers = ['const', 'input', 'simple', 'series']
+
+  /** The types whose values are expanded to every qualifier that converts to them. */
+  static readonly primitives = ['int', 'float', 'bool', 'color', 'string']
+
+  /**
+   * Builds the bundle from the arguments of the command line and writes it next to the shipped one.
+   * @param argv - The arguments, without `node` and the script.
+   */
+  static main(argv: string[]): void {
+    const options: Record<string, string> = {}
+    const files: string[] = []
+    for (let i = 0; i < argv.length; i++) {
+      if (argv[i].startsWith('--')) {
+        options[argv[i].slice(2)] = argv[++i]
+      } else {
+        files.push(argv[i])
+      }
+    }
+    if (files.length !== 1) {
+      console.error(
+        'Usage: pnpm run build-pine-docs <manual.html|manual.json> [--version <n>] [--out <file>] [--previous <file>]',
+      )
+      process.exitCode = 1
+      return
+    }
+    try {
+      const folder = path.join(__dirname, '..', 'Pine_Script_Documentation')
+      const out =
+        options.out ?? path.join(folder, options.version ? `pineDocs.v${options.version}.json` : 'pineDocs.json')
+      const previousFile = options.previous ?? (fs.existsSync(out) ? out : undefined)
+      const previous = previousFile ? JSON.parse(fs.readFileSync(previousFile, 'utf-8')) : undefined
+      const items = PineDocsBuilder.readManual(fs.readFileSync(files[0], 'utf-8'), files[0])
+      const bundle = PineDocsBuilder.build(items, previous)
+      fs.writeFileSync(out, JSON.stringify(bundle, null, 2) + '\n')
+      const counts = Object.entries(bundle).map(([section, groups]) => {
+        return `${groups.reduce((sum, group) => sum + group.docs.length, 0)} ${section}`
+      })
+      console.log(`Wrote ${out}: ${counts.join(', ')}`)
+      if (previous) {
+        console.log(PineDocsBuilder.report(PineDocsBuilder.diff(previous, bundle)))
+      }
+    } catch (error) {
+      console.error('Error building the docs bundle:', error instanceof Error ? error.message : error)
+      process.exitCode = 1
+    }
+  }
+
+  /**
+   * Reads the items of a saved reference manual.
+   * @param text - The content of the file.
+   * @param fileName - The file name, `.json` files are read as a JSON export.
+   * @returns The items in the order of the manual.
+   */
+  static readManual(text: string, fileName: string): PineManualItem[] {
+    if (!fileName.toLowerCase().endsWith('.json')) {
+      return PineDocsBuilder.parseHtml(text)
+    }
+    const json = JSON.parse(text)
+    const items: unknown = Array.isArray(json) ? json : json?.items
+    if (!Array.isArray(items)) {
+      throw new Error(`${fileName} is not an array of manual items`)
+    }
+    for (const item of items) {
+      if (typeof item?.id !== 'string' || typeof item?.name !== 'string') {
+        throw new Error(`${fileName} has an item without an id or name: ${JSON.stringify(item).slice(0, 80)}`)
+      }
+    }
+    return items as PineManualItem[]
+  }
+
+  /**
+   * Reads the items of the reference manual's HTML page.
+   * @param html - The saved page.
+   * @returns The items in the order of the page.
+   */
+  static parseHtml(html: string): PineManualItem[] {
+    const itemStart = /<(\w+)[^>]*\bid="((?:fun|method|var|const|type|kw|op|an)_[^"]+)"[^>]*>/g
+    const starts = [...html.matchAll(itemStart)]
+    return starts.map((start, i) => {
+      const itemHtml = html.slice(start.index, starts[i + 1]?.index ?? html.length)
+      return PineDocsBuilder.parseItem(PineDocsBuilder.decode(start[2]), itemHtml)
+    })
+  }
+
+  /**
+   * Reads one item of the manual, split into sections by its sub-headers (Syntax, Arguments, Returns, …).
+   * @param id - The anchor of the item.
+   * @param html - The HTML of the item.
+   * @returns The item.
+   */
+  private static parseItem(id: string, html: string): PineManualItem {
+    const subHeader = /<(\w+)[^>]*class="[^"]*__sub-header[^"]*"[^>]*>([\s\S]*?)<\/\1>/g
+    const headers = [...html.matchAll(subHeader)]
+    const intro = html.slice(0, headers[0]?.index ?? html.length)
+    const heading = /<h\d[^>]*>([\s\S]*?)<\/h\d>/.exec(intro)
+    const item: PineManualItem = {
+      id,
+      // Function headings read `ta.sma()`, the bundle names them `ta.sma`
+      name: heading ? PineDocsBuilder.toText(heading[1]).replace(/\(\)$/, '') : id.slice(id.indexOf('_') + 1),
+      desc: PineDocsBuilder.paragraphs(heading ? intro.replace(heading[0], '') : intro),
+    }
+    headers.forEach((header, i) => {
+      const body = html.slice((header.index ?? 0) + header[0].length, headers[i + 1]?.index ?? html.length)
+      const title = PineDocsBuilder.toText(header[2]).toLowerCase()
+      const text = PineDocsBuilder.toText(body)
+      if (title.startsWith('syntax')) {
+        item.syntax = PineDocsBuilder.preBlocks(body).flatMap((block) =>
+          block.split('\n').filter((line) => line.trim()),
+        )
+      } else if (title.startsWith('argument') || title.startsWith('parameter')) {
+        item.args = PineDocsBuilder.parseArguments(text)
+      } else if (title.startsWith('field')) {
+        item.fields = PineDocsBuilder.parseArguments(text)
+      } else if (title.startsWith('example')) {
+        item.examples = PineDocsBuilder.preBlocks(body).join('\n\n')
+      } else if (title.startsWith('see also')) {
+        item.seeAlso = text.match(/\[[^\]]+\]\([^)]+\)/g) ?? []
+      } else if (title === 'type') {
+        item.type = text
+      } else if (title === 'returns') {
+        item.returns = PineDocsBuilder.paragraphs(body)
+      } else if (title === 'remarks') {
+        item.remarks = PineDocsBuilder.paragraphs(body)
+      }
+    })
+    const deprecation = /[^.\n]*\bdeprecated\b[^.\n]*\.?/i.exec(item.desc ?? '')
+    if (deprecation) {
+      item.deprecated = deprecation[0].trim()
+    }
+    return item
+  }
+
+  /**
+   * Reads arguments or fields written as `name (type) description`, a description may continue on the next lines.
+   * @param text - The text of the section.
+   * @returns The arguments.
+   */
+  private static parseArguments(text: string): PineManualArgument[] {
+    const args: PineManualArgument[] = []
+    for (const line of text.split('\n')) {
+      const match = /^`?([A-Za-z_][\w.]*)`?\s*\(([^)]*)\)\s*(.*)$/.exec(line.trim())
+      if (match) {
+        args.push({ name: match[1], type: match[2].replace(/\//g, '|').trim(), desc: match[3].trim() })
+      } else if (args.length && line.trim()) {
+        const last = args[args.length - 1]
+        last.desc = last.desc ? `${last.desc}  \n${line.trim()}` : line.trim()
+      }
+    }
+    for (const arg of args) {
+      const defaultValue = /\bdefault(?: value)? is:?\s+`?([^`\s]+?)`?\.?(?=\s|$)/i.exec(arg.desc ?? '')
+      arg.default = defaultValue ? defaultValue[1] : null
+      arg.required = !defaultValue && !/\boptional\b/i.test(arg.desc ?? '')
+      const possible = /possible values(?: are)?:?([^\n]*)/i.exec(arg.desc ?? '')
+      const values = possible?.[1].match(/\[([^\]]+)\]\(#[^)]+\)/g)?.map((link) => link.slice(1, link.indexOf(']')))
+      arg.possibleValues = values?.length ? values : null
+    }
+    return args
+  }
+
+  /**
+   * Builds the bundle PineDocsManager reads from the items of the manual.
+   * @param items - The items.
+   * @param previous - The previous bundle, whose possible argument values are kept where the manual lists none.
+   * @returns The bundle, with one group per section and one group of fields per built-in type.
+   */
+  static build(
+    items: PineManualItem[],
+    previous?: Record<string, any>,
+  ): Record<string, { title?: string; docs: any[] }[]> {
+    const docs: Record<string, any[]> = Object.fromEntries(Object.keys(PineDocsBuilder.titles).map((s) => [s, []]))
+    const fieldGroups: { title: string; docs: any[] }[] = []
+    const derivedMethods: Record<string, any>[] = []
+    const previousArgs = PineDocsBuilder.previousArguments(previous)
+    for (const item of items) {
+      const section = PineDocsBuilder.sections[item.id.slice(0, item.id.indexOf('_'))]
+      if (!section) {
+        continue
+      }
+      if (section === 'methods') {
+        docs.methods.push(PineDocsBuilder.methodFor(PineDocsBuilder.entryFor('functions', item, previousArgs), item))
+        continue
+      }
+      const entry = PineDocsBuilder.entryFor(section, item, previousArgs)
+      docs[section].push(entry)
+      if (section === 'functions' && PineDocsBuilder.isMethod(item)) {
+        derivedMethods.push(PineDocsBuilder.methodFor(entry, item))
+      }
+      if (section === 'types' && item.fields?.length) {
+        const parent = item.name
+        fieldGroups.push({
+          title: `Built-in ${parent} fields`,
+          docs: item.fields.map((field) => ({ name: field.name, desc: field.desc ?? '', type: field.type, parent })),
+        })
+      }
+    }
+    // Methods the manual lists as items of their own take the place of those derived from functions
+    const listed = new Set(docs.methods.map((method) => method.name))
+    docs.methods.push(...derivedMethods.filter((method) => !listed.has(method.name)))
+    const bundle: Record<string, { title?: string; docs: any[] }[]> = {}
+    for (const [section, title] of Object.entries(PineDocsBuilder.titles)) {
+      bundle[section] = [title ? { title, docs: docs[section] } : { docs: docs[section] }]
+    }
+    bundle.fields = fieldGroups.length ? fieldGroups : [{ title: 'Built-in fields', docs: [] }]
+    return bundle
+  }
+
+  /**
+   * Creates the bundle entry of an item.
+   * @param section - The section of the bundle.
+   * @param item - The item.
+   * @param previousArgs - The arguments of the previous bundle, keyed as `function:argument`.
+   * @returns The entry.
+   */
+  private static entryFor(
+    section: string,
+    item: PineManualItem,
+    previousArgs: Map<string, PineManualArgument>,
+  ): Record<string, any> {
+    const entry: Record<string, any> = {
+      name: section === 'annotations' && !item.name.startsWith('//') ? `// ${item.name}` : item.name,
+      kind: PineDocsBuilder.kindOf(section, item.name),
+      desc: item.desc ?? '',
+    }
+    if (item.args?.length || section === 'functions') {
+      entry.args = (item.args ?? []).map((arg) => {
+        const type = arg.type ?? ''
+        const possibleValues =
+          arg.possibleValues ??
+          previousArgs.get(`${item.name}:${arg.name}`)?.possibleValues ??
+          PineDocsBuilder.valuesOf(type)
+        return {
+          name: arg.name,
+          desc: arg.desc ?? '',
+          default: arg.default ?? null,
+          required: arg.required ?? true,
+          displayType: type,
+          allowedTypeIDs: PineDocsBuilder.typeIDsOf(type),
+          possibleValues,
+        }
+      })
+    }
+    if (section === 'types' && !item.syntax?.length) {
+      entry.syntax = item.name
+    }
+    if (item.syntax?.length) {
+      entry.syntax = item.syntax.join('\n')
+      const returned = /→\s*(.+)$/.exec(item.syntax[0])?.[1].trim()
+      if (returned && !/\btype\b/.test(returned)) {
+        entry.returnedType = returned.replace(/^(const|input|simple|series)\s+/, '')
+        entry.returnedTypes = PineDocsBuilder.typeIDsOf(returned)
+      }
+    }
+    if (item.type) {
+      entry.type = item.type.replace(/^(const|input|simple|series)\s+/, '')
+      entry.displayType = item.type
+    }
+    const color = section === 'constants' && /#[0-9A-Fa-f]{6}\b/.exec(item.desc ?? '')
+    if (color) {
+      entry.color = color[0]
+    }
+    for (const key of ['returns', 'remarks', 'seeAlso', 'examples', 'deprecated'] as const) {
+      const value = item[key]
+      if (value !== undefined && value !== '' && !(Array.isArray(value) && !value.length)) {
+        entry[key] = value
+      }
+    }
+    if (item.fields?.length) {
+      entry.fields = item.fields.map((field) => ({ name: field.name, desc: field.desc ?? '', type: field.type }))
+    }
+    return entry
+  }
+
+  /**
+   * Creates the method entry of a function that takes its object first, e.g. `array.get(id, index)`.
+   * @param entry - The function entry.
+   * @param item - The function item.
+   * @returns The method entry, without the object argument.
+   */
+  private static methodFor(entry: Record<string, any>, item: PineManualItem): Record<string, any> {
+    const thisType = item.name.slice(0, item.name.lastIndexOf('.'))
+    const methodName = item.name.slice(item.name.lastIndexOf('.') + 1)
+    return {
+      name: entry.name,
+      isMethod: true,
+      ...entry,
+      kind: 'Built-in Method',
+      args: entry.args.slice(1),
+      thisType: [thisType],
+      methodName,
+      originalName: item.name,
+      methodSyntax: (entry.syntax as string)
+        .split('\n')
+        .map((line) => line.replace(/\(\w+(?:,\s*)?/, '('))
+        .join('\n'),
+    }
+  }
+
+  /** Checks whether a function is also a method of its namespace's type. */
+  private static isMethod(item: PineManualItem): boolean {
+    const namespace = item.name.slice(0, Math.max(item.name.lastIndexOf('.'), 0))
+    return PineDocsBuilder.objectTypes.includes(namespace) && item.args?.[0]?.name === 'id'
+  }
+
+  /** Gets the `kind` of an entry. */
+  private static kindOf(section: string, name: string): string {
+    switch (section) {
+      case 'types':
+        return 'Type Keyword'
+      case 'controls':
+        return ['true', 'false'].includes(name) ? 'Boolean Literal' : 'Control Flow Keyword'
+      case 'constants':
+        return name.startsWith('color.') ? 'Color Constant' : 'Built-in Constant'
+      case 'operators':
+        return 'Language Operator'
+      default:
+        return PineDocsBuilder.titles[section] ?? ''
+    }
+  }
+
+  /**
+   * Lists the qualified types a value can have to be accepted as a type, e.g. `input int` for `simple int`.
+   * @param type - The type, e.g. `series int|float`.
+   * @returns The types, the type itself if it is not a qualified primitive.
+   */
+  static typeIDsOf(type: string): string[] {
+    const match = /^(const|input|simple|series)\s+(.+)$/.exec(type.trim())
+    const baseTypes = match?.[2].split('|') ?? []
+    if (!match || !baseTypes.every((base) => PineDocsBuilder.primitives.includes(base))) {
+      return type ? [type] : []
+    }
+    const qualifiers = PineDocsBuilder.qualifiers.slice(0, PineDocsBuilder.qualifiers.indexOf(match[1]) + 1).reverse()
+    return baseTypes.flatMap((base) => qualifiers.map((qualifier) => `${qualifier} ${base}`))
+  }
+
+  /** Gets the possible values every argument of a type has, e.g. `true` and `false` for bools. */
+  private static valuesOf(type: string): string[] | null {
+    const base = type.replace(/^(const|input|simple|series)\s+/, '')
+    if (base === 'bool') {
+      return ['true', 'false']
+    }
+    return base === 'color' ? ['colors'] : null
+  }
+
+  /** Collects the arguments of the functions of a bundle, keyed as `function:argument`. */
+  private static previousArguments(previous?: Record<string, any>): Map<string, PineManualArgument> {
+    const args: Map<string, PineManualArgument> = new Map()
+    for (const group of previous?.functions ?? []) {
+      for (const doc of group?.docs ?? []) {
+        for (const arg of doc?.args ?? []) {
+          args.set(`${doc.name}:${arg.name}`, arg)
+        }
+      }
+    }
+    return args
+  }
+
+  /**
+   * Compares the signatures of two bundles: the syntax and argument types of functions, methods and keywords and the
+   * types of variables, constants and fields.
+   * @param before - The previous bundle.
+   * @param after - The new bundle.
+   * @returns The added, removed and changed signatures.
+   */
+  static diff(before: Record<string, any>, after: Record<string, any>): PineDocsChanges {
+    const old = PineDocsBuilder.signaturesOf(before)
+    const current = PineDocsBuilder.signaturesOf(after)
+    const changes: PineDocsChanges = { added: [], removed: [], changed: [] }
+    for (const [key, signature] of current) {
+      const previous = old.get(key)
+      if (previous === undefined) {
+        changes.added.push(key)
+      } else if (previous !== signature) {
+        changes.changed.push({ key, before: previous, after: signature })
+      }
+    }
+    changes.removed = [...old.keys()].filter((key) => !current.has(key))
+    return changes
+  }
+
+  /** Gets the signature of every entry of a bundle, keyed as `section:name`. */
+  private static signaturesOf(bundle: Record<string, any>): Map<string, string> {
+    const signatures: Map<string, string> = new Map()
+    for (const [section, groups] of Object.entries(bundle)) {
+      for (const group of Array.isArray(groups) ? groups : []) {
+        for (const doc of group?.docs ?? []) {
+          const key = `${section}:${doc.parent ? `${doc.parent}.` : ''}${doc.name}`
+          const args = (doc.args ?? []).map((arg: any) => {
+            const defaultValue = arg.default === null || arg.default === undefined ? '' : ` = ${arg.default}`
+            return `${arg.name}: ${arg.displayType ?? ''}${defaultValue}`
+          })
+          const signature = [doc.syntax ?? doc.displayType ?? doc.type ?? '', ...args].join('\n')
+          // Overloaded operators, e.g. unary and binary `-`, share a name
+          const previous = signatures.get(key)
+          signatures.set(key, previous === undefined ? signature : [previous, signature].sort().join('\n'))
+        }
+      }
+    }
+    return signatures
+  }
+
+  /**
+   * Formats the changes between two bundles for the console.
+   * @param changes - The changes.
+   * @returns The report.
+   */
+  static report(changes: PineDocsChanges): string {
+    const lines = [`Added (${changes.added.length})`, ...changes.added.map((key) => `  + ${key}`)]
+    lines.push(`Removed (${changes.removed.length})`, ...changes.removed.map((key) => `  - ${key}`))
+    lines.push(`Changed (${changes.changed.length})`)
+    for (const { key, before, after } of changes.changed) {
+      const was = before.split('\n')
+      const now = after.split('\n')
+      lines.push(`  ~ ${key}`)
+      lines.push(...was.filter((line) => !now.includes(line)).map((line) => `      - ${line}`))
+      lines.push(...now.filter((line) => !was.includes(line)).map((line) => `      + ${line}`))
+    }
+    return lines.join('\n')
+  }
+
+  /** Gets the decoded text of the `<pre>` blocks of some HTML, keeping their line breaks. */
+  private static preBlocks(html: string): string[] {
+    const blocks = [...html.matchAll(/<pre[^>]*>([\s\S]*?)<\/pre>/g)].map((match) => {
+      return PineDocsBuilder.decode(match[1].replace(/<br\s*\/?>/g, '\n').replace(/<[^>]+>/g, '')).trim()
+    })
+    return blocks.length ? blocks : [PineDocsBuilder.toText(html)]
+  }
+
+  /**
+   * Converts HTML to the markdown of the bundle: links, code and bold are kept, paragraphs become lines.
+   * @param html - The HTML.
+   * @returns The text.
+   */
+  static toText(html: string): string {
+    const text = html
+      .replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/g, (_, href, label) => {
+        return `[${label.replace(/<[^>]+>/g, '').trim()}](${href})`
+      })
+      .replace(/<\/?code[^>]*>/g, '`')
+      .replace(/<\/?(?:b|strong)\b[^>]*>/g, '**')
+      .replace(/<br\s*\/?>|<\/(?:p|div|li|pre|h\d)>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+    return PineDocsBuilder.decode(text)
+      .split('\n')
+      .map((line) => line.replace(/\s+/g, ' ').trim())
+      .filter((line) => line)
+      .join('\n')
+  }
+
+  /** Converts HTML to markdown whose paragraphs end with a markdown line break, as in the bundle. */
+  private static paragraphs(html: string): string {
+    return PineDocsBuilder.toText(html).replace(/\n/g, '  \n')
+  }
+
+  /** Decodes the HTML entities of a text. */
+  private static decode(text: string): string {
+    const named: Record<string, string> = {
+      amp: '&',
+      lt: '<',
+      gt: '>',
+      quot: '"',
+      apos: "'",
+      nbsp: ' ',
+      rarr: '→',
+      hellip: '…',
+      ndash: '–',
+      mdash: '—',
+    }
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith('#')) {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        return String.fromCodePoint(value)
+      }
+      return named[code.toLowerCase()] ?? entity
+    })
+  }
+}
+
+if (require.main === module) {
+  PineDocsBuilder.main(process.argv.slice(2))
+}
@@ -2,6 +2,14 @@
 
 import { path, fs } from './index'
 
+/** How a built-in differs between the Pine Script versions. */
+export interface PineDocsVersionNote {
+  /** Whether completions show the built-in struck through. */
+  deprecated: boolean
+  /** The note shown in completions and hovers, e.g. 'Removed in v6'. */
+  note: string
+}
+
 /**
  * PineDocsManager handles the management of Pine documentation.
  * It loads, retrieves, and sets various types of documentation-related data.
@@ -43,15 +51,28 @@ export class PineDocsManager {
   annotationsDocs: Record<string, any>[]
   cleaned = false
 
+  /** The Pine Script versions that can have their own documentation bundle. */
+  static readonly versions = ['5', '6']
+  /** The bundle of the versions without their own `pineDocs.v<version>.json`. */
+  static readonly defaultBundle = 'pineDocs.json'
+  /** The folder of the documentation bundles. */
+  static folder = path.join(__dirname, '..', 'Pine_Script_Documentation')
+  /** The loaded bundles, keyed by path, shared by all instances. */
+  private static bundles: Map<string, Record<string, any>> = new Map()
+  /** The names documented in each loaded bundle. */
+  private static bundleNames: Map<Record<string, any>, Set<string>> = new Map()
+
+  /** The Pine Script version whose bundle is loaded. */
+  version = PineDocsManager.versions[PineDocsManager.versions.length - 1]
+  /** The version notes of the loaded bundle, built on first use. */
+  private versionNotes: Map<string, PineDocsVersionNote> | undefined
+
   /**
    * Constructor for PineDocsManager class. It initializes class properties and loads
-   * documentation from 'pineDocs.json' into the Docs property.
+   * the documentation bundle of the latest version into the Docs property.
    */
   constructor() {
-    // Reading the pineDocs.json file to initialize the documentation object.
-    this.Docs = JSON.parse(
-      fs.readFileSync(path.join(__dirname, '..', 'Pine_Script_Documentation', 'pineDocs.json'), 'utf-8'),
-    )
+    this.Docs = PineDocsManager.bundleFor(this.version)
     this.UDTDocs = []
     this.importsDocs = []
     this.fields2Docs = []
@@ -59,6 +80,21 @@ export class PineDocsManager {
     this.variables2Docs = []
     this.functions2Docs = []
     this.completionFunctionsDocs = []
+    this.typesDocs = []
+    this.fieldsDocs = []
+    this.methodsDocs = []
+    this.controlsDocs = []
+    this.variablesDocs = []
+    this.constantsDocs = []
+    this.functionsDocs = []
+    this.annotationsDocs = []
+    this.loadBuiltInDocs()
+  }
+
+  /**
+   * Sets the built-in docs from the loaded bundle.
+   */
+  private loadBuiltInDocs() {
     this.typesDocs = this.Docs.types[0].docs
     this.fieldsDocs = this.Docs.fields[0].docs
     this.methodsDocs = this.Docs.methods[0].docs
@@ -69,6 +105,119 @@ export class PineDocsManager {
     this.annotationsDocs = this.Docs.annotations[0].docs
   }
 
+  /**
+   * Switches to the documentation bundle of a Pine Script version. The docs parsed from the script are kept.
+   * @param version - The version, e.g. '6'. Unknown versions keep the current bundle.
+   */
+  useVersion(version: string | null | undefined) {
+    if (!version || version === this.version || !PineDocsManager.versions.includes(version)) {
+      return
+    }
+    this.version = version
+    this.versionNotes = undefined
+    const docs = PineDocsManager.bundleFor(version)
+    if (docs !== this.Docs) {
+      this.Docs = docs
+      this.loadBuiltInDocs()
+    }
+  }
+
+  /**
+   * Switches to the documentation bundle of the `//@version` of a script.
+   * @param script - The script text.
+   */
+  useVersionOf(script: string) {
+    this.useVersion(/\/\/@version=(\d+)/.exec(script)?.[1])
+  }
+
+  /**
+   * Gets the note on a built-in that is deprecated in the loaded version, or exists in only one of the versions
+   * with a bundle of their own.
+   * @param name - The name of the built-in, e.g. 'ta.sma'.
+   * @returns The note, or undefined if the built-in is the same in every version.
+   */
+  versionNote(name: string): PineDocsVersionNote | undefined {
+    if (!this.versionNotes) {
+      this.versionNotes = this.buildVersionNotes()
+    }
+    return this.versionNotes.get(name)
+  }
+
+  /**
+   * Builds the version notes of the loaded bundle from its `deprecated` entries and the bundles of the other
+   * versions.
+   * @returns The notes, keyed by name.
+   */
+  private buildVersionNotes(): Map<string, PineDocsVersionNote> {
+    const notes: Map<string, PineDocsVersionNote> = new Map()
+    const others = PineDocsManager.versions
+      .filter((version) => version !== this.version)
+      .map((version) => ({ version, docs: PineDocsManager.bundleFor(version) }))
+      .filter(({ docs }) => docs !== this.Docs)
+    for (const doc of PineDocsManager.docsOf(this.Docs)) {
+      if (doc.deprecated) {
+        const reason = typeof doc.deprecated === 'string' ? `: ${doc.deprecated}` : ''
+        notes.set(doc.name, { deprecated: true, note: `Deprecated in v${this.version}${reason}` })
+        continue
+      }
+      for (const { version, docs } of others) {
+        if (PineDocsManager.namesOf(docs).has(doc.name)) {
+          continue
+        }
+        notes.set(
+          doc.name,
+          Number(version) > Number(this.version)
+            ? { deprecated: true, note: `Removed in v${version}` }
+            : { deprecated: false, note: `New in v${this.version}` },
+        )
+        break
+      }
+    }
+    return notes
+  }
+
+  /**
+   * Loads the documentation bundle of a version, `pineDocs.v<version>.json` if it exists and the default
+   * bundle otherwise.
+   * @param version - The version.
+   * @returns The bundle.
+   */
+  static bundleFor(version: string): Record<string, any> {
+    const versioned = path.join(PineDocsManager.folder, `pineDocs.v${version}.json`)
+    const file = fs.existsSync(versioned) ? versioned : path.join(PineDocsManager.folder, PineDocsManager.defaultBundle)
+    let bundle = PineDocsManager.bundles.get(file)
+    if (!bundle) {
+      bundle = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, any>
+      PineDocsManager.bundles.set(file, bundle)
+    }
+    return bundle
+  }
+
+  /**
+   * Lists the entries of every section of a bundle.
+   * @param bundle - The bundle.
+   * @returns The entries.
+   */
+  static docsOf(bundle: Record<string, any>): Record<string, any>[] {
+    return Object.values(bundle).flatMap((sections: any) =>
+      Array.isArray(sections) ? sections.flatMap((section: any) => section?.docs ?? []) : [],
+    )
+  }
+
+  /**
+   * Gets the names documented in a bundle.
+   * @param bundle - The bundle.
+   * @returns The names.
+   */
+  private static namesOf(bundle: Record<string, any>): Set<string> {
+    let names = PineDocsManager.bundleNames.get(bundle)
+    if (!names) {
+      names = new Set(PineDocsManager.docsOf(bundle).map((doc) => doc?.name))
+      PineDocsManager.bundleNames.set(bundle, names)
+    }
+    return names
+  }
+
   /**
    * Retrieves the types documentation.
    * @returns The types documentation.
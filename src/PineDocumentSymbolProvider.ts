@@ -0,0 +1,197 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineAstWalker, PineCallExpression, PineExpression, PineNode, PineStatement } from './PineAst'
+
+/**
+ * The PineDocumentSymbolProvider class feeds the Outline view and breadcrumbs.
+ * It lists the declaration statement, inputs, functions, methods, types, enums and top-level `var`/`varip` variables.
+ */
+export class PineDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  /** The calls that declare the script type. */
+  static readonly declarationCalls: string[] = ['indicator', 'strategy', 'library']
+
+  /**
+   * Provides the symbols of a document.
+   * @param document - The document to list the symbols of.
+   * @returns The top-level symbols, with fields and enum members nested in their declarations.
+   */
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const { script } = Class.PineParser.parseScript(document.getText())
+    const symbols: vscode.DocumentSymbol[] = []
+    for (const statement of script.body) {
+      const symbol = this.symbolFor(document, statement)
+      if (symbol) {
+        symbols.push(symbol)
+      }
+    }
+    return symbols
+  }
+
+  /**
+   * Builds the symbol of a top-level statement.
+   * @param document - The document the statement belongs to.
+   * @param statement - The statement.
+   * @returns The symbol, or undefined if the statement does not declare anything worth listing.
+   */
+  private symbolFor(document: vscode.TextDocument, statement: PineStatement): vscode.DocumentSymbol | undefined {
+    switch (statement.kind) {
+      case 'ExpressionStatement': {
+        const call = statement.expression
+        const callee = call.kind === 'CallExpression' ? PineDocumentSymbolProvider.calleeName(call) : undefined
+        if (
+          call.kind !== 'CallExpression' ||
+          !callee ||
+          !PineDocumentSymbolProvider.declarationCalls.includes(callee)
+        ) {
+          return undefined
+        }
+        const title = PineDocumentSymbolProvider.titleOf(call)
+        return this.createSymbol(document, title ?? callee, callee, vscode.SymbolKind.Module, statement, call.callee)
+      }
+      case 'FunctionDeclaration': {
+        const params = statement.params.map((param) => param.name.name).join(', ')
+        const kind = statement.isMethod ? vscode.SymbolKind.Method : vscode.SymbolKind.Function
+        const detail = `${statement.isExport ? 'export ' : ''}(${params})`
+        return this.createSymbol(document, statement.name.name, detail, kind, statement, statement.name)
+      }
+      case 'TypeDeclaration': {
+        const detail = statement.isExport ? 'export type' : 'type'
+        const symbol = this.createSymbol(
+          document,
+          statement.name.name,
+          detail,
+          vscode.SymbolKind.Struct,
+          statement,
+          statement.name,
+        )
+        symbol.children = statement.fields.map((field) =>
+          this.createSymbol(
+            document,
+            field.name.name,
+            PineAstWalker.typeToString(field.typeAnnotation),
+            vscode.SymbolKind.Field,
+            field,
+            field.name,
+          ),
+        )
+        return symbol
+      }
+      case 'EnumDeclaration': {
+        const detail = statement.isExport ? 'export enum' : 'enum'
+        const symbol = this.createSymbol(
+          document,
+          statement.name.name,
+          detail,
+          vscode.SymbolKind.Enum,
+          statement,
+          statement.name,
+        )
+        symbol.children = statement.members.map((member) =>
+          this.createSymbol(
+            document,
+            member.name.name,
+            member.title?.raw.slice(1, -1) ?? '',
+            vscode.SymbolKind.EnumMember,
+            member,
+            member.name,
+          ),
+        )
+        return symbol
+      }
+      case 'VariableDeclaration': {
+        const input = PineDocumentSymbolProvider.inputCall(statement.init)
+        if (input) {
+          return this.createSymbol(
+            document,
+            statement.name.name,
+            input,
+            vscode.SymbolKind.Property,
+            statement,
+            statement.name,
+          )
+        }
+        if (!statement.mode) {
+          return undefined
+        }
+        const type = statement.typeAnnotation ? ` ${PineAstWalker.typeToString(statement.typeAnnotation)}` : ''
+        return this.createSymbol(
+          document,
+          statement.name.name,
+          `${statement.mode}${type}`,
+          vscode.SymbolKind.Variable,
+          statement,
+          statement.name,
+        )
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Creates a symbol spanning a node, selecting its name.
+   * @param document - The document the node belongs to.
+   * @param name - The symbol name.
+   * @param detail - The text shown next to the name.
+   * @param kind - The symbol kind.
+   * @param node - The node the symbol spans.
+   * @param nameNode - The node of the name, used as the selection range.
+   * @returns The symbol.
+   */
+  private createSymbol(
+    document: vscode.TextDocument,
+    name: string,
+    detail: string,
+    kind: vscode.SymbolKind,
+    node: PineNode,
+    nameNode: PineNode,
+  ): vscode.DocumentSymbol {
+    const range = new vscode.Range(document.positionAt(node.start), document.positionAt(node.end))
+    const selectionRange = new vscode.Range(document.positionAt(nameNode.start), document.positionAt(nameNode.end))
+    return new vscode.DocumentSymbol(name, detail, kind, range, selectionRange)
+  }
+
+  /**
+   * Returns the dotted name of a call's callee, e.g. `input.int`.
+   * @param call - The call.
+   * @returns The name, or undefined if the callee is not a plain or dotted name.
+   */
+  static calleeName(call: PineCallExpression): string | undefined {
+    const parts: string[] = []
+    let callee: PineExpression = call.callee
+    while (callee.kind === 'MemberExpression') {
+      parts.unshift(callee.property.name)
+      callee = callee.object
+    }
+    if (callee.kind !== 'Identifier') {
+      return undefined
+    }
+    parts.unshift(callee.name)
+    return parts.join('.')
+  }
+
+  /**
+   * Returns the name of the `input()` or `input.*()` call a variable is initialized with.
+   * @param init - The initializer of the variable.
+   * @returns The input function name, or undefined if the initializer is not an input call.
+   */
+  private static inputCall(init: PineExpression): string | undefined {
+    if (init.kind !== 'CallExpression') {
+      return undefined
+    }
+    const name = PineDocumentSymbolProvider.calleeName(init)
+    return name === 'input' || name?.startsWith('input.') ? name : undefined
+  }
+
+  /**
+   * Returns the title passed to a declaration call, from its first positional or its `title` argument.
+   * @param call - The declaration call.
+   * @returns The title without quotes, or undefined if it is not a string literal.
+   */
+  static titleOf(call: PineCallExpression): string | undefined {
+    const arg = call.args.find((a) => a.name?.name === 'title') ?? call.args.find((a) => !a.name)
+    if (arg?.value.kind !== 'Literal' || arg.value.literalType !== 'string') {
+      return undefined
+    }
+    return arg.value.raw.slice(1, -1)
+  }
+}
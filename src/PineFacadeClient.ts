@@ -0,0 +1,233 @@
+import { HttpProxyAgent } from 'http-proxy-agent'
+import { HttpsProxyAgent } from 'https-proxy-agent'
+
+/** The connection settings of a PineFacadeClient. */
+export interface PineFacadeClientOptions {
+  /** The base URL of pine-facade, e.g. a local mock or a corporate relay. */
+  baseUrl?: string
+  /** The URL of the HTTP(S) proxy to connect through. */
+  proxy?: string
+  /** The time in milliseconds after which a request is aborted. */
+  timeout?: number
+  /** How many times a request answered with 429 or a 5xx status is retried. */
+  retries?: number
+  /** Sends the requests, over the network by default; see PineFacadeFixtures for recording and replaying them. */
+  transport?: PineFacadeTransport
+}
+
+/** A request handed to a transport. */
+export interface PineFacadeTransportRequest {
+  method: string
+  url: string
+  /** The URL relative to the base URL of the client, which is the same for every pine-facade host. */
+  route: string
+  /** The form encoded body of a POST request. */
+  body?: string
+  headers: Record<string, string>
+  signal: AbortSignal
+}
+
+/** A response returned by a transport. */
+export interface PineFacadeTransportResponse {
+  status: number
+  statusText: string
+  /** The `Retry-After` header, if any. */
+  retryAfter: string | null
+  body: string
+}
+
+/** Sends pine-facade requests, e.g. over the network or from recorded fixtures. */
+export interface PineFacadeTransport {
+  send(request: PineFacadeTransportRequest): Promise<PineFacadeTransportResponse>
+}
+
+/** Thrown when a pine-facade request fails, times out or is cancelled. */
+export class PineFacadeError extends Error {
+  constructor(message: string, public status?: number, public cancelled: boolean = false) {
+    super(message)
+    this.name = 'PineFacadeError'
+  }
+}
+
+/** The transport that sends requests over the network with node-fetch, optionally through a proxy. */
+export class PineFetchTransport implements PineFacadeTransport {
+  /** Holds the proxy agents for http and https URLs, if a proxy is set */
+  private agents: { http: HttpProxyAgent<string>; https: HttpsProxyAgent<string> } | undefined
+  /** Holds the fetch function for making requests */
+  private fetch: any = undefined
+
+  /**
+   * @param proxy - The URL of the HTTP(S) proxy to connect through.
+   */
+  constructor(proxy?: string) {
+    if (proxy) {
+      this.agents = { http: new HttpProxyAgent(proxy), https: new HttpsProxyAgent(proxy) }
+    }
+  }
+
+  /**
+   * Dynamically imports node-fetch and assigns it to this.fetch.
+   * This method ensures compatibility with ES Modules.
+   */
+  private async loadFetchModule() {
+    if (!this.fetch) {
+      const fetchModule = await import('node-fetch')
+      this.fetch = fetchModule.default
+    }
+  }
+
+  async send(request: PineFacadeTransportRequest): Promise<PineFacadeTransportResponse> {
+    await this.loadFetchModule()
+    const response = await this.fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      signal: request.signal,
+      body: request.body !== undefined ? new URLSearchParams(request.body) : undefined,
+      agent: this.agents
+        ? (parsedUrl: URL) => this.agents?.[parsedUrl.protocol === 'http:' ? 'http' : 'https']
+        : undefined,
+    })
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      retryAfter: response.headers.get('retry-after'),
+      body: await response.text(),
+    }
+  }
+}
+
+/**
+ * Class representing a client of the pine-facade service.
+ * It has no dependency on the VS Code API, so the extension and the command line linter share it.
+ */
+export class PineFacadeClient {
+  static readonly defaultBaseUrl = 'https://pine-facade.tradingview.com/pine-facade/'
+  /** The longest wait between two attempts of a request. */
+  static readonly maxBackoff = 10000
+
+  /** Holds the URL for the Pine facade */
+  readonly baseUrl: string
+  readonly timeout: number
+  readonly retries: number
+  readonly transport: PineFacadeTransport
+
+  constructor(options: PineFacadeClientOptions = {}) {
+    const baseUrl = options.baseUrl || PineFacadeClient.defaultBaseUrl
+    this.baseUrl = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`
+    this.timeout = options.timeout ?? 15000
+    this.retries = options.retries ?? 2
+    this.transport = options.transport ?? new PineFetchTransport(options.proxy)
+  }
+
+  /** The URL of the `translate_light` endpoint that lints scripts. */
+  get lintUrl(): string {
+    return `${this.baseUrl}translate_light?user_name=Guest&pine_id=00000000-0000-0000-0000-000000000000`
+  }
+
+  /**
+   * Get request headers.
+   * @returns {Record<string, string>} - Object containing request headers.
+   */
+  private getHeaders(): Record<string, string> {
+    return {
+      Accept: 'application/json',
+      Method: 'cors',
+      Referer: 'https://www.tradingview.com/',
+    }
+  }
+
+  /**
+   * Makes a request to the specified URL using the specified method.
+   * Requests answered with 429 or a 5xx status are retried with exponential backoff, honouring `Retry-After`.
+   * @param {string} method - The HTTP method to use for the request.
+   * @param {string} url - The URL to make the request to.
+   * @param {string} [source] - The script sent as the `source` form field of a POST request.
+   * @param {AbortSignal} [signal] - Cancels the request.
+   * @returns {Promise<any>} A promise that resolves to the JSON of the response.
+   * @throws {PineFacadeError} If the request fails, times out or is cancelled.
+   */
+  async request(method: string, url: string, source?: string, signal?: AbortSignal): Promise<any> {
+    // If the method is POST, send the script as form data
+    const body = method.toUpperCase() === 'POST' ? new URLSearchParams({ source: source ?? ' ' }).toString() : undefined
+    const route = url.startsWith(this.baseUrl) ? url.slice(this.baseUrl.length) : url
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) {
+        throw new PineFacadeError('Request cancelled', undefined, true)
+      }
+      const controller = new AbortController()
+      const abort = () => controller.abort()
+      const timer = setTimeout(abort, this.timeout)
+      signal?.addEventListener('abort', abort)
+      try {
+        const response = await this.transport.send({
+          method,
+          url,
+          route,
+          body,
+          headers: this.getHeaders(),
+          signal: controller.signal,
+        })
+        if (response.status >= 200 && response.status < 300) {
+          return JSON.parse(response.body)
+        }
+        if (attempt < this.retries && (response.status === 429 || response.status >= 500)) {
+          await this.backoff(attempt, response.retryAfter, signal)
+          continue
+        }
+        throw new PineFacadeError(`HTTP error! status: ${response.status} ${response.statusText}`, response.status)
+      } catch (error: any) {
+        if (error instanceof PineFacadeError) {
+          throw error
+        }
+        if (signal?.aborted) {
+          throw new PineFacadeError('Request cancelled', undefined, true)
+        }
+        if (controller.signal.aborted) {
+          throw new PineFacadeError(`Request timed out after ${this.timeout} ms`)
+        }
+        throw new PineFacadeError(`Request failed: ${error?.message ?? error}`)
+      } finally {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', abort)
+      }
+    }
+  }
+
+  /**
+   * Waits before the next attempt of a request.
+   * @param attempt - The number of the failed attempt, from 0.
+   * @param retryAfter - The `Retry-After` header of the response, in seconds.
+   * @param signal - Cancels the wait.
+   */
+  private backoff(attempt: number, retryAfter: string | null, signal?: AbortSignal): Promise<void> {
+    const seconds = Number(retryAfter)
+    const delay = Math.min(
+      retryAfter && !Number.isNaN(seconds) ? seconds * 1000 : 500 * 2 ** attempt,
+      PineFacadeClient.maxBackoff,
+    )
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const cancel = () => {
+        clearTimeout(timer)
+        reject(new PineFacadeError('Request cancelled', undefined, true))
+      }
+      timer = setTimeout(() => {
+        signal?.removeEventListener('abort', cancel)
+        resolve()
+      }, delay)
+      signal?.addEventListener('abort', cancel, { once: true })
+    })
+  }
+
+  /**
+   * Lints a script with the `translate_light` endpoint.
+   * @param {string} source - The script to lint.
+   * @param {AbortSignal} [signal] - Cancels the request.
+   * @returns {Promise<any>} - The lint response, or undefined if it holds no result.
+   * @throws {PineFacadeError} If the request fails, times out or is cancelled.
+   */
+  async lint(source: string, signal?: AbortSignal): Promise<any> {
+    const response = await this.request('POST', this.lintUrl, source, signal)
+    return response?.result ? response : undefined
+  }
+}
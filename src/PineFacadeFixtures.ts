@@ -0,0 +1,144 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import {
+  PineFacadeError,
+  PineFacadeTransport,
+  PineFacadeTransportRequest,
+  PineFacadeTransportResponse,
+} from './PineFacadeClient'
+
+/** A recorded pine-facade request and its response. */
+export interface PineFacadeFixture {
+  request: {
+    method: string
+    /** The URL relative to the pine-facade base URL, e.g. `list/?filter=standard`. */
+    route: string
+    body?: string
+  }
+  response: {
+    status: number
+    statusText: string
+    /** The body of the response, parsed if it is JSON so the fixture stays readable. */
+    json?: any
+    text?: string
+  }
+}
+
+/**
+ * The PineFacadeFixtures class stores recorded pine-facade requests as JSON files in a directory.
+ * A fixture is found by the method, route and body of its request, whatever host it was recorded from,
+ * so the same fixtures serve the replay transport and the stub server.
+ * It has no dependency on the VS Code API.
+ */
+export class PineFacadeFixtures {
+  readonly directory: string
+
+  constructor(directory: string) {
+    this.directory = directory
+  }
+
+  /**
+   * Gets the file name of the fixture of a request: a readable prefix and a hash of the whole request.
+   * @param method - The HTTP method.
+   * @param route - The URL relative to the pine-facade base URL.
+   * @param body - The body of a POST request.
+   * @returns The file name.
+   */
+  static fileName(method: string, route: string, body?: string): string {
+    const hash = createHash('sha256')
+      .update(`${method.toUpperCase()} ${route}\n${body ?? ''}`)
+      .digest('hex')
+    const endpoint = route
+      .split('?')[0]
+      .replace(/[^\w.-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60)
+    return `${method.toLowerCase()}-${endpoint || 'root'}-${hash.slice(0, 16)}.json`
+  }
+
+  /**
+   * Reads the fixture of a request.
+   * @param method - The HTTP method.
+   * @param route - The URL relative to the pine-facade base URL.
+   * @param body - The body of a POST request.
+   * @returns The fixture, or undefined if the request was not recorded.
+   */
+  read(method: string, route: string, body?: string): PineFacadeFixture | undefined {
+    const file = path.join(this.directory, PineFacadeFixtures.fileName(method, route, body))
+    if (!fs.existsSync(file)) {
+      return undefined
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8'))
+  }
+
+  /**
+   * Writes the fixture of a request, replacing an earlier recording of the same request.
+   * @param fixture - The fixture.
+   */
+  write(fixture: PineFacadeFixture): void {
+    const { method, route, body } = fixture.request
+    fs.mkdirSync(this.directory, { recursive: true })
+    fs.writeFileSync(
+      path.join(this.directory, PineFacadeFixtures.fileName(method, route, body)),
+      `${JSON.stringify(fixture, null, 2)}\n`,
+    )
+  }
+
+  /**
+   * Gets the body of a recorded response as text.
+   * @param fixture - The fixture.
+   * @returns The body.
+   */
+  static responseBody(fixture: PineFacadeFixture): string {
+    return fixture.response.json !== undefined ? JSON.stringify(fixture.response.json) : fixture.response.text ?? ''
+  }
+}
+
+/** The transport that sends requests with another transport and records them as fixtures. */
+export class PineRecordTransport implements PineFacadeTransport {
+  constructor(private fixtures: PineFacadeFixtures, private inner: PineFacadeTransport) {}
+
+  async send(request: PineFacadeTransportRequest): Promise<PineFacadeTransportResponse> {
+    const response = await this.inner.send(request)
+    // Failures that are retried are not worth replaying
+    if (response.status !== 429 && response.status < 500) {
+      let json: any
+      try {
+        json = JSON.parse(response.body)
+      } catch {
+        json = undefined
+      }
+      this.fixtures.write({
+        request: { method: request.method.toUpperCase(), route: request.route, body: request.body },
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          ...(json !== undefined ? { json } : { text: response.body }),
+        },
+      })
+    }
+    return response
+  }
+}
+
+/** The transport that answers requests from recorded fixtures, without a network. */
+export class PineReplayTransport implements PineFacadeTransport {
+  constructor(private fixtures: PineFacadeFixtures) {}
+
+  async send(request: PineFacadeTransportRequest): Promise<PineFacadeTransportResponse> {
+    const fixture = this.fixtures.read(request.method, request.route, request.body)
+    if (!fixture) {
+      throw new PineFacadeError(
+        `No fixture for ${request.method.toUpperCase()} ${request.route} in ${this.fixtures.directory}`,
+        404,
+      )
+    }
+    return {
+      status: fixture.response.status,
+      statusText: fixture.response.statusText,
+      retryAfter: null,
+      body: PineFacadeFixtures.responseBody(fixture),
+    }
+  }
+}
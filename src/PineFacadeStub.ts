@@ -0,0 +1,146 @@
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import { PineFacadeFixtures } from './PineFacadeFixtures'
+
+/** The settings of a PineFacadeStub. */
+export interface PineFacadeStubOptions {
+  port?: number
+  host?: string
+  /** The path pine-facade is served under, as in `https://pine-facade.tradingview.com/pine-facade/`. */
+  basePath?: string
+  /** Called with a line for every request served. */
+  log?: (line: string) => void
+}
+
+/**
+ * The PineFacadeStub class is a local HTTP server that follows the routes of pine-facade and answers from
+ * recorded fixtures, so linting, library imports and script browsing work without a network.
+ * Point `pinescript.request.baseUrl` or `pine-lint --base-url` at its URL.
+ */
+export class PineFacadeStub {
+  static readonly usage = [
+    'Usage: pine-facade-stub [options] <fixtures directory>',
+    '',
+    'Serves recorded pine-facade fixtures on the pine-facade routes.',
+    '',
+    'Options:',
+    '  --port <port>          Port to listen on (default 8000, 0 for any free port)',
+    '  --host <host>          Host to listen on (default 127.0.0.1)',
+    '  -h, --help             Show this help',
+  ].join('\n')
+
+  readonly basePath: string
+  private fixtures: PineFacadeFixtures
+  private options: PineFacadeStubOptions
+  private server: http.Server | undefined
+
+  constructor(fixtures: PineFacadeFixtures, options: PineFacadeStubOptions = {}) {
+    this.fixtures = fixtures
+    this.options = options
+    const basePath = options.basePath ?? '/pine-facade/'
+    this.basePath = basePath.endsWith('/') ? basePath : `${basePath}/`
+  }
+
+  /**
+   * Starts the server.
+   * @returns The base URL of the stub, to use as the pine-facade base URL.
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((request, response) => this.handle(request, response))
+      server.once('error', reject)
+      server.listen(this.options.port ?? 8000, this.options.host ?? '127.0.0.1', () => {
+        const { address, port } = server.address() as AddressInfo
+        const host = address.includes(':') ? `[${address}]` : address
+        resolve(`http://${host}:${port}${this.basePath}`)
+      })
+      this.server = server
+    })
+  }
+
+  /** Stops the server. */
+  stop(): Promise<void> {
+    return new Promise((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()))
+  }
+
+  /**
+   * Answers a request with its fixture, or with a 404 JSON error if it was not recorded.
+   * @param request - The request.
+   * @param response - The response.
+   */
+  private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const chunks: Buffer[] = []
+    request.on('data', (chunk: Buffer) => chunks.push(chunk))
+    request.on('end', () => {
+      const method = (request.method ?? 'GET').toUpperCase()
+      const url = request.url ?? '/'
+      const route = url.startsWith(this.basePath) ? url.slice(this.basePath.length) : url.replace(/^\//, '')
+      const body = method === 'POST' ? Buffer.concat(chunks).toString('utf8') : undefined
+      let fixture
+      try {
+        fixture = this.fixtures.read(method, route, body)
+      } catch (error) {
+        fixture = undefined
+        this.options.log?.(`${method} ${route}: unreadable fixture (${error})`)
+      }
+      if (!fixture) {
+        this.options.log?.(`${method} ${route}: 404 no fixture`)
+        response.writeHead(404, 'No fixture', { 'Content-Type': 'application/json' })
+        response.end(JSON.stringify({ success: false, reason: `No fixture for ${method} ${route}` }))
+        return
+      }
+      this.options.log?.(`${method} ${route}: ${fixture.response.status}`)
+      const isJson = fixture.response.json !== undefined
+      response.writeHead(fixture.response.status, fixture.response.statusText, {
+        'Content-Type': isJson ? 'application/json' : 'text/plain',
+      })
+      response.end(PineFacadeFixtures.responseBody(fixture))
+    })
+  }
+
+  /**
+   * Runs the stub server with command line arguments.
+   * @param args - The arguments, without the node and script paths.
+   * @returns The exit code if the server did not start, or undefined while it runs.
+   */
+  static async run(args: string[]): Promise<number | undefined> {
+    const options: PineFacadeStubOptions = { log: (line) => process.stdout.write(`${line}\n`) }
+    let directory: string | undefined
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i]
+      const [name, inlineValue] = arg.startsWith('--') && arg.includes('=') ? arg.split(/=(.*)/) : [arg, undefined]
+      const value = () => inlineValue ?? args[++i] ?? ''
+      if (name === '-h' || name === '--help') {
+        process.stdout.write(`${PineFacadeStub.usage}\n`)
+        return 0
+      }
+      if (name === '--port') {
+        const port = Number(value())
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          process.stderr.write(`pine-facade-stub: --port expects a port number\n\n${PineFacadeStub.usage}\n`)
+          return 2
+        }
+        options.port = port
+      } else if (name === '--host') {
+        options.host = value()
+      } else if (arg.startsWith('-') || directory !== undefined) {
+        process.stderr.write(`pine-facade-stub: unexpected argument '${arg}'\n\n${PineFacadeStub.usage}\n`)
+        return 2
+      } else {
+        directory = arg
+      }
+    }
+    if (directory === undefined) {
+      process.stderr.write(`${PineFacadeStub.usage}\n`)
+      return 2
+    }
+    try {
+      const url = await new PineFacadeStub(new PineFacadeFixtures(directory), options).start()
+      process.stdout.write(`Serving pine-facade fixtures from ${directory} at ${url}\n`)
+      return undefined
+    } catch (error: any) {
+      process.stderr.write(`pine-facade-stub: ${error?.message ?? error}\n`)
+      return 1
+    }
+  }
+}
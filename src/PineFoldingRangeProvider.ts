@@ -0,0 +1,113 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineAstWalker, PineCallExpression, PineIfExpression, PineNode, PineSwitchExpression } from './PineAst'
+
+/**
+ * The PineFoldingRangeProvider class folds the structure of a script: functions, methods, types and enums,
+ * `if`/`for`/`while`/`switch` blocks and their arms, argument lists over several lines, runs of `import` lines,
+ * runs of comment lines such as `// @function` docstrings, and `//#region` markers.
+ * Imports and comments get their folding kinds, so "Fold All Comments" and "Fold Imports" reach them.
+ */
+export class PineFoldingRangeProvider implements vscode.FoldingRangeProvider {
+  /** The region markers of the language configuration, which a folding provider replaces. */
+  static readonly regionStart = /(^\s*\/\/\s*#?region\b)|(\/\/\s*\*\*.*)/
+  static readonly regionEnd = /(^\s*\/\/\s*#?endregion\b)|(\/\/\s*\*(?!\*))/
+
+  /** The nodes that fold from their first to their last line. */
+  static readonly blockKinds = [
+    'FunctionDeclaration',
+    'TypeDeclaration',
+    'EnumDeclaration',
+    'ForExpression',
+    'ForInExpression',
+    'WhileExpression',
+    'SwitchCase',
+  ]
+
+  /**
+   * Provides the folding ranges of a document.
+   * @param document - The document.
+   * @returns The ranges, at most one per start line.
+   */
+  provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    const ranges: Map<number, vscode.FoldingRange> = new Map()
+    const add = (start: number, end: number, kind?: vscode.FoldingRangeKind) => {
+      const existing = ranges.get(start)
+      if (end > start && (!existing || existing.end < end)) {
+        ranges.set(start, new vscode.FoldingRange(start, end, kind))
+      }
+    }
+    const lineOf = (offset: number) => document.positionAt(offset).line
+    // A node ending at the start of a line ends on the line before
+    const endLineOf = (node: PineNode) => lineOf(Math.max(node.start, node.end - 1))
+
+    const text = document.getText()
+    const { script } = Class.PineParser.parseScript(text)
+    PineAstWalker.walk(script, (node) => {
+      if (PineFoldingRangeProvider.blockKinds.includes(node.kind)) {
+        add(lineOf(node.start), endLineOf(node))
+      } else if (node.kind === 'IfExpression') {
+        const { consequent, alternate } = node as PineIfExpression
+        add(lineOf(node.start), endLineOf(consequent))
+        if (alternate?.kind === 'Block') {
+          // The `else` arm folds from its `else` line
+          const elseLine = lineOf(text.lastIndexOf('else', alternate.start))
+          add(elseLine, endLineOf(alternate))
+        }
+      } else if (node.kind === 'SwitchExpression') {
+        const { cases } = node as PineSwitchExpression
+        add(lineOf(node.start), cases.length ? endLineOf(cases[cases.length - 1]) : endLineOf(node))
+      } else if (node.kind === 'CallExpression') {
+        const call = node as PineCallExpression
+        const endLine = endLineOf(call)
+        // Keep the line of a closing `)` that starts its line visible
+        const closesAlone = /^\s*\)/.test(document.lineAt(endLine).text)
+        add(lineOf(call.callee.end), closesAlone ? endLine - 1 : endLine)
+      }
+    })
+
+    const imports = script.body.filter((statement) => statement.kind === 'ImportDeclaration')
+    for (const run of PineFoldingRangeProvider.runs(imports.map((statement) => lineOf(statement.start)))) {
+      add(run[0], run[run.length - 1], vscode.FoldingRangeKind.Imports)
+    }
+
+    const commentLines: number[] = []
+    const regions: number[] = []
+    for (let line = 0; line < document.lineCount; line++) {
+      const lineText = document.lineAt(line).text
+      if (PineFoldingRangeProvider.regionStart.test(lineText)) {
+        regions.push(line)
+      } else if (PineFoldingRangeProvider.regionEnd.test(lineText)) {
+        const start = regions.pop()
+        if (start !== undefined) {
+          add(start, line, vscode.FoldingRangeKind.Region)
+        }
+      } else if (/^\s*\/\//.test(lineText)) {
+        commentLines.push(line)
+      }
+    }
+    for (const run of PineFoldingRangeProvider.runs(commentLines)) {
+      add(run[0], run[run.length - 1], vscode.FoldingRangeKind.Comment)
+    }
+
+    return [...ranges.values()].sort((a, b) => a.start - b.start)
+  }
+
+  /**
+   * Splits sorted line numbers into runs of consecutive lines.
+   * @param lines - The line numbers.
+   * @returns The runs of two lines or more.
+   */
+  static runs(lines: number[]): number[][] {
+    const runs: number[][] = []
+    for (const line of lines) {
+      const run = runs[runs.length - 1]
+      if (run && run[run.length - 1] === line - 1) {
+        run.push(line)
+      } else {
+        runs.push([line])
+      }
+    }
+    return runs.filter((run) => run.length > 1)
+  }
+}
@@ -1,15 +1,17 @@
 import { Class } from './PineClass'
 import { VSCode } from './VSCode'
+import { PineLintCache } from './PineLintCache'
 
 /**
  * Class representing the PineResponseFlow for tracking changes in PineScript response.
  */
 export class PineResponseFlow {
-  static docLength: number | null = null
+  /** The hash of the document text the docs were last converted for. */
+  static docHash: string | null = null
   static docChange: boolean | null = null
 
   /**
-   * Resets the docLength.
+   * Resets the docChange flag, so the next response is converted.
    */
   static resetDocChange() {
     PineResponseFlow.docChange = null
@@ -50,17 +52,17 @@ export class PineFormatResponse {
 
   /**
    * Checks whether the code conversion should run based on changes in the response.
-   * This function determines whether the code conversion should run based on changes in the response.
+   * The conversion runs when the hash of the document text changes, or after the active document changed.
    *
    * @returns A set of flags indicating which parts of the response have changed.
    */
   shouldRunConversion() {
     this.confirmed = []
 
-    const docLength = VSCode.Text?.length ?? -1
+    const docHash = PineLintCache.hash(VSCode.Text ?? '')
 
-    if (PineResponseFlow.docLength !== docLength || PineResponseFlow.docChange === null) {
-      PineResponseFlow.docLength = docLength
+    if (PineResponseFlow.docHash !== docHash || PineResponseFlow.docChange === null) {
+      PineResponseFlow.docHash = docHash
       PineResponseFlow.docChange = true
       return true
     } else {
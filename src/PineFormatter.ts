@@ -0,0 +1,586 @@
+import { PineLexer, PineToken } from './PineLexer'
+
+/** The settings of the formatter, from `pinescript.format.*` or a `.pinefmt` file. */
+export interface PineFormatOptions {
+  /** Whether the `=` of named arguments and parameter defaults gets spaces, `color = color.red` or `color=color.red`. */
+  spaceAroundNamedArguments: boolean
+  /** Whether the `=` of consecutive single-line declarations are aligned. */
+  alignDeclarations: boolean
+  /** Whether the arguments of consecutive `input.*()` declarations are aligned in columns. */
+  alignInputs: boolean
+  /** The length beyond which argument lists are wrapped, 0 to never wrap. */
+  maxLineLength: number
+  /** The indentation of wrapped lines relative to their statement; never a multiple of 4, which would start a block. */
+  continuationIndent: number
+}
+
+/** A formatted line of the original text. */
+export interface PineFormattedLine {
+  original: string
+  /** The new text, which spans several lines if a long argument list was wrapped. */
+  formatted: string
+}
+
+/** A token of a rebuilt line and the whitespace in front of it. */
+interface PineFormatPiece {
+  token: PineToken
+  before: string
+}
+
+/** A code line being rebuilt from its tokens. */
+interface PineFormatLine {
+  indent: string
+  pieces: PineFormatPiece[]
+  /** The trailing comment and the whitespace in front of it, as they were. */
+  comment: string
+  /** The indentation level of a line that starts a statement. */
+  level?: number
+  isContinued: boolean
+  isWrapped: boolean
+}
+
+/** A single-line declaration and the pieces of its name and `=`. */
+interface PineFormatDeclaration {
+  line: PineFormatLine
+  /** The index of the name piece, 0 if the declaration has no type. */
+  name: number
+  /** The index of the `=` piece, -1 for a field without a default. */
+  equals: number
+}
+
+/**
+ * The PineFormatter class formats Pine Script from its tokens: indentation becomes 4 spaces per block, operators
+ * and commas get single spaces, consecutive declarations and `input.*()` blocks are aligned, and long argument
+ * lists are wrapped on continuation lines. Only whitespace between tokens changes, and lines the lexer cannot
+ * read safely, comment lines (including `//@version`) and `import` lines keep their text, so the meaning of the
+ * script never changes. It has no dependency on the VS Code API.
+ */
+export class PineFormatter {
+  static readonly indentSize = 4
+
+  static readonly defaults: PineFormatOptions = {
+    spaceAroundNamedArguments: true,
+    alignDeclarations: true,
+    alignInputs: true,
+    maxLineLength: 120,
+    continuationIndent: 2,
+  }
+
+  /** The identifiers that take type arguments, as in `array<float>` or `map.new<string, int>()`. */
+  static readonly genericNames = ['array', 'matrix', 'map', 'new']
+
+  private options: PineFormatOptions
+  private lines: string[]
+  private tokensByLine: Map<number, PineToken[]> = new Map()
+  private commentsByLine: Map<number, PineToken> = new Map()
+  /** The start offsets of the `<` and `>` of type arguments. */
+  private generics: Set<number> = new Set()
+  /** The start offsets of unary `-` and `+`. */
+  private unaries: Set<number> = new Set()
+
+  constructor(private text: string, options: Partial<PineFormatOptions> = {}) {
+    this.options = PineFormatter.resolveOptions(options)
+    this.lines = text.split(/\r\n|\r|\n/)
+  }
+
+  /**
+   * Formats a script.
+   * @param text - The script.
+   * @param options - The settings, defaults for those left out.
+   * @returns The formatted script.
+   */
+  static format(text: string, options: Partial<PineFormatOptions> = {}): string {
+    const eol = /\r\n/.test(text) ? '\r\n' : '\n'
+    return PineFormatter.formatLines(text, options)
+      .map((line) => line.formatted.replace(/\n/g, eol))
+      .join(eol)
+  }
+
+  /**
+   * Formats a script line by line, so callers can edit only the lines of a range.
+   * @param text - The script.
+   * @param options - The settings, defaults for those left out.
+   * @returns One entry per line of the text.
+   */
+  static formatLines(text: string, options: Partial<PineFormatOptions> = {}): PineFormattedLine[] {
+    return new PineFormatter(text, options).formatLines()
+  }
+
+  /**
+   * Completes and checks settings, e.g. from a `.pinefmt` file; values of the wrong type are ignored.
+   * @param options - The settings.
+   * @returns The settings with defaults for the missing and invalid ones.
+   */
+  static resolveOptions(options: Partial<PineFormatOptions>): PineFormatOptions {
+    const resolved: PineFormatOptions = { ...PineFormatter.defaults }
+    for (const key of Object.keys(PineFormatter.defaults) as (keyof PineFormatOptions)[]) {
+      if (typeof options[key] === typeof PineFormatter.defaults[key]) {
+        Object.assign(resolved, { [key]: options[key] })
+      }
+    }
+    const { continuationIndent, maxLineLength } = resolved
+    if (!Number.isInteger(continuationIndent) || continuationIndent < 1 || continuationIndent % 4 === 0) {
+      resolved.continuationIndent = PineFormatter.defaults.continuationIndent
+    }
+    resolved.maxLineLength = Math.max(0, Math.floor(maxLineLength))
+    return resolved
+  }
+
+  private formatLines(): PineFormattedLine[] {
+    const { tokens, comments } = PineLexer.tokenize(this.text)
+    const code = tokens.filter((token) => !['newline', 'indent', 'dedent', 'eof'].includes(token.kind))
+    for (const token of code) {
+      const lineTokens = this.tokensByLine.get(token.line) ?? []
+      lineTokens.push(token)
+      this.tokensByLine.set(token.line, lineTokens)
+    }
+    for (const comment of comments) {
+      this.commentsByLine.set(comment.line, comment)
+    }
+    this.markGenerics(code)
+    this.markUnaries(tokens)
+
+    const formatted: (PineFormatLine | string)[] = []
+    const indents = [0]
+    const brackets: string[] = []
+    let statementWidth = 0
+    let statementLevel = 0
+    let isFirstCode = true
+    for (let i = 0; i < this.lines.length; i++) {
+      const line = this.lines[i]
+      const lineTokens = this.tokensByLine.get(i) ?? []
+      if (lineTokens.length === 0) {
+        // Blank and comment lines; comments stay exactly as written
+        formatted.push(this.commentsByLine.has(i) ? line : '')
+        continue
+      }
+      const width = PineFormatter.widthOf(line)
+      if (width === 0) {
+        brackets.length = 0
+      }
+      const startsStatement = brackets.length === 0 && (width % PineFormatter.indentSize === 0 || isFirstCode)
+      isFirstCode = false
+      let indent: number
+      if (startsStatement) {
+        while (indents.length > 1 && width < indents[indents.length - 1]) {
+          indents.pop()
+        }
+        if (width > indents[indents.length - 1]) {
+          indents.push(width)
+        }
+        statementWidth = width
+        statementLevel = indents.length - 1
+        indent = statementLevel * PineFormatter.indentSize
+      } else {
+        // A continuation line moves with its statement and must stay off the block columns
+        indent = Math.max(1, statementLevel * PineFormatter.indentSize + width - statementWidth)
+        if (indent % PineFormatter.indentSize === 0) {
+          indent += this.options.continuationIndent
+        }
+      }
+      const rebuilt = this.rebuild(i, lineTokens, ' '.repeat(indent), brackets)
+      if (rebuilt && startsStatement) {
+        rebuilt.level = statementLevel
+      }
+      formatted.push(rebuilt ?? `${' '.repeat(indent)}${line.trimStart()}`)
+      for (const token of lineTokens) {
+        if (token.value === '(' || token.value === '[') {
+          brackets.push(token.value)
+        } else if ((token.value === ')' || token.value === ']') && brackets.length) {
+          brackets.pop()
+        }
+      }
+    }
+
+    const isCode = (line: PineFormatLine | string | undefined): line is PineFormatLine => typeof line === 'object'
+    formatted.forEach((line, i) => {
+      if (isCode(line)) {
+        const next = formatted[i + 1]
+        line.isContinued = isCode(next) && next.level === undefined
+      }
+    })
+    if (this.options.maxLineLength > 0) {
+      for (const line of formatted) {
+        if (isCode(line) && line.level !== undefined && !line.isContinued) {
+          this.wrap(line)
+        }
+      }
+    }
+    this.align(formatted.map((line) => (isCode(line) ? line : undefined)))
+
+    return formatted.map((line, i) => ({
+      original: this.lines[i],
+      formatted: isCode(line) ? PineFormatter.textOf(line) : line,
+    }))
+  }
+
+  /**
+   * Rebuilds a code line from its tokens with normalized spacing.
+   * @param lineNumber - The line.
+   * @param tokens - The tokens of the line.
+   * @param indent - The new indentation.
+   * @param brackets - The brackets open before the line.
+   * @returns The line, or undefined if its text must be kept, as for `import` lines and unreadable code.
+   */
+  private rebuild(
+    lineNumber: number,
+    tokens: PineToken[],
+    indent: string,
+    brackets: string[],
+  ): PineFormatLine | undefined {
+    const unsafe = tokens.some(
+      (token) =>
+        token.kind === 'invalid' ||
+        (token.kind === 'string' && (token.value.length < 2 || token.value.slice(-1) !== token.value[0])),
+    )
+    if (unsafe || tokens[0].value === 'import') {
+      return undefined
+    }
+    const open = [...brackets]
+    const pieces: PineFormatPiece[] = tokens.map((token, index) => {
+      const before = index === 0 ? '' : this.spacing(tokens[index - 1], token, open)
+      if (token.value === '(' || token.value === '[') {
+        open.push(token.value)
+      } else if ((token.value === ')' || token.value === ']') && open.length) {
+        open.pop()
+      }
+      return { token, before }
+    })
+    const line = this.lines[lineNumber]
+    const comment = this.commentsByLine.get(lineNumber)
+    const lineStart = tokens[0].start - tokens[0].column
+    const last = tokens[tokens.length - 1]
+    const trailing = comment ? line.slice(last.end - lineStart) : ''
+    return { indent, pieces, comment: trailing, isContinued: false, isWrapped: false }
+  }
+
+  /**
+   * Decides the whitespace between two tokens of a line.
+   * @param previous - The token before.
+   * @param token - The token.
+   * @param open - The brackets open at the token.
+   * @returns A space or nothing.
+   */
+  private spacing(previous: PineToken, token: PineToken, open: string[]): string {
+    const value = token.value
+    const before = previous.value
+    const isNamedEquals = (t: PineToken) => t.value === '=' && open[open.length - 1] === '('
+    if (value === ',' || value === ')' || value === ']' || value === '.' || before === '.') {
+      return ''
+    }
+    if (before === ',') {
+      return ' '
+    }
+    if (before === '(' || before === '[') {
+      return ''
+    }
+    if (this.generics.has(token.start)) {
+      return ''
+    }
+    if (this.generics.has(previous.start)) {
+      return previous.value === '<' || value === '(' || value === '[' || value === '>' ? '' : ' '
+    }
+    if (this.unaries.has(previous.start)) {
+      return ''
+    }
+    if (value === '(' || value === '[') {
+      const isCalleeOrSeries = previous.kind === 'identifier' || before === ')' || before === ']'
+      return isCalleeOrSeries ? '' : ' '
+    }
+    if (isNamedEquals(token) || isNamedEquals(previous)) {
+      return this.options.spaceAroundNamedArguments ? ' ' : ''
+    }
+    return ' '
+  }
+
+  /** Finds the `<` and `>` that enclose type arguments rather than compare. */
+  private markGenerics(tokens: PineToken[]) {
+    tokens.forEach((token, index) => {
+      if (token.value !== '<' || !PineFormatter.genericNames.includes(tokens[index - 1]?.value)) {
+        return
+      }
+      const marks: number[] = [token.start]
+      let depth = 1
+      for (let j = index + 1; j < tokens.length && depth > 0; j++) {
+        const next = tokens[j]
+        if (next.value === '<') {
+          depth++
+        } else if (next.value === '>') {
+          depth--
+        } else if (
+          next.kind !== 'identifier' &&
+          next.kind !== 'keyword' &&
+          !['.', ',', '[', ']'].includes(next.value)
+        ) {
+          return
+        }
+        if (next.value === '<' || next.value === '>') {
+          marks.push(next.start)
+        }
+      }
+      if (depth === 0) {
+        marks.forEach((mark) => this.generics.add(mark))
+      }
+    })
+  }
+
+  /** Finds the `-` and `+` that are signs rather than binary operators, including those that start a line. */
+  private markUnaries(tokens: PineToken[]) {
+    tokens.forEach((token, index) => {
+      if (token.value !== '-' && token.value !== '+') {
+        return
+      }
+      const previous = tokens[index - 1]
+      const isOperand =
+        previous &&
+        (['identifier', 'number', 'string', 'color'].includes(previous.kind) ||
+          previous.value === 'true' ||
+          previous.value === 'false' ||
+          previous.value === ')' ||
+          previous.value === ']' ||
+          this.generics.has(previous.start))
+      if (!isOperand) {
+        this.unaries.add(token.start)
+      }
+    })
+  }
+
+  /**
+   * Wraps the arguments of the first call of a line that is too long onto continuation lines,
+   * filling each line as far as the limit allows.
+   * @param line - The line.
+   */
+  private wrap(line: PineFormatLine) {
+    const { maxLineLength, continuationIndent } = this.options
+    if (PineFormatter.textOf(line).length <= maxLineLength || line.pieces.some((p) => p.token.value === '=>')) {
+      return
+    }
+    const { pieces } = line
+    const open = pieces.findIndex(
+      (piece, index) =>
+        piece.token.value === '(' &&
+        index > 0 &&
+        (pieces[index - 1].token.kind === 'identifier' || this.generics.has(pieces[index - 1].token.start)),
+    )
+    if (open < 0) {
+      return
+    }
+    // The pieces that follow a comma of the call
+    const breaks: number[] = []
+    let depth = 0
+    for (let index = open; index < pieces.length; index++) {
+      const value = pieces[index].token.value
+      if (value === '(' || value === '[') {
+        depth++
+      } else if (value === ')' || value === ']') {
+        depth--
+        if (depth === 0) {
+          break
+        }
+      } else if (value === ',' && depth === 1 && index + 1 < pieces.length) {
+        breaks.push(index + 1)
+      }
+    }
+    if (breaks.length === 0) {
+      return
+    }
+    const continuation = `\n${line.indent}${' '.repeat(continuationIndent)}`
+    const lengthOf = (from: number, to: number) =>
+      pieces.slice(from, to).reduce((length, piece) => length + piece.before.length + piece.token.value.length, 0)
+    let column = line.indent.length + lengthOf(0, breaks[0])
+    breaks.forEach((start, k) => {
+      const end = breaks[k + 1] ?? pieces.length
+      const length = lengthOf(start, end) + (end === pieces.length ? line.comment.length : 0)
+      if (column + length > maxLineLength) {
+        // The space after the comma becomes the line break and continuation indentation
+        column = continuation.length - 1 + length - pieces[start].before.length
+        pieces[start].before = continuation
+      } else {
+        column += length
+      }
+    })
+    line.isWrapped = pieces.some((piece) => piece.before.startsWith('\n'))
+  }
+
+  /**
+   * Aligns the names and the `=` of consecutive single-line declarations of the same block, and the arguments of
+   * consecutive `input.*()` declarations in columns.
+   * @param lines - The code lines, undefined for other lines.
+   */
+  private align(lines: (PineFormatLine | undefined)[]) {
+    const groups: PineFormatDeclaration[][] = []
+    let group: PineFormatDeclaration[] = []
+    for (const line of lines) {
+      const declaration = line && this.declarationOf(line)
+      const previous = group[group.length - 1]?.line
+      if (declaration && (!previous || previous.level === declaration.line.level)) {
+        group.push(declaration)
+        continue
+      }
+      groups.push(group)
+      group = declaration ? [declaration] : []
+    }
+    groups.push(group)
+
+    for (const declarations of groups.filter((g) => g.length > 1)) {
+      if (this.options.alignDeclarations) {
+        const typed = declarations.filter(({ name }) => name > 0)
+        this.alignPieces(typed.map(({ line, name }) => ({ line, index: name })))
+        const assigned = declarations.filter(({ equals }) => equals > 0)
+        this.alignPieces(assigned.map(({ line, equals }) => ({ line, index: equals })))
+      }
+      if (this.options.alignInputs) {
+        let inputs: { line: PineFormatLine; starts: number[] }[] = []
+        for (const { line, equals } of declarations) {
+          const starts = equals > 0 ? this.inputArguments(line, equals) : undefined
+          if (starts) {
+            inputs.push({ line, starts })
+          } else {
+            this.alignColumns(inputs)
+            inputs = []
+          }
+        }
+        this.alignColumns(inputs)
+      }
+    }
+  }
+
+  /**
+   * Pads pieces of several lines so they start in the same column.
+   * @param pieces - The lines and the index of the piece to align in each.
+   */
+  private alignPieces(pieces: { line: PineFormatLine; index: number }[]) {
+    if (pieces.length < 2) {
+      return
+    }
+    const columns = pieces.map(({ line, index }) => PineFormatter.columnOf(line, index))
+    const column = Math.max(...columns)
+    pieces.forEach(({ line, index }, k) => {
+      line.pieces[index].before += ' '.repeat(column - columns[k])
+    })
+  }
+
+  /**
+   * Aligns the arguments after the first in columns, one argument position at a time.
+   * @param calls - The lines and the pieces that start their arguments.
+   */
+  private alignColumns(calls: { line: PineFormatLine; starts: number[] }[]) {
+    if (calls.length < 2) {
+      return
+    }
+    const positions = Math.max(...calls.map(({ starts }) => starts.length))
+    for (let k = 0; k < positions; k++) {
+      const row = calls.filter(({ starts }) => k < starts.length)
+      if (row.length < 2) {
+        break
+      }
+      const columns = row.map(({ line, starts }) => PineFormatter.columnOf(line, starts[k]))
+      const column = Math.max(...columns)
+      row.forEach(({ line, starts }, j) => {
+        line.pieces[starts[k]].before += ' '.repeat(column - columns[j])
+      })
+    }
+  }
+
+  /**
+   * Reads a single-line declaration such as `var float x = 1`, `len = input.int(14)` or a field `int x`.
+   * @param line - The line.
+   * @returns The declaration, or undefined if the line is not one.
+   */
+  private declarationOf(line: PineFormatLine): PineFormatDeclaration | undefined {
+    if (line.level === undefined || line.isContinued || line.isWrapped) {
+      return undefined
+    }
+    const equals = line.pieces.findIndex((piece) => piece.token.value === '=')
+    const head = equals < 0 ? line.pieces : line.pieces.slice(0, equals)
+    const isDeclarationHead = head.every(
+      ({ token }) =>
+        token.kind === 'identifier' ||
+        token.value === 'var' ||
+        token.value === 'varip' ||
+        token.value === '[' ||
+        token.value === ']' ||
+        token.value === '.' ||
+        token.value === ',' ||
+        this.generics.has(token.start),
+    )
+    const name = head.length - 1
+    const isName = name >= 0 && head[name].token.kind === 'identifier' && head[name - 1]?.token.value !== '.'
+    if (!isDeclarationHead || !isName || head[0].token.value === '[') {
+      return undefined
+    }
+    // Without a value, only a name after a type is a declaration, e.g. the field `int x`
+    const hasType = head.slice(0, name).some(({ token }) => token.kind === 'identifier')
+    if (equals < 0 && !hasType) {
+      return undefined
+    }
+    return { line, name: hasType ? name : 0, equals }
+  }
+
+  /**
+   * Finds the arguments of an `input()` or `input.*()` call that makes up the value of a declaration.
+   * @param line - The line.
+   * @param equals - The index of the `=` piece.
+   * @returns The indices of the pieces that start the second and later arguments, or undefined if the value is
+   * not such a call.
+   */
+  private inputArguments(line: PineFormatLine, equals: number): number[] | undefined {
+    const { pieces } = line
+    let open = equals + 2
+    if (pieces[equals + 1]?.token.value !== 'input') {
+      return undefined
+    }
+    if (pieces[open]?.token.value === '.') {
+      open += 2
+    }
+    if (pieces[open]?.token.value !== '(') {
+      return undefined
+    }
+    const starts: number[] = []
+    let depth = 0
+    for (let index = open; index < pieces.length; index++) {
+      const value = pieces[index].token.value
+      if (value === '(' || value === '[') {
+        depth++
+      } else if (value === ')' || value === ']') {
+        depth--
+        if (depth === 0) {
+          return starts
+        }
+      } else if (value === ',' && depth === 1 && index + 1 < pieces.length) {
+        starts.push(index + 1)
+      }
+    }
+    return undefined
+  }
+
+  /** The column at which a piece of a line starts. */
+  private static columnOf(line: PineFormatLine, index: number): number {
+    return line.pieces
+      .slice(0, index + 1)
+      .reduce(
+        (column, piece, k) => column + piece.before.length + (k < index ? piece.token.value.length : 0),
+        line.indent.length,
+      )
+  }
+
+  /** The text of a rebuilt line. */
+  private static textOf(line: PineFormatLine): string {
+    return `${line.indent}${line.pieces.map((piece) => piece.before + piece.token.value).join('')}${line.comment}`
+  }
+
+  /** The width of the indentation of a line, a tab counting as 4 spaces. */
+  private static widthOf(line: string): number {
+    let width = 0
+    for (const char of line) {
+      if (char === ' ') {
+        width++
+      } else if (char === '\t') {
+        width += PineFormatter.indentSize
+      } else {
+        break
+      }
+    }
+    return width
+  }
+}
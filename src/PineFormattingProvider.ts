@@ -0,0 +1,106 @@
+import * as vscode from 'vscode'
+import { PineFormatOptions, PineFormatter } from './PineFormatter'
+
+/** Formats both whole documents and ranges. */
+type PineFormattingEditProvider = vscode.DocumentFormattingEditProvider & vscode.DocumentRangeFormattingEditProvider
+
+/**
+ * The PineFormattingProvider class formats whole documents and selections with PineFormatter.
+ * Options come from the `pinescript.format.*` settings, overridden by the nearest `.pinefmt` JSON file
+ * between the document's folder and its workspace folder.
+ */
+export class PineFormattingProvider implements PineFormattingEditProvider {
+  static readonly configFileName = '.pinefmt'
+
+  /**
+   * Formats a document.
+   * @param document - The document.
+   * @returns The edits, one per changed line.
+   */
+  async provideDocumentFormattingEdits(document: vscode.TextDocument): Promise<vscode.TextEdit[]> {
+    return this.edits(document, new vscode.Range(0, 0, document.lineCount, 0))
+  }
+
+  /**
+   * Formats the lines of a range. The whole document is read, so indentation and alignment follow the
+   * surrounding code, but only lines of the range change.
+   * @param document - The document.
+   * @param range - The range.
+   * @returns The edits, one per changed line.
+   */
+  async provideDocumentRangeFormattingEdits(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+  ): Promise<vscode.TextEdit[]> {
+    return this.edits(document, range)
+  }
+
+  private async edits(document: vscode.TextDocument, range: vscode.Range): Promise<vscode.TextEdit[]> {
+    const options = await this.optionsFor(document)
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n'
+    // A selection that ends at the start of a line does not include that line
+    const last = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line
+    const edits: vscode.TextEdit[] = []
+    PineFormatter.formatLines(document.getText(), options).forEach(({ original, formatted }, line) => {
+      if (line < range.start.line || line > last || line >= document.lineCount || original === formatted) {
+        return
+      }
+      edits.push(vscode.TextEdit.replace(document.lineAt(line).range, formatted.replace(/\n/g, eol)))
+    })
+    return edits
+  }
+
+  /**
+   * Gets the formatting options of a document.
+   * @param document - The document.
+   * @returns The options from the settings and the nearest `.pinefmt` file.
+   */
+  async optionsFor(document: vscode.TextDocument): Promise<Partial<PineFormatOptions>> {
+    const config = vscode.workspace.getConfiguration('pinescript', document.uri)
+    const settings: Partial<PineFormatOptions> = {}
+    for (const key of Object.keys(PineFormatter.defaults) as (keyof PineFormatOptions)[]) {
+      const value = config.get(`format.${key}`)
+      if (value !== undefined) {
+        Object.assign(settings, { [key]: value })
+      }
+    }
+    return { ...settings, ...(await this.readConfigFile(document.uri)) }
+  }
+
+  /**
+   * Reads the nearest `.pinefmt` file, looking in the folder of a document and its parents up to the
+   * workspace folder.
+   * @param uri - The document.
+   * @returns The options in the file, or none if there is no file or it is not valid JSON.
+   */
+  private async readConfigFile(uri: vscode.Uri): Promise<Partial<PineFormatOptions>> {
+    if (uri.scheme !== 'file') {
+      return {}
+    }
+    const root = vscode.workspace.getWorkspaceFolder(uri)?.uri.path
+    let folder = vscode.Uri.joinPath(uri, '..')
+    while (true) {
+      const file = vscode.Uri.joinPath(folder, PineFormattingProvider.configFileName)
+      let content: Uint8Array | undefined
+      try {
+        content = await vscode.workspace.fs.readFile(file)
+      } catch {
+        content = undefined
+      }
+      if (content) {
+        try {
+          const options = JSON.parse(new TextDecoder().decode(content))
+          return typeof options === 'object' && options !== null ? options : {}
+        } catch (error: any) {
+          vscode.window.showWarningMessage(`Ignoring ${file.fsPath}: ${error?.message ?? error}`)
+          return {}
+        }
+      }
+      const parent = vscode.Uri.joinPath(folder, '..')
+      if (!root || folder.path === root || parent.path === folder.path) {
+        return {}
+      }
+      folder = parent
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { PineDocsManager } from '../PineDocsManager'
 import { PineHoverHelpers } from './PineHoverHelpers'
 import { Helpers } from '../PineHelpers'
 import { PineStrings } from '../PineStrings'
+import { Class } from '../PineClass'
 // import { PineConsole } from '../PineConsole'
 
 /** Builds the markdown for the hover provider. */
@@ -445,6 +446,26 @@ export class PineHoverBuildMarkdown {
     }
   }
 
+  /**
+   * Appends the version note of a built-in, e.g. that it is deprecated or only exists in the version of the script.
+   * @param keyedDocs - The PineDocsManager instance.
+   * @param key - The key identifying the symbol.
+   * @param regexId - The regex ID of the symbol.
+   * @returns A promise that resolves to an array containing the version note.
+   */
+  static async appendVersionNote(keyedDocs: PineDocsManager, key: string, regexId: string) {
+    try {
+      const versionNote = regexId === 'param' ? undefined : Class.PineDocsManager.versionNote(keyedDocs?.name ?? key)
+      if (versionNote) {
+        return [`  \n${Helpers.boldWrap(versionNote.deprecated ? 'Deprecated' : 'Version')} - ${versionNote.note}`]
+      }
+      return ['']
+    } catch (error) {
+      console.error(error)
+      return []
+    }
+  }
+
   /**
    * Appends remarks to the markdown.
    * @param keyedDocs - The PineDocsManager instance.
@@ -2,6 +2,7 @@ import * as vscode from 'vscode'
 import { PineDocsManager } from '../PineDocsManager'
 import { VSCode } from '../VSCode'
 import { Helpers } from '../PineHelpers'
+import { Class } from '../PineClass'
 
 /**
  * Represents a hover parameter with documentation and parsing capabilities.
@@ -32,6 +33,7 @@ export class PineHoverParam {
   constructor(argument: string, wordRange: vscode.Range) {
     this.argument = argument
     this.wordRange = wordRange
+    this.docsManager.useVersion(Class.PineDocsManager.version)
   }
 
   /**
@@ -6,6 +6,7 @@ import { PineHoverMethod } from './PineHoverIsMethod'
 import { PineHoverFunction } from './PineHoverIsFunction'
 import { PineHoverParam } from './PineHoverIsParam'
 import { VSCode } from '../VSCode'
+import { Class } from '../PineClass'
 // import { PineConsole } from '../PineConsole'
 
 export class PineHoverProvider implements vscode.HoverProvider {
@@ -40,8 +41,9 @@ export class PineHoverProvider implements vscode.HoverProvider {
     if (CancellationToken.isCancellationRequested) {
       return
     }
-    // Set the current document
+    // Set the current document and the docs of its version
     this.document = document
+    Class.PineDocsManager.useVersionOf(document.getText())
     this.position = position
     this.mapArrayMatrix = ''
 
@@ -388,6 +390,7 @@ export class PineHoverProvider implements vscode.HoverProvider {
     // Assemble an array of promises to execute
     const promises = [
       PineHoverBuildMarkdown.appendSyntax(keyedDocs, key, namespace, regexId, this.mapArrayMatrix),
+      PineHoverBuildMarkdown.appendVersionNote(keyedDocs, key, regexId),
       PineHoverBuildMarkdown.appendDescription(keyedDocs, regexId),
       PineHoverBuildMarkdown.appendParams(keyedDocs),
       PineHoverBuildMarkdown.appendReturns(keyedDocs, regexId),
@@ -0,0 +1,348 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineTypify } from './PineTypify'
+import { PineDocumentSymbolProvider } from './PineDocumentSymbolProvider'
+import {
+  PineAstWalker,
+  PineCallExpression,
+  PineExpression,
+  PineFunctionDeclaration,
+  PineVariableDeclaration,
+} from './PineAst'
+import { PineScopeAnalysis, PineSymbol } from './PineScopeAnalyzer'
+
+/** The settings that turn each kind of hint on or off, under `pinescript.inlayHints`. */
+export interface PineInlayHintsSettings {
+  parameterNames: boolean
+  variableTypes: boolean
+  returnTypes: boolean
+}
+
+/**
+ * The PineInlayHintsProvider class shows the parameter names of positional arguments, e.g. `fastlen:` in
+ * `ta.macd(close, 12, 26, 9)`, the types of declarations without a type, and the return types of user functions.
+ * Parameter names come from the declarations of the script and the `args` of the built-in docs; types from the
+ * scope analysis, the inference of `PineTypify` and the return types in the built-in syntax.
+ */
+export class PineInlayHintsProvider implements vscode.InlayHintsProvider {
+  private changeEmitter = new vscode.EventEmitter<void>()
+  readonly onDidChangeInlayHints = this.changeEmitter.event
+  private typify = new PineTypify()
+
+  /**
+   * Gets which hints are shown.
+   * @returns The settings.
+   */
+  get settings(): PineInlayHintsSettings {
+    const config = vscode.workspace.getConfiguration('pinescript')
+    return {
+      parameterNames: config.get('inlayHints.parameterNames', true),
+      variableTypes: config.get('inlayHints.variableTypes', true),
+      returnTypes: config.get('inlayHints.returnTypes', true),
+    }
+  }
+
+  /** Asks the editor for new hints, e.g. after the settings changed. */
+  refresh(): void {
+    this.changeEmitter.fire()
+  }
+
+  /**
+   * Provides the inlay hints of a range of a document.
+   * @param document - The document.
+   * @param range - The visible range.
+   * @returns The hints.
+   */
+  async provideInlayHints(document: vscode.TextDocument, range: vscode.Range): Promise<vscode.InlayHint[]> {
+    const settings = this.settings
+    if (!settings.parameterNames && !settings.variableTypes && !settings.returnTypes) {
+      return []
+    }
+    const text = document.getText()
+    const { script } = Class.PineParser.parseScript(text)
+    const analysis = Class.PineParser.analyzeScript(text)
+    const from = document.offsetAt(range.start)
+    const to = document.offsetAt(range.end)
+    const hints: vscode.InlayHint[] = []
+
+    const nodes: (PineCallExpression | PineVariableDeclaration | PineFunctionDeclaration)[] = []
+    PineAstWalker.walk(script, (node) => {
+      if (node.end < from || node.start > to) {
+        return
+      }
+      if (node.kind === 'CallExpression' && settings.parameterNames) {
+        nodes.push(node as PineCallExpression)
+      } else if (node.kind === 'VariableDeclaration' && settings.variableTypes) {
+        nodes.push(node as PineVariableDeclaration)
+      } else if (node.kind === 'FunctionDeclaration' && settings.returnTypes) {
+        nodes.push(node as PineFunctionDeclaration)
+      }
+    })
+
+    for (const node of nodes) {
+      if (node.kind === 'CallExpression') {
+        hints.push(...this.parameterHints(document, node, analysis))
+      } else if (node.kind === 'VariableDeclaration') {
+        if (node.typeAnnotation) {
+          continue
+        }
+        const type = await this.declarationType(node, text, analysis)
+        if (type) {
+          const hint = new vscode.InlayHint(document.positionAt(node.name.start), type, vscode.InlayHintKind.Type)
+          hint.paddingRight = true
+          hints.push(hint)
+        }
+      } else {
+        const type = await this.returnType(node, text, analysis)
+        const arrow = text.lastIndexOf('=>', node.body.start)
+        const paren = text.lastIndexOf(')', arrow)
+        if (type && arrow > node.name.end && paren >= node.name.end) {
+          hints.push(new vscode.InlayHint(document.positionAt(paren + 1), `: ${type}`, vscode.InlayHintKind.Type))
+        }
+      }
+    }
+    return hints
+  }
+
+  /**
+   * Creates the parameter name hints of the positional arguments of a call.
+   * Arguments that already read as the parameter, such as `length` passed to `length`, get no hint.
+   * @param document - The document.
+   * @param call - The call.
+   * @param analysis - The scope analysis of the script.
+   * @returns The hints.
+   */
+  private parameterHints(
+    document: vscode.TextDocument,
+    call: PineCallExpression,
+    analysis: PineScopeAnalysis,
+  ): vscode.InlayHint[] {
+    const positional = call.args.filter((arg) => !arg.name)
+    if (positional.length === 0) {
+      return []
+    }
+    const named = call.args.flatMap((arg) => (arg.name ? [arg.name.name] : []))
+    const params = this.userParameters(call, analysis) ?? this.builtInParameters(call, positional.length, named)
+    if (!params) {
+      return []
+    }
+    const hints: vscode.InlayHint[] = []
+    positional.forEach((arg, index) => {
+      const param = params[index]
+      const value = arg.value
+      const valueName =
+        value.kind === 'Identifier' ? value.name : value.kind === 'MemberExpression' && value.property.name
+      if (!param || param === '...' || valueName === param) {
+        return
+      }
+      const hint = new vscode.InlayHint(document.positionAt(arg.start), `${param}:`, vscode.InlayHintKind.Parameter)
+      hint.paddingRight = true
+      hints.push(hint)
+    })
+    return hints
+  }
+
+  /**
+   * Gets the parameter names of a call to a user function or method, or the field names of `Type.new()`.
+   * @param call - The call.
+   * @param analysis - The scope analysis of the script.
+   * @returns The names, or undefined if the callee is not declared in the script.
+   */
+  private userParameters(call: PineCallExpression, analysis: PineScopeAnalysis): string[] | undefined {
+    const symbolAt = (start: number) => analysis.references.find((reference) => reference.start === start)?.symbol
+    const { callee } = call
+    let symbol: PineSymbol | undefined
+    let isMethodCall = false
+    if (callee.kind === 'Identifier') {
+      symbol = symbolAt(callee.start)
+    } else if (callee.kind === 'MemberExpression') {
+      const object = callee.object.kind === 'Identifier' ? symbolAt(callee.object.start) : undefined
+      if (callee.property.name === 'new' && object?.kind === 'type') {
+        symbol = object
+      } else {
+        symbol = symbolAt(callee.property.start)
+        isMethodCall = symbol?.kind === 'method'
+      }
+    }
+    if (!symbol || !['function', 'method', 'type'].includes(symbol.kind)) {
+      return undefined
+    }
+    const names = symbol.members.map((member) => member.name)
+    // The object of `points.add(p)` is the first parameter of the method
+    return isMethodCall ? names.slice(1) : names
+  }
+
+  /**
+   * Gets the parameter names of a call to a built-in function or method from the overloads in its syntax,
+   * taking the first overload that fits the arguments. Methods called on a value only get names when every
+   * built-in method of that name agrees on them.
+   * @param call - The call.
+   * @param count - The number of positional arguments.
+   * @param named - The names of the named arguments.
+   * @returns The names, or undefined if the callee is not a documented built-in.
+   */
+  private builtInParameters(call: PineCallExpression, count: number, named: string[]): string[] | undefined {
+    const name = PineDocumentSymbolProvider.calleeName(call)
+    const fits = (params: string[]) =>
+      (params.length >= count || params.includes('...')) && named.every((arg) => params.includes(arg))
+    const doc = name && this.functionDoc(name, call)
+    if (doc) {
+      return PineInlayHintsProvider.overloads(doc).find(fits)
+    }
+    if (call.callee.kind !== 'MemberExpression') {
+      return undefined
+    }
+    const methodName = call.callee.property.name
+    const candidates = Class.PineDocsManager.getDocs('methods')
+      .filter((method: any) => method?.methodName === methodName)
+      .map((method: any) =>
+        PineInlayHintsProvider.overloads(method)
+          .map((params) => params.slice(1))
+          .find(fits),
+      )
+    if (candidates.length === 0 || candidates.some((params: string[] | undefined) => !params)) {
+      return undefined
+    }
+    const [first, ...others] = candidates as string[][]
+    return first.map((param, index) => (others.every((params) => params[index] === param) ? param : ''))
+  }
+
+  /**
+   * Finds the docs of a built-in function, including generic ones such as `array.new<float>`.
+   * @param name - The dotted name of the callee.
+   * @param call - The call, for its type arguments.
+   * @returns The docs, or undefined if the function is not documented.
+   */
+  private functionDoc(name: string, call?: PineCallExpression): any | undefined {
+    const docs = Class.PineDocsManager.getDocs('functions', 'methods')
+    const typeArguments = call?.typeArguments.map((type) => PineAstWalker.typeToString(type)).join(',')
+    return (
+      (typeArguments && docs.find((doc: any) => doc?.name === `${name}<${typeArguments}>`)) ||
+      docs.find((doc: any) => doc?.name === name) ||
+      (call?.typeArguments.length ? docs.find((doc: any) => doc?.name?.startsWith(`${name}<`)) : undefined)
+    )
+  }
+
+  /**
+   * Lists the parameter names of each overload in the syntax of a built-in, e.g. both forms of `box.new`.
+   * @param doc - The docs of the function or method.
+   * @returns The parameter names per overload, or the documented `args` if the syntax has none.
+   */
+  static overloads(doc: any): string[][] {
+    const overloads = String(doc?.syntax ?? '')
+      .split('\n')
+      .map((line) => /\(([^()]*)\)/.exec(line)?.[1])
+      .filter((params): params is string => params !== undefined)
+      .map((params) =>
+        params
+          .split(',')
+          .map((param) => param.trim())
+          .filter(Boolean),
+      )
+    return overloads.length ? overloads : [(doc?.args ?? []).map((arg: any) => arg.name)]
+  }
+
+  /**
+   * Infers the type of a declaration without a type.
+   * @param declaration - The declaration.
+   * @param text - The script.
+   * @param analysis - The scope analysis of the script.
+   * @returns The type, or undefined if it cannot be inferred.
+   */
+  private async declarationType(
+    declaration: PineVariableDeclaration,
+    text: string,
+    analysis: PineScopeAnalysis,
+  ): Promise<string | undefined> {
+    const symbol = analysis.symbols.find((s) => s.kind === 'variable' && s.nameNode === declaration.name)
+    return symbol?.type ?? this.expressionType(declaration.init, text, analysis)
+  }
+
+  /**
+   * Infers the return type of a user function from its last statement.
+   * @param declaration - The function declaration.
+   * @param text - The script.
+   * @param analysis - The scope analysis of the script.
+   * @param depth - How many functions deep the inference already is, against recursion.
+   * @returns The type, or undefined if it cannot be inferred.
+   */
+  private async returnType(
+    declaration: PineFunctionDeclaration,
+    text: string,
+    analysis: PineScopeAnalysis,
+    depth = 0,
+  ): Promise<string | undefined> {
+    const last = declaration.body.body[declaration.body.body.length - 1]
+    if (!last || depth > 3) {
+      return undefined
+    }
+    if (last.kind === 'VariableDeclaration') {
+      return last.typeAnnotation
+        ? PineAstWalker.typeToString(last.typeAnnotation)
+        : this.declarationType(last, text, analysis)
+    }
+    if (last.kind !== 'ExpressionStatement') {
+      return undefined
+    }
+    const expression = last.expression
+    if (expression.kind === 'Identifier') {
+      const reference = analysis.references.find((r) => r.start === expression.start)
+      if (reference?.symbol.type) {
+        return reference.symbol.type
+      }
+    }
+    return this.expressionType(expression, text, analysis, depth)
+  }
+
+  /**
+   * Infers the type of an expression: calls from the return types of user functions and built-ins, anything
+   * else with `PineTypify`.
+   * @param expression - The expression.
+   * @param text - The script.
+   * @param analysis - The scope analysis of the script.
+   * @param depth - How many functions deep the inference already is.
+   * @returns The type, or undefined if it cannot be inferred.
+   */
+  private async expressionType(
+    expression: PineExpression,
+    text: string,
+    analysis: PineScopeAnalysis,
+    depth = 0,
+  ): Promise<string | undefined> {
+    if (expression.kind === 'CallExpression') {
+      const { callee } = expression
+      const calleeStart = callee.kind === 'MemberExpression' ? callee.property.start : callee.start
+      const symbol = analysis.references.find((reference) => reference.start === calleeStart)?.symbol
+      if (symbol && (symbol.kind === 'function' || symbol.kind === 'method')) {
+        return this.returnType(symbol.node as PineFunctionDeclaration, text, analysis, depth + 1)
+      }
+      const name = PineDocumentSymbolProvider.calleeName(expression)
+      if (name && ['array.new', 'matrix.new', 'map.new'].includes(name) && expression.typeArguments.length) {
+        const typeArguments = expression.typeArguments.map((type) => PineAstWalker.typeToString(type))
+        return `${name.split('.')[0]}<${typeArguments.join(', ')}>`
+      }
+      return name ? this.builtInReturnType(name) : undefined
+    }
+    return (await this.typify.inferType(text.slice(expression.start, expression.end))) ?? undefined
+  }
+
+  /**
+   * Reads the return type of a built-in function from its syntax, without the qualifier, e.g. `float` for
+   * `ta.sma()`. Functions whose overloads disagree, generic, tuple, `void` and union returns give none.
+   * @param name - The function name.
+   * @returns The type, or undefined.
+   */
+  private builtInReturnType(name: string): string | undefined {
+    const returns = new Set(
+      String(this.functionDoc(name)?.syntax ?? '')
+        .split('\n')
+        .map((line) => /→\s*(.+)$/.exec(line)?.[1]?.trim())
+        .map((type) => type?.replace(/^(const|input|simple|series)\s+/, '')),
+    )
+    const [type] = returns
+    if (returns.size !== 1 || !type || type === 'void' || /[[|]|\btype\b|keyType|valueType/.test(type)) {
+      return undefined
+    }
+    return type
+  }
+}
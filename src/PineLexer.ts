@@ -0,0 +1,273 @@
+/** The kinds of tokens produced by PineLexer. */
+export type PineTokenKind =
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  | 'color'
+  | 'operator'
+  | 'punctuation'
+  | 'comment'
+  | 'newline'
+  | 'indent'
+  | 'dedent'
+  | 'invalid'
+  | 'eof'
+
+/**
+ * A token of Pine Script source.
+ * Offsets index into the original text, `end` is exclusive. `line` and `column` are 0-based.
+ */
+export interface PineToken {
+  kind: PineTokenKind
+  value: string
+  start: number
+  end: number
+  line: number
+  column: number
+}
+
+/** The result of tokenizing a script. Comments are kept apart from the token stream the parser consumes. */
+export interface PineLexResult {
+  tokens: PineToken[]
+  comments: PineToken[]
+  lineStarts: number[]
+}
+
+/**
+ * PineLexer turns Pine Script source into tokens.
+ *
+ * Layout follows Pine's rules: a line indented by a multiple of 4 spaces (a tab counts as 4) starts a new
+ * statement, and `indent`/`dedent` tokens mark block boundaries. Lines indented by any other amount, and lines
+ * inside open parentheses or brackets, continue the previous line and produce no `newline` token.
+ */
+export class PineLexer {
+  /** Reserved words of the language. Contextual words such as `to`, `by`, `in`, `as` and qualifiers stay identifiers. */
+  static readonly keywords: Set<string> = new Set([
+    'and',
+    'or',
+    'not',
+    'if',
+    'else',
+    'for',
+    'while',
+    'switch',
+    'var',
+    'varip',
+    'import',
+    'export',
+    'type',
+    'enum',
+    'method',
+    'true',
+    'false',
+    'continue',
+    'break',
+  ])
+
+  /** Operators, longest first so that e.g. `:=` wins over `:`. */
+  static readonly operators: string[] = [
+    ':=',
+    '+=',
+    '-=',
+    '*=',
+    '/=',
+    '%=',
+    '==',
+    '!=',
+    '<=',
+    '>=',
+    '=>',
+    '=',
+    '<',
+    '>',
+    '+',
+    '-',
+    '*',
+    '/',
+    '%',
+    '?',
+    ':',
+  ]
+
+  private text: string
+  private pos = 0
+  private line = 0
+  private lineStart = 0
+  private depth = 0
+  private indents: number[] = [0]
+  private tokens: PineToken[] = []
+  private comments: PineToken[] = []
+  private lineStarts: number[] = [0]
+
+  constructor(text: string) {
+    this.text = text
+  }
+
+  /**
+   * Tokenizes a script.
+   * @param text - The script source.
+   * @returns The tokens, comments and line start offsets.
+   */
+  static tokenize(text: string): PineLexResult {
+    return new PineLexer(text).tokenize()
+  }
+
+  /**
+   * Tokenizes the source this lexer was created with.
+   * @returns The tokens, comments and line start offsets.
+   */
+  tokenize(): PineLexResult {
+    let atLineStart = true
+    while (this.pos < this.text.length) {
+      if (atLineStart) {
+        atLineStart = false
+        this.handleIndentation()
+      }
+      const char = this.text[this.pos]
+      if (char === '\n' || char === '\r') {
+        this.consumeLineBreak()
+        atLineStart = true
+      } else if (char === ' ' || char === '\t') {
+        this.pos++
+      } else if (char === '/' && this.text[this.pos + 1] === '/') {
+        this.comments.push(this.readWhile('comment', (c) => c !== '\n' && c !== '\r'))
+      } else if (char === '"' || char === "'") {
+        this.tokens.push(this.readString(char))
+      } else if (char === '#') {
+        this.tokens.push(this.readWhile('color', (c, i) => i === 0 || /[0-9a-fA-F]/.test(c)))
+      } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(this.text[this.pos + 1] ?? ''))) {
+        this.tokens.push(this.readNumber())
+      } else if (/[A-Za-z_]/.test(char)) {
+        const token = this.readWhile('identifier', (c) => /\w/.test(c))
+        if (PineLexer.keywords.has(token.value)) {
+          token.kind = 'keyword'
+        }
+        this.tokens.push(token)
+      } else if ('()[],.'.includes(char)) {
+        this.depth += '(['.includes(char) ? 1 : ')]'.includes(char) ? -1 : 0
+        this.depth = Math.max(this.depth, 0)
+        this.tokens.push(this.makeToken('punctuation', this.pos, this.pos + 1))
+        this.pos++
+      } else {
+        const operator = PineLexer.operators.find((op) => this.text.startsWith(op, this.pos))
+        const length = operator?.length ?? 1
+        this.tokens.push(this.makeToken(operator ? 'operator' : 'invalid', this.pos, this.pos + length))
+        this.pos += length
+      }
+    }
+    this.endLogicalLine()
+    while (this.indents.length > 1) {
+      this.indents.pop()
+      this.tokens.push(this.makeToken('dedent', this.pos, this.pos))
+    }
+    this.tokens.push(this.makeToken('eof', this.pos, this.pos))
+    return { tokens: this.tokens, comments: this.comments, lineStarts: this.lineStarts }
+  }
+
+  /**
+   * Decides whether the line at the current position starts a new statement and emits the layout tokens.
+   * Blank lines, comment-only lines and continuation lines leave the layout alone.
+   */
+  private handleIndentation() {
+    let width = 0
+    let i = this.pos
+    while (i < this.text.length && (this.text[i] === ' ' || this.text[i] === '\t')) {
+      width += this.text[i] === '\t' ? 4 : 1
+      i++
+    }
+    const rest = this.text[i]
+    const blank = rest === undefined || rest === '\n' || rest === '\r'
+    const commentOnly = rest === '/' && this.text[i + 1] === '/'
+    if (!blank && !commentOnly && width === 0) {
+      // Continuation lines are always indented, so a line at column 0 closes any bracket left open above it
+      this.depth = 0
+    }
+    if (blank || commentOnly || this.depth > 0 || (width % 4 !== 0 && this.tokens.length > 0)) {
+      this.pos = i
+      return
+    }
+    this.endLogicalLine()
+    const current = this.indents[this.indents.length - 1]
+    if (width > current) {
+      this.indents.push(width)
+      this.tokens.push(this.makeToken('indent', i, i))
+    } else {
+      while (width < this.indents[this.indents.length - 1]) {
+        this.indents.pop()
+        this.tokens.push(this.makeToken('dedent', i, i))
+      }
+    }
+    this.pos = i
+  }
+
+  /** Emits a `newline` token unless the previous token already ends a logical line. */
+  private endLogicalLine() {
+    const last = this.tokens[this.tokens.length - 1]
+    if (last && last.kind !== 'newline' && last.kind !== 'indent' && last.kind !== 'dedent') {
+      this.tokens.push(this.makeToken('newline', last.end, last.end))
+    }
+  }
+
+  /** Consumes a `\n`, `\r\n` or `\r` line break and records the start of the next line. */
+  private consumeLineBreak() {
+    if (this.text[this.pos] === '\r' && this.text[this.pos + 1] === '\n') {
+      this.pos++
+    }
+    this.pos++
+    this.line++
+    this.lineStart = this.pos
+    this.lineStarts.push(this.pos)
+  }
+
+  /** Reads a string literal, stopping at the closing quote or the end of the line. */
+  private readString(quote: string): PineToken {
+    const start = this.pos
+    let i = this.pos + 1
+    while (i < this.text.length && this.text[i] !== quote && this.text[i] !== '\n' && this.text[i] !== '\r') {
+      i += this.text[i] === '\\' ? 2 : 1
+    }
+    const end = this.text[i] === quote ? i + 1 : Math.min(i, this.text.length)
+    this.pos = end
+    return this.makeToken('string', start, end)
+  }
+
+  /** Reads an int or float literal, including exponents. */
+  private readNumber(): PineToken {
+    const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(this.text.slice(this.pos, this.pos + 64))
+    const start = this.pos
+    this.pos += match ? match[0].length : 1
+    return this.makeToken('number', start, this.pos)
+  }
+
+  /** Reads characters while the predicate holds. */
+  private readWhile(kind: PineTokenKind, predicate: (char: string, index: number) => boolean): PineToken {
+    const start = this.pos
+    while (this.pos < this.text.length && predicate(this.text[this.pos], this.pos - start)) {
+      this.pos++
+    }
+    return this.makeToken(kind, start, this.pos)
+  }
+
+  /** Builds a token for the given span of the current line. */
+  private makeToken(kind: PineTokenKind, start: number, end: number): PineToken {
+    const onCurrentLine = start >= this.lineStart
+    return {
+      kind,
+      value: this.text.slice(start, end),
+      start,
+      end,
+      line: onCurrentLine ? this.line : this.lineOf(start),
+      column: onCurrentLine ? start - this.lineStart : start - this.lineStarts[this.lineOf(start)],
+    }
+  }
+
+  /** Finds the line of an offset on an earlier line. */
+  private lineOf(offset: number): number {
+    let line = this.lineStarts.length - 1
+    while (line > 0 && this.lineStarts[line] > offset) {
+      line--
+    }
+    return line
+  }
+}
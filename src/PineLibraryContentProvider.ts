@@ -0,0 +1,46 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+
+/**
+ * The PineLibraryContentProvider class shows the source of imported libraries as read-only virtual documents.
+ * The sources are the ones PineParser fetched for the imports of the active script.
+ */
+export class PineLibraryContentProvider implements vscode.TextDocumentContentProvider {
+  static readonly scheme = 'pine-library'
+
+  /**
+   * Builds the URI of a library's virtual document.
+   * @param lib - The library as stored by PineParser.
+   * @returns The URI, e.g. `pine-library:/alias.pine?id`.
+   */
+  static uriFor(lib: { id: string; alias: string }): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: PineLibraryContentProvider.scheme,
+      path: `/${lib.alias}.pine`,
+      query: lib.id,
+    })
+  }
+
+  /**
+   * Finds a fetched library by its import alias.
+   * @param alias - The import alias.
+   * @returns The library with its source, or undefined if it has not been fetched.
+   */
+  static libraryFor(alias: string): { id: string; alias: string; script: string } | undefined {
+    const libs = Class.PineParser.libs
+    return Array.isArray(libs)
+      ? libs.find((lib: any) => lib.alias === alias && typeof lib.script === 'string')
+      : undefined
+  }
+
+  /**
+   * Provides the source of a library document.
+   * @param uri - The URI built by `uriFor`.
+   * @returns The library source, or a note that it is not available.
+   */
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const libs = Class.PineParser.libs
+    const lib = Array.isArray(libs) ? libs.find((item: any) => item.id === uri.query) : undefined
+    return lib?.script ?? `// The source of library ${uri.query} has not been fetched yet.`
+  }
+}
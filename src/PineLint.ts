@@ -1,16 +1,40 @@
-import { debounce } from 'lodash'
+import { debounce, DebouncedFunc } from 'lodash'
 import * as vscode from 'vscode'
 import { VSCode } from './VSCode'
 import { Class } from './PineClass'
+import { PineLintMessage, PineLocalLintResponse } from './PineLocalLint'
+import { PineLintCore, PineLintProblem, PineLintRange, PineLintRuleSetting, PineLintSeverity } from './PineLintCore'
+/** When documents are linted: while typing, on save, after typing stops for a while, or only on request. */
+export type PineLintTrigger = 'onType' | 'onSave' | 'onIdle' | 'manual'
+
+/** The lint state of one document. */
+export interface PineLintState {
+  /** The `//@version` of the script, or null if it has none. */
+  version: string | null
+  /** The title given in the declaration statement. */
+  fileName: string | null
+  /** The document version the script version was detected for. */
+  versionChecked?: number
+  /** The document version the diagnostics were computed for. */
+  linted?: number
+  /** Cancels the lint request in flight. */
+  request?: AbortController
+  /** The response of the last lint, reused when the document becomes active again. */
+  response?: any
+  /** The diagnostics of the last lint. */
+  diagnostics: vscode.Diagnostic[]
+}
+
 /**
  * PineLint class is responsible for linting Pine Script code.
+ * Lint state is kept per document URI, so every open Pine document is linted and keeps its own diagnostics.
  */
 export class PineLint {
-  static diagnostics: vscode.Diagnostic[] = []
+  static states: Map<string, PineLintState> = new Map()
   static initialFlag: boolean = true
-  static version: string | null = null
-  static fileName: string | null = null
   static diagnosticCollection: vscode.DiagnosticCollection
+  /** The debounced lint of each document, with the delay it was created with. */
+  private static pending: Map<string, { wait: number; lint: DebouncedFunc<() => Promise<void>> }> = new Map()
 
   /**
    * Getter for DiagnosticCollection.
@@ -24,20 +48,49 @@ export class PineLint {
   }
 
   /**
-   * Sets the file name.
+   * Checks whether a document is a Pine Script file that can be linted.
+   * @param document - The document to check.
+   * @returns True if the document is a Pine Script file on disk.
+   */
+  static isPineDocument(document: vscode.TextDocument | undefined): document is vscode.TextDocument {
+    return document?.languageId === 'pine' && document.uri.scheme === 'file'
+  }
+
+  /**
+   * Gets the lint state of a document, creating it if it doesn't exist.
+   * @param uri - The URI of the document.
+   * @returns The lint state.
+   */
+  static stateFor(uri: vscode.Uri): PineLintState {
+    const key = uri.toString()
+    let state = PineLint.states.get(key)
+    if (!state) {
+      state = { version: null, fileName: null, diagnostics: [] }
+      PineLint.states.set(key, state)
+    }
+    return state
+  }
+
+  /**
+   * Sets the file name of a document.
+   * @param uri - The URI of the document.
    * @param fileName - The name of the file.
    */
-  static setFileName(fileName: string): void {
-    PineLint.fileName = fileName
+  static setFileName(uri: vscode.Uri, fileName: string): void {
+    PineLint.stateFor(uri).fileName = fileName
   }
 
   /**
-   * Gets the file name.
+   * Gets the file name of a document.
+   * @param document - The document, the active one by default.
    * @returns The file name.
    */
-  static async getFileName(): Promise<string | null> {
-    await PineLint.checkVersion()
-    return PineLint.fileName
+  static async getFileName(document: vscode.TextDocument | undefined = VSCode.Document): Promise<string | null> {
+    if (!document) {
+      return null
+    }
+    await PineLint.checkVersion(document)
+    return PineLint.stateFor(document.uri).fileName
   }
 
   /**
@@ -55,191 +108,382 @@ export class PineLint {
    */
   static setDiagnostics(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): void {
     PineLint.DiagnosticCollection.set(uri, diagnostics)
-    PineLint.diagnostics = diagnostics
+    PineLint.stateFor(uri).diagnostics = diagnostics
   }
 
   /**
-   * Gets the current diagnostics.
+   * Gets the diagnostics of a document.
+   * @param uri - The URI of the document, the active one by default.
    * @returns The diagnostics if they exist.
    */
-  static getDiagnostics(): vscode.Diagnostic[] | undefined {
-    return PineLint.diagnostics.length > 0 ? PineLint.diagnostics : undefined
+  static getDiagnostics(uri: vscode.Uri | undefined = VSCode.Uri): vscode.Diagnostic[] | undefined {
+    const diagnostics = uri ? PineLint.states.get(uri.toString())?.diagnostics : undefined
+    return diagnostics && diagnostics.length > 0 ? diagnostics : undefined
   }
 
   /**
-   * Performs initial linting if the initialFlag is true.
+   * Performs initial linting of all open Pine documents if the initialFlag is true.
+   * Nothing is linted when the lint trigger is manual.
    */
   static async initialLint(): Promise<void> {
     if (PineLint.initialFlag) {
       PineLint.initialFlag = false
-      PineLint.lint()
+      if (PineLint.trigger !== 'manual') {
+        PineLint.lintOpenDocuments()
+      }
     }
   }
 
   /**
-   * Lints the active document if it exists and the version is correct.
+   * Lints every open Pine document in the background.
    */
-  static async lintDocument(): Promise<void> {
-    if (VSCode.ActivePineFile && !PineLint.initialFlag && (await PineLint.checkVersion())) {
-      const response = await Class.PineRequest.lint()
-      if (response) {
-        PineLint.handleResponse(response)
-        PineLint.format(response)
+  static lintOpenDocuments(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      if (PineLint.isPineDocument(document)) {
+        PineLint.lintCachedOrLater(document)
       }
     }
   }
 
   /**
-   * Debounced version of the lintDocument method.
+   * Lints a document right away if pine-facade's response for its text is cached, otherwise debounced.
+   * @param document - The document to lint.
+   */
+  static async lintCachedOrLater(document: vscode.TextDocument): Promise<void> {
+    const cached = PineLint.lintSource !== 'local' && (await Class.PineRequest.cachedLint(document.getText()))
+    if (cached && !document.isClosed) {
+      PineLint.pending.get(document.uri.toString())?.lint.cancel()
+      await PineLint.lintDocument(document)
+    } else {
+      PineLint.lint(document)
+    }
+  }
+
+  /**
+   * Gets the configured lint source: the pine-facade service, the local linter, or both merged.
+   * @returns The lint source setting.
+   */
+  static get lintSource(): 'remote' | 'local' | 'merged' {
+    return vscode.workspace.getConfiguration('pinescript').get('lint.source', 'remote')
+  }
+
+  /**
+   * Gets the configured lint trigger.
+   * @returns The lint trigger setting.
+   */
+  static get trigger(): PineLintTrigger {
+    return vscode.workspace.getConfiguration('pinescript').get('lint.trigger', 'onType')
+  }
+
+  /**
+   * Gets the delay after the last change before a document is linted: the debounce while typing,
+   * or the idle delay when linting after typing stops.
+   * @returns The delay in milliseconds.
    */
-  static lint = debounce(
-    async () => {
-      PineLint.lintDocument()
-    },
-    500,
-    { leading: false, trailing: true },
-  )
+  static get triggerDelay(): number {
+    const config = vscode.workspace.getConfiguration('pinescript')
+    return PineLint.trigger === 'onIdle' ? config.get('lint.idleDelay', 5000) : config.get('lint.debounce', 500)
+  }
 
   /**
-   * Updates the diagnostics for the active document.
-   * @param dataGroups - The groups of data to update the diagnostics with.
+   * Gets the configured severities of the lint rules, by rule ID.
+   * @returns The rule settings, `off` for rules that are turned off.
    */
-  static async updateDiagnostics(...dataGroups: any[][]): Promise<void> {
-    const activeEditor = vscode.window.activeTextEditor
-    if (!activeEditor) {
+  static get ruleSettings(): Record<string, PineLintRuleSetting> {
+    return vscode.workspace.getConfiguration('pinescript').get('lint.rules', {})
+  }
+
+  /**
+   * Lints a document if the version is correct and publishes the diagnostics for its URI.
+   * The local linter also runs when the version or declaration statement is missing, so it can report them.
+   * Only the active document's response feeds the docs used by completions and hovers.
+   * @param document - The document to lint, the active one by default.
+   */
+  static async lintDocument(document: vscode.TextDocument | undefined = VSCode.Document): Promise<void> {
+    if (!PineLint.isPineDocument(document) || PineLint.initialFlag) {
       return
     }
-    const documentUri = activeEditor.document.uri
-    const targetEditor = vscode.window.visibleTextEditors.find(
-      (editor) => editor.document.uri.toString() === documentUri.toString(),
-    )
-    if (!targetEditor) {
+    const state = PineLint.stateFor(document.uri)
+    const documentVersion = document.version
+    const source = PineLint.lintSource
+    const validVersion = await PineLint.checkVersion(document)
+    if (!validVersion && (source === 'remote' || state.version !== null)) {
       return
     }
 
-    const diagnostics: vscode.Diagnostic[] = []
-    const errorDecorationRanges: vscode.Range[] = []
-    const warningDecorationRanges: vscode.Range[] = []
-    let i = 0
-    for (const group of dataGroups) {
-      i += 1
-      if (!group || group.length === 0) {
-        // Corrected condition to skip EMPTY groups only
-        continue // Skip to next group if current group is empty
+    const text = document.getText()
+    state.request?.abort()
+    const request = new AbortController()
+    state.request = request
+    const remote = source !== 'local' && validVersion ? await Class.PineRequest.lint(text, request.signal) : undefined
+    if (state.request === request) {
+      state.request = undefined
+    }
+    const local = source !== 'remote' ? Class.PineLocalLint.lint(text) : undefined
+    // The document was closed or edited meanwhile, so these results are stale
+    if (document.isClosed || document.version !== documentVersion) {
+      return
+    }
+    const response = PineLint.mergeResponses(remote, local)
+    if (response) {
+      state.linted = documentVersion
+      state.response = remote ?? response
+      PineLint.handleResponse(response, document.uri, text)
+      if (VSCode.Document === document) {
+        PineLint.format(state.response)
       }
+    }
+  }
 
-      for (const data of group) {
-        // Now, this loop WILL execute for non-empty groups
-        const { end, message, start } = data
-        const range = new vscode.Range(start.line - 1, start.column - 1, end.line - 1, end.column)
-
-        let severity: vscode.DiagnosticSeverity
-        if (i == 1 || i == 3) {
-          severity = vscode.DiagnosticSeverity.Error
-        } else if (i == 2 || i == 4) {
-          severity = vscode.DiagnosticSeverity.Warning
-        } else {
-          severity = vscode.DiagnosticSeverity.Information
-        }
-        if (message.includes('calculation')) {
-          severity = vscode.DiagnosticSeverity.Warning
-        }
-
-        diagnostics.push(new vscode.Diagnostic(range, message, severity))
+  /**
+   * Handles a document becoming the active one.
+   * The docs are rebuilt from the last response if the document hasn't changed since, otherwise it is linted again
+   * when the lint trigger lints on changes.
+   * @param document - The document that became active.
+   */
+  static handleActiveDocument(document: vscode.TextDocument): void {
+    const state = PineLint.states.get(document.uri.toString())
+    if (state?.response && state.linted === document.version) {
+      PineLint.format(state.response)
+    } else if (PineLint.trigger === 'onType' || PineLint.trigger === 'onIdle') {
+      PineLint.lintCachedOrLater(document)
+    }
+  }
+
+  /**
+   * Merges local lint findings into a pine-facade response.
+   * Local findings on lines the remote response already reports are dropped, as pine-facade is authoritative.
+   * @param remote - The pine-facade response, if any.
+   * @param local - The local lint response, if any.
+   * @returns The merged response.
+   */
+  static mergeResponses(remote: any, local: PineLocalLintResponse | undefined): any {
+    if (!local) {
+      return remote
+    }
+    if (!remote?.result) {
+      return local
+    }
+    const remoteErrors = remote.result.errors2 || remote.reason2?.errors || []
+    const remoteWarnings = remote.result.warnings2 || remote.reason2?.warnings || []
+    const reportedLines = new Set(
+      [...remoteErrors, ...remoteWarnings, ...(remote.result.errors || []), ...(remote.result.warnings || [])].map(
+        (item: any) => item.start?.line,
+      ),
+    )
+    const unreported = (items: PineLintMessage[]) => items.filter((item) => !reportedLines.has(item.start.line))
+    return {
+      ...remote,
+      result: {
+        ...remote.result,
+        errors2: [...remoteErrors, ...unreported(local.result.errors2)],
+        warnings2: [...remoteWarnings, ...unreported(local.result.warnings2)],
+      },
+    }
+  }
+
+  /**
+   * Debounced version of the lintDocument method, debounced separately for each document.
+   * @param document - The document to lint, the active one by default.
+   * @param wait - The delay in milliseconds, the one of the lint trigger by default.
+   */
+  static lint(document: vscode.TextDocument | undefined = VSCode.Document, wait: number = PineLint.triggerDelay): void {
+    if (!PineLint.isPineDocument(document)) {
+      return
+    }
+    const key = document.uri.toString()
+    let pending = PineLint.pending.get(key)
+    if (pending?.wait !== wait) {
+      pending?.lint.cancel()
+      pending = {
+        wait,
+        lint: debounce(() => PineLint.lintDocument(document), wait, { leading: false, trailing: true }),
       }
+      PineLint.pending.set(key, pending)
     }
+    pending.lint()
+  }
 
-    const uri = VSCode.Uri
-    if (uri) {
-      PineLint.setDiagnostics(uri, diagnostics)
+  /**
+   * Lints a document right away, whatever the lint trigger, and publishes the diagnostics.
+   * @param document - The document to lint, the active one by default.
+   */
+  static async forceLint(document: vscode.TextDocument | undefined = VSCode.Document): Promise<void> {
+    if (!PineLint.isPineDocument(document)) {
+      return
     }
+    PineLint.pending.get(document.uri.toString())?.lint.cancel()
+    PineLint.initialFlag = false
+    await PineLint.lintDocument(document)
+  }
+
+  /**
+   * Updates the diagnostics of a document.
+   * @param uri - The URI of the document.
+   * @param response - The response from the linting process.
+   * @param text - The linted text, used to find the related locations of diagnostics.
+   */
+  static async updateDiagnostics(uri: vscode.Uri, response: any, text?: string): Promise<void> {
+    PineLint.setDiagnostics(uri, PineLint.toDiagnostics(response, uri, text))
   }
+
   /**
-   * Handles the response from the linting process.
+   * Converts a lint response into diagnostics, applying the configured rule severities.
    * @param response - The response from the linting process.
+   * @param uri - The URI of the linted document.
+   * @param text - The linted text, used to find the related locations of diagnostics.
+   * @returns The diagnostics.
    */
-  static async handleResponse(response: any): Promise<void> {
-    if (VSCode.ActivePineEditor) {
-      PineLint.updateDiagnostics(
-        response.result?.errors2 || response.reason2?.errors || [],
-        response.result?.warnings2 || response.reason2?.warnings || [],
-        response.result?.errors || [],
-        response.result?.warnings || [],
+  static toDiagnostics(response: any, uri: vscode.Uri, text?: string): vscode.Diagnostic[] {
+    return PineLintCore.problemsOf(response, text, PineLint.ruleSettings).map((problem) =>
+      PineLint.toDiagnostic(problem, uri),
+    )
+  }
+
+  /**
+   * Converts a lint problem into a diagnostic, with its rule ID as code, its source, tags and related locations.
+   * @param problem - The problem, with 1-based lines and columns.
+   * @param uri - The URI of the document the related locations are in.
+   * @returns The diagnostic.
+   */
+  static toDiagnostic(problem: PineLintProblem, uri: vscode.Uri): vscode.Diagnostic {
+    const toRange = (range: PineLintRange) =>
+      new vscode.Range(range.line - 1, range.column - 1, range.endLine - 1, range.endColumn)
+    const severities: Record<PineLintSeverity, vscode.DiagnosticSeverity> = {
+      error: vscode.DiagnosticSeverity.Error,
+      warning: vscode.DiagnosticSeverity.Warning,
+      information: vscode.DiagnosticSeverity.Information,
+      hint: vscode.DiagnosticSeverity.Hint,
+    }
+    const diagnostic = new vscode.Diagnostic(toRange(problem), problem.message, severities[problem.severity])
+    diagnostic.code = problem.code
+    diagnostic.source = problem.source
+    if (problem.tags) {
+      diagnostic.tags = problem.tags.map((tag) =>
+        tag === 'deprecated' ? vscode.DiagnosticTag.Deprecated : vscode.DiagnosticTag.Unnecessary,
+      )
+    }
+    if (problem.related) {
+      diagnostic.relatedInformation = problem.related.map(
+        (related) =>
+          new vscode.DiagnosticRelatedInformation(new vscode.Location(uri, toRange(related)), related.message),
       )
     }
+    return diagnostic
   }
 
   /**
-   * Handles changes to the active document.
+   * Handles the response from the linting process.
+   * @param response - The response from the linting process.
+   * @param uri - The URI of the linted document, the active one by default.
+   * @param text - The linted text, used to find the related locations of diagnostics.
    */
-  static async handleDocumentChange(): Promise<void> {
-    await PineLint.lint()
+  static async handleResponse(response: any, uri: vscode.Uri | undefined = VSCode.Uri, text?: string): Promise<void> {
+    if (uri) {
+      PineLint.updateDiagnostics(uri, response, text)
+    }
   }
 
   /**
-   * Checks the version of PineLint.
-   * @returns A boolean indicating whether the version is valid (5 or 6).
+   * Handles changes to a document, linting it if the lint trigger lints while typing or after typing stops.
+   * @param document - The changed document, the active one by default.
    */
-  static async checkVersion(): Promise<boolean> {
-    if (PineLint.version === '5' || PineLint.version === '6') {
-      return true
+  static async handleDocumentChange(document: vscode.TextDocument | undefined = VSCode.Document): Promise<void> {
+    // The lint request in flight is for an outdated text
+    if (document) {
+      PineLint.states.get(document.uri.toString())?.request?.abort()
+    }
+    if (PineLint.trigger === 'onType' || PineLint.trigger === 'onIdle') {
+      PineLint.lint(document)
     }
+  }
 
-    const version_statement = /\/\/@version=(\d+)/
-    const script_statement =
-      /(?:indicator|strategy|library|study)\s*\((?:(?<!['\"].*)\btitle\s*=)?\s*('[^\']*'|"[^\"]*")/
+  /**
+   * Handles a document being opened, linting it unless the lint trigger is manual.
+   * A cached response is used right away.
+   * @param document - The opened document.
+   */
+  static handleDocumentOpen(document: vscode.TextDocument): void {
+    if (PineLint.trigger !== 'manual') {
+      PineLint.lintCachedOrLater(document)
+    }
+  }
 
-    const document = VSCode?._Document()
-    const replaced = document?.getText().replace(/\r\n/g, '\n')
+  /**
+   * Handles a document being saved, linting it if the lint trigger is on save.
+   * @param document - The saved document.
+   */
+  static handleDocumentSave(document: vscode.TextDocument): void {
+    if (PineLint.trigger === 'onSave') {
+      PineLint.lint(document, 0)
+    }
+  }
 
-    if (!replaced) {
-      return false
+  /**
+   * Handles a change of the lint settings by linting the open documents again, unless the lint trigger is manual.
+   */
+  static handleConfigurationChange(): void {
+    if (PineLint.trigger !== 'manual') {
+      PineLint.lintOpenDocuments()
     }
+  }
 
-    const match = version_statement.exec(replaced)
-    const namematch = script_statement.exec(replaced)
-    if (!match || !match[1]) {
+  /**
+   * Forgets the lint state of a closed document and removes its diagnostics.
+   * @param document - The closed document.
+   */
+  static clear(document: vscode.TextDocument): void {
+    const key = document.uri.toString()
+    PineLint.pending.get(key)?.lint.cancel()
+    PineLint.pending.delete(key)
+    PineLint.states.get(key)?.request?.abort()
+    PineLint.states.delete(key)
+    PineLint.DiagnosticCollection.delete(document.uri)
+  }
+
+  /**
+   * Checks the script version of a document.
+   * The result is cached until the document changes.
+   * @param document - The document to check, the active one by default.
+   * @returns A boolean indicating whether the version is valid (5 or 6).
+   */
+  static async checkVersion(document: vscode.TextDocument | undefined = VSCode.Document): Promise<boolean> {
+    if (!document) {
       return false
     }
+    const state = PineLint.stateFor(document.uri)
+    if (state.versionChecked === document.version) {
+      return state.version === '5' || state.version === '6'
+    }
+    state.versionChecked = document.version
+    state.version = null
 
-    if (namematch) {
-      if (namematch[1]) {
-        PineLint.setFileName(namematch[1])
-      }
-      PineLint.version = match[1]
-
-      if (match[1] === '5' || match[1] === '6') {
-        PineLint.initialLint()
-        return true
-      } else if (match.index) {
-        const matchPosition = document?.positionAt(match.index)
-        const matchEndPosition = document?.positionAt(match.index + 12)
-        const versionMsg = `Must be v5 or v6 for linting with this extension. Can convert v${match[1]} to v5 with the Pine Script Editor on ![TV](www.tradingview.com/pine)`
-
-        if (matchPosition && matchEndPosition) {
-          const errorObj = {
-            result: {
-              errors2: [
-                {
-                  start: { line: matchPosition.line + 1, column: matchPosition.character + 1 },
-                  end: { line: matchEndPosition.line + 1, column: matchEndPosition.character + 1 },
-                  message: versionMsg,
-                },
-              ],
-            },
-          }
-          PineLint.handleResponse(errorObj)
-        }
-        return false
-      }
+    const { version, fileName, valid, problem } = PineLintCore.scriptVersion(document.getText())
+    if (fileName) {
+      PineLint.setFileName(document.uri, fileName)
+    }
+    state.version = version
+    if (problem) {
+      const problems = PineLintCore.applyRuleSettings([problem], PineLint.ruleSettings)
+      PineLint.setDiagnostics(
+        document.uri,
+        problems.map((unsupported) => PineLint.toDiagnostic(unsupported, document.uri)),
+      )
     }
-    return false
+    return valid
   }
 
   /**
-   * Clears the script version for PineLint.
+   * Clears the cached script version of a document, or of all documents.
+   * @param uri - The URI of the document, or undefined for all documents.
    */
-  static versionClear(): void {
-    PineLint.version = null
+  static versionClear(uri?: vscode.Uri): void {
+    const states = uri ? [PineLint.states.get(uri.toString())] : [...PineLint.states.values()]
+    for (const state of states) {
+      if (state) {
+        state.version = null
+        state.versionChecked = undefined
+      }
+    }
   }
 }
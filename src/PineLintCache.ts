@@ -0,0 +1,144 @@
+import * as vscode from 'vscode'
+import { createHash } from 'crypto'
+import { debounce } from 'lodash'
+
+/** The contents of the cache file, least recently used entries first. */
+interface PineLintCacheFile {
+  version: number
+  entries: [string, any][]
+}
+
+/**
+ * The PineLintCache class keeps pine-facade lint responses by a hash of the script, so unchanged scripts are not
+ * sent again when they are reopened or become active. It is a least recently used cache of
+ * `pinescript.lint.cacheSize` entries, stored in the extension's global storage so it survives restarts.
+ */
+export class PineLintCache {
+  /** The format of the cache file, bumped when the stored responses change shape. */
+  static readonly fileVersion = 1
+  static readonly fileName = 'lint-cache.json'
+
+  private storageUri: vscode.Uri | undefined
+  /** The responses by hash; a Map keeps insertion order, so the least recently used entry comes first. */
+  private entries: Map<string, any> = new Map()
+  private loading: Promise<void> | undefined
+  /** Whether the cache changed since it was last written. */
+  private dirty = false
+  /** Writes the cache file a moment after the last change, so a burst of lints is written once. */
+  private scheduleSave = debounce(() => this.save(), 2000)
+
+  /**
+   * @param storageUri - The global storage folder of the extension; without it the cache only lives in memory.
+   */
+  constructor(storageUri?: vscode.Uri) {
+    this.storageUri = storageUri
+  }
+
+  /**
+   * Gets the number of cached responses kept.
+   * @returns The configured cache size, 0 disables the cache.
+   */
+  get size(): number {
+    return Math.max(0, vscode.workspace.getConfiguration('pinescript').get('lint.cacheSize', 50))
+  }
+
+  private get fileUri(): vscode.Uri | undefined {
+    return this.storageUri ? vscode.Uri.joinPath(this.storageUri, PineLintCache.fileName) : undefined
+  }
+
+  /**
+   * Hashes the parts that identify a lint response.
+   * @param parts - The parts, e.g. the pine-facade URL, the script version and the script.
+   * @returns The sha256 hash.
+   */
+  static hash(...parts: string[]): string {
+    return createHash('sha256').update(parts.join('\n')).digest('hex')
+  }
+
+  /**
+   * Gets a cached response and marks it as recently used.
+   * @param key - The hash of the script.
+   * @returns The response, or undefined if it is not cached.
+   */
+  async get(key: string): Promise<any> {
+    if (this.size === 0) {
+      return undefined
+    }
+    await this.load()
+    const response = this.entries.get(key)
+    if (response !== undefined) {
+      this.entries.delete(key)
+      this.entries.set(key, response)
+    }
+    return response
+  }
+
+  /**
+   * Caches a response, dropping the least recently used ones beyond the size limit.
+   * @param key - The hash of the script.
+   * @param response - The lint response.
+   */
+  async set(key: string, response: any): Promise<void> {
+    const size = this.size
+    if (size === 0) {
+      return
+    }
+    await this.load()
+    this.entries.delete(key)
+    this.entries.set(key, response)
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= size) {
+        break
+      }
+      this.entries.delete(oldest)
+    }
+    this.dirty = true
+    this.scheduleSave()
+  }
+
+  /** Reads the cache file once; a missing or unreadable file leaves the cache empty. */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const fileUri = this.fileUri
+        if (!fileUri) {
+          return
+        }
+        try {
+          const file: PineLintCacheFile = JSON.parse(
+            new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri)),
+          )
+          if (file.version === PineLintCache.fileVersion) {
+            // Entries cached meanwhile are more recent than the stored ones
+            this.entries = new Map([...file.entries, ...this.entries])
+          }
+        } catch {
+          // No cache yet
+        }
+      })()
+    }
+    return this.loading
+  }
+
+  /** Writes the cache file. */
+  private async save(): Promise<void> {
+    const fileUri = this.fileUri
+    if (!fileUri || !this.storageUri || !this.dirty) {
+      return
+    }
+    this.dirty = false
+    try {
+      const file: PineLintCacheFile = { version: PineLintCache.fileVersion, entries: [...this.entries] }
+      await vscode.workspace.fs.createDirectory(this.storageUri)
+      await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(JSON.stringify(file)))
+    } catch (error) {
+      console.error('Error saving the lint cache:', error)
+    }
+  }
+
+  /** Writes pending changes right away, e.g. when the extension is deactivated. */
+  async flush(): Promise<void> {
+    this.scheduleSave.cancel()
+    await this.save()
+  }
+}
@@ -0,0 +1,315 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { PineFacadeClient, PineFacadeClientOptions, PineFacadeError, PineFetchTransport } from './PineFacadeClient'
+import { PineFacadeFixtures, PineRecordTransport, PineReplayTransport } from './PineFacadeFixtures'
+import { PineLintCore, PineLintProblem, PineLintRange, PineLintRuleSetting } from './PineLintCore'
+
+/** The output formats of the command line linter. */
+export type PineLintCliFormat = 'human' | 'json' | 'sarif'
+
+/** The lint result of one file. */
+export interface PineLintFileResult {
+  file: string
+  /** The `//@version` of the script, or null if the version or the declaration statement is missing. */
+  version: string | null
+  status: 'linted' | 'skipped' | 'failed'
+  problems: PineLintProblem[]
+  /** Why the file was skipped or failed. */
+  note?: string
+}
+
+/**
+ * The PineLintCli class implements `pine-lint`, a command line linter for pre-commit hooks and CI.
+ * It runs the same pine-facade lint and version check as the extension, without VS Code.
+ */
+export class PineLintCli {
+  static readonly usage = [
+    'Usage: pine-lint [options] <file or directory...>',
+    '',
+    'Lints Pine Script files with the TradingView pine-facade service.',
+    'Directories are searched for .pine, .ps and .pinescript files.',
+    '',
+    'Options:',
+    '  -f, --format <format>  Output format: human (default), json or sarif',
+    '  --base-url <url>       Base URL of pine-facade, e.g. a local mock',
+    '  --proxy <url>          HTTP(S) proxy, HTTPS_PROXY or HTTP_PROXY by default',
+    '  --timeout <ms>         Request timeout in milliseconds (default 15000)',
+    '  --retries <count>      Retries of requests answered with 429 or 5xx (default 2)',
+    '  --rule <id>=<level>    Severity of a rule: error, warning, information, hint or off (repeatable)',
+    '  --record <dir>         Save the pine-facade requests and responses as fixtures in a directory',
+    '  --replay <dir>         Answer the pine-facade requests from the fixtures in a directory, without a network',
+    '  -h, --help             Show this help',
+    '',
+    'Exit codes: 0 no errors, 1 errors found or a file could not be linted, 2 invalid usage.',
+  ].join('\n')
+
+  /** The extensions of Pine Script files. */
+  static readonly extensions = ['.pine', '.ps', '.pinescript']
+
+  /** Formats the results in each output format. */
+  static readonly formatters: Record<PineLintCliFormat, (results: PineLintFileResult[]) => string> = {
+    human: (results) => PineLintCli.toHuman(results),
+    json: (results) => JSON.stringify(results, null, 2),
+    sarif: (results) => JSON.stringify(PineLintCli.toSarif(results), null, 2),
+  }
+
+  /** The severities that can be set for a rule. */
+  static readonly ruleSettings: PineLintRuleSetting[] = ['error', 'warning', 'information', 'hint', 'off']
+
+  private client: PineFacadeClient
+  private rules: Record<string, PineLintRuleSetting>
+
+  constructor(options: PineFacadeClientOptions = {}, rules: Record<string, PineLintRuleSetting> = {}) {
+    this.client = new PineFacadeClient(options)
+    this.rules = rules
+  }
+
+  /**
+   * Runs the linter with command line arguments.
+   * @param args - The arguments, without the node and script paths.
+   * @returns The exit code.
+   */
+  static async run(args: string[]): Promise<number> {
+    let format: PineLintCliFormat = 'human'
+    const options: PineFacadeClientOptions = { proxy: process.env.HTTPS_PROXY || process.env.HTTP_PROXY || undefined }
+    const rules: Record<string, PineLintRuleSetting> = {}
+    let fixtures: { mode: 'record' | 'replay'; directory: string } | undefined
+    const inputs: string[] = []
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i]
+      const [name, inlineValue] = arg.startsWith('--') && arg.includes('=') ? arg.split(/=(.*)/) : [arg, undefined]
+      const value = () => inlineValue ?? args[++i] ?? ''
+      if (name === '-h' || name === '--help') {
+        process.stdout.write(`${PineLintCli.usage}\n`)
+        return 0
+      }
+      if (name === '-f' || name === '--format') {
+        const formatValue = value()
+        if (formatValue !== 'human' && formatValue !== 'json' && formatValue !== 'sarif') {
+          process.stderr.write(`pine-lint: unknown format '${formatValue}'\n\n${PineLintCli.usage}\n`)
+          return 2
+        }
+        format = formatValue
+      } else if (name === '--base-url') {
+        options.baseUrl = value()
+      } else if (name === '--proxy') {
+        options.proxy = value() || undefined
+      } else if (name === '--timeout' || name === '--retries') {
+        const number = Number(value())
+        if (!Number.isInteger(number) || number < 0) {
+          process.stderr.write(`pine-lint: ${name} expects a whole number\n\n${PineLintCli.usage}\n`)
+          return 2
+        }
+        options[name === '--timeout' ? 'timeout' : 'retries'] = number
+      } else if (name === '--record' || name === '--replay') {
+        fixtures = { mode: name === '--record' ? 'record' : 'replay', directory: value() }
+      } else if (name === '--rule') {
+        const [id, setting] = value().split('=')
+        if (!id || !PineLintCli.ruleSettings.includes(setting as PineLintRuleSetting)) {
+          process.stderr.write(`pine-lint: --rule expects <id>=<level>\n\n${PineLintCli.usage}\n`)
+          return 2
+        }
+        rules[id] = setting as PineLintRuleSetting
+      } else if (arg.startsWith('-')) {
+        process.stderr.write(`pine-lint: unknown option '${arg}'\n\n${PineLintCli.usage}\n`)
+        return 2
+      } else {
+        inputs.push(arg)
+      }
+    }
+    if (inputs.length === 0) {
+      process.stderr.write(`${PineLintCli.usage}\n`)
+      return 2
+    }
+    if (fixtures) {
+      const store = new PineFacadeFixtures(fixtures.directory)
+      options.transport =
+        fixtures.mode === 'record'
+          ? new PineRecordTransport(store, new PineFetchTransport(options.proxy))
+          : new PineReplayTransport(store)
+    }
+
+    const files: string[] = []
+    for (const input of inputs) {
+      if (!fs.existsSync(input)) {
+        process.stderr.write(`pine-lint: no such file or directory '${input}'\n`)
+        return 2
+      }
+      files.push(...PineLintCli.collectFiles(input))
+    }
+
+    const cli = new PineLintCli(options, rules)
+    const results: PineLintFileResult[] = []
+    for (const file of files) {
+      results.push(await cli.lintFile(file))
+    }
+
+    // Machine-readable output keeps stdout parseable, so skipped files are reported on stderr as well
+    for (const result of results.filter(({ status }) => status === 'skipped')) {
+      process.stderr.write(`pine-lint: skipped '${result.file}' (${result.note})\n`)
+    }
+    process.stdout.write(`${PineLintCli.formatters[format](results)}\n`)
+
+    const failed = results.some(
+      (result) => result.status === 'failed' || result.problems.some((problem) => problem.severity === 'error'),
+    )
+    return failed ? 1 : 0
+  }
+
+  /**
+   * Lists the Pine Script files of a path.
+   * @param input - A file, which is returned as is, or a directory, which is searched recursively.
+   * @returns The files, sorted.
+   */
+  static collectFiles(input: string): string[] {
+    if (!fs.statSync(input).isDirectory()) {
+      return [input]
+    }
+    const files: string[] = []
+    for (const entry of fs.readdirSync(input, { withFileTypes: true })) {
+      const entryPath = path.join(input, entry.name)
+      if (entry.isDirectory()) {
+        if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+          files.push(...PineLintCli.collectFiles(entryPath))
+        }
+      } else if (PineLintCli.extensions.includes(path.extname(entry.name))) {
+        files.push(entryPath)
+      }
+    }
+    return files.sort()
+  }
+
+  /**
+   * Lints one file.
+   * Scripts of an unsupported version get the same error as in the editor; scripts without a version or
+   * declaration statement are skipped.
+   * @param file - The path of the file.
+   * @returns The result of the file.
+   */
+  async lintFile(file: string): Promise<PineLintFileResult> {
+    const text = fs.readFileSync(file, 'utf8')
+    const { version, valid, problem } = PineLintCore.scriptVersion(text)
+    if (problem) {
+      return { file, version, status: 'linted', problems: PineLintCore.applyRuleSettings([problem], this.rules) }
+    }
+    if (!valid) {
+      return { file, version, status: 'skipped', problems: [], note: 'no //@version or declaration statement' }
+    }
+    try {
+      const response = await this.client.lint(text)
+      if (!response) {
+        return { file, version, status: 'failed', problems: [], note: 'no result from pine-facade' }
+      }
+      const problems = PineLintCli.sortProblems(PineLintCore.problemsOf(response, text, this.rules))
+      return { file, version, status: 'linted', problems }
+    } catch (error) {
+      const note = error instanceof PineFacadeError ? error.message : String(error)
+      return { file, version, status: 'failed', problems: [], note }
+    }
+  }
+
+  /**
+   * Sorts problems by position, so the output does not depend on the order pine-facade reports them in.
+   * @param problems - The problems.
+   * @returns The problems, sorted by line, then column, then rule.
+   */
+  static sortProblems(problems: PineLintProblem[]): PineLintProblem[] {
+    return [...problems].sort((a, b) => a.line - b.line || a.column - b.column || a.code.localeCompare(b.code))
+  }
+
+  /**
+   * Formats results as `file:line:column: severity: message [rule]` lines followed by a summary.
+   * @param results - The results.
+   * @returns The text.
+   */
+  static toHuman(results: PineLintFileResult[]): string {
+    const lines: string[] = []
+    let errors = 0
+    let warnings = 0
+    for (const result of results) {
+      if (result.note) {
+        lines.push(`${result.file}: ${result.status} (${result.note})`)
+      }
+      for (const problem of result.problems) {
+        errors += problem.severity === 'error' ? 1 : 0
+        warnings += problem.severity === 'warning' ? 1 : 0
+        lines.push(
+          `${result.file}:${problem.line}:${problem.column}: ${problem.severity}: ${problem.message} [${problem.code}]`,
+        )
+      }
+    }
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+    const skipped = results.filter((result) => result.status === 'skipped').length
+    const summary = `${plural(errors, 'error')}, ${plural(warnings, 'warning')} in ${plural(results.length, 'file')}`
+    lines.push(skipped ? `${summary} (${skipped} skipped)` : summary)
+    return lines.join('\n')
+  }
+
+  /**
+   * Formats results as a SARIF 2.1.0 log, e.g. for GitHub code scanning.
+   * @param results - The results.
+   * @returns The SARIF log.
+   */
+  static toSarif(results: PineLintFileResult[]): any {
+    const level = { error: 'error', warning: 'warning', information: 'note', hint: 'note' }
+    const toRegion = (range: PineLintRange) => ({
+      startLine: range.line,
+      startColumn: range.column,
+      endLine: range.endLine,
+      // SARIF end columns are exclusive
+      endColumn: range.endColumn + 1,
+    })
+    return {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'pine-lint',
+              informationUri: 'https://github.com/kaigouthro/Pine-Script-VS-Code',
+              rules: PineLintCore.rules.map((rule) => ({ id: rule.id, shortDescription: { text: rule.description } })),
+            },
+          },
+          invocations: [
+            {
+              executionSuccessful: results.every((result) => result.status !== 'failed'),
+              toolExecutionNotifications: results
+                .filter((result) => result.note)
+                .map((result) => ({
+                  level: result.status === 'failed' ? 'error' : 'warning',
+                  message: { text: `${result.status}: ${result.note}` },
+                  locations: [
+                    { physicalLocation: { artifactLocation: { uri: result.file.split(path.sep).join('/') } } },
+                  ],
+                })),
+            },
+          ],
+          results: results.flatMap((result) =>
+            result.problems.map((problem) => ({
+              ruleId: problem.code,
+              level: level[problem.severity],
+              message: { text: problem.message },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: result.file.split(path.sep).join('/') },
+                    region: toRegion(problem),
+                  },
+                },
+              ],
+              relatedLocations: problem.related?.map((related, id) => ({
+                id,
+                message: { text: related.message },
+                physicalLocation: {
+                  artifactLocation: { uri: result.file.split(path.sep).join('/') },
+                  region: toRegion(related),
+                },
+              })),
+            })),
+          ),
+        },
+      ],
+    }
+  }
+}
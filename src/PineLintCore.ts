@@ -0,0 +1,345 @@
+import { PineAstParser } from './PineAstParser'
+import { PineScopeAnalyzer } from './PineScopeAnalyzer'
+
+/** The severity of a lint problem. */
+export type PineLintSeverity = 'error' | 'warning' | 'information' | 'hint'
+
+/** The configured severity of a lint rule, or `off` to drop its problems. */
+export type PineLintRuleSetting = PineLintSeverity | 'off'
+
+/** Where a lint problem comes from: the pine-facade service or the local linter. */
+export type PineLintSource = 'pine-facade' | 'local'
+
+/** A tag rendered by the editor, e.g. as strike-through for deprecated code or faded out for unnecessary code. */
+export type PineLintTag = 'deprecated' | 'unnecessary'
+
+/** A range with 1-based lines and columns; the end column is inclusive, as pine-facade reports it. */
+export interface PineLintRange {
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+}
+
+/** A location related to a lint problem, such as the original declaration of a redeclared name. */
+export interface PineLintRelated extends PineLintRange {
+  message: string
+}
+
+/** A lint problem. */
+export interface PineLintProblem extends PineLintRange {
+  message: string
+  severity: PineLintSeverity
+  /** The ID of the rule the problem belongs to. */
+  code: string
+  source: PineLintSource
+  tags?: PineLintTag[]
+  related?: PineLintRelated[]
+}
+
+/** A lint rule, recognized by the message of its problems. */
+export interface PineLintRule {
+  id: string
+  pattern: RegExp
+  description: string
+  /** The severity of the rule's problems; without it, the severity of the group they are reported in. */
+  severity?: PineLintSeverity
+  tags?: PineLintTag[]
+  /** Describes the related location of a problem, for rules whose message names a previous declaration. */
+  related?: (name: string) => string
+}
+
+/** The script version and title found in a script. */
+export interface PineScriptVersion {
+  /** The `//@version`, or null if the version or the declaration statement is missing. */
+  version: string | null
+  /** The title given in the declaration statement. */
+  fileName: string | null
+  /** Whether the version can be linted (5 or 6). */
+  valid: boolean
+  /** The problem reported for an unsupported version. */
+  problem?: PineLintProblem
+}
+
+/**
+ * PineLintCore holds the parts of linting that don't depend on the VS Code API:
+ * the normalisation of pine-facade responses and the detection of the script version.
+ * PineLint and the command line linter both build on it.
+ */
+export class PineLintCore {
+  /** The lint rules, the first one whose pattern matches a message applies. */
+  static readonly rules: PineLintRule[] = [
+    {
+      id: 'unsupported-version',
+      pattern: /Must be v5 or v6/,
+      description: 'The script version is not 5 or 6.',
+      severity: 'error',
+    },
+    {
+      id: 'missing-version',
+      pattern: /missing the '\/\/@version' annotation/,
+      description: 'The `//@version` annotation is missing.',
+    },
+    {
+      id: 'missing-declaration',
+      pattern: /missing a declaration statement/,
+      description: 'The `indicator()`, `strategy()` or `library()` declaration statement is missing.',
+    },
+    {
+      id: 'syntax-error',
+      pattern: /Syntax error|Mismatched input|no viable alternative/i,
+      description: 'The script cannot be parsed.',
+    },
+    {
+      id: 'undeclared-identifier',
+      pattern: /Undeclared identifier/,
+      description: 'A name is used that is not declared.',
+    },
+    {
+      id: 'unknown-function',
+      pattern: /Could not find function/,
+      description: 'A function is called that does not exist.',
+    },
+    {
+      id: 'unknown-argument',
+      pattern: /does not have an argument with the name/,
+      description: 'A named argument is passed that the function does not have.',
+    },
+    {
+      id: 'too-many-arguments',
+      pattern: /Too many arguments/,
+      description: 'A function is called with more arguments than it takes.',
+    },
+    {
+      id: 'missing-arguments',
+      pattern: /Missing required arguments/,
+      description: 'A function is called without some of its required arguments.',
+    },
+    {
+      id: 'redeclaration',
+      pattern: /already (?:been )?(?:declared|defined)|redeclar/i,
+      description: 'A name is declared again in the same scope.',
+      related: (name) => `'${name}' is first declared here`,
+    },
+    {
+      id: 'shadowing',
+      pattern: /Shadowing variable/i,
+      description: 'A variable hides a variable of an enclosing scope.',
+      related: (name) => `The shadowed '${name}' is declared here`,
+    },
+    {
+      id: 'deprecated',
+      pattern: /deprecated/i,
+      description: 'A deprecated function, variable or argument is used.',
+      tags: ['deprecated'],
+    },
+    {
+      id: 'unused',
+      pattern: /never used|is not used|unused/i,
+      description: 'A declaration or value is not used.',
+      tags: ['unnecessary'],
+    },
+    {
+      id: 'calculation',
+      pattern: /calculation/,
+      description: 'A calculation may give unexpected results, e.g. because it runs on every bar.',
+      severity: 'warning',
+    },
+    {
+      id: 'type-mismatch',
+      pattern: /Cannot call .* with argument|of type .* (?:is not|cannot be)|type mismatch/i,
+      description: 'A value has the wrong type.',
+    },
+  ]
+
+  /**
+   * Finds the rule of a message.
+   * @param message - The message of a problem.
+   * @returns The rule, or undefined if no rule matches.
+   */
+  static ruleOf(message: string): PineLintRule | undefined {
+    return PineLintCore.rules.find((rule) => rule.pattern.test(message))
+  }
+
+  /**
+   * Gets the groups of lint messages of a response.
+   * @param response - The response from the linting process.
+   * @returns The errors2, warnings2, errors and warnings groups.
+   */
+  static responseGroups(response: any): any[][] {
+    return [
+      response.result?.errors2 || response.reason2?.errors || [],
+      response.result?.warnings2 || response.reason2?.warnings || [],
+      response.result?.errors || [],
+      response.result?.warnings || [],
+    ]
+  }
+
+  /**
+   * Converts groups of lint messages into problems.
+   * The first and third groups are errors, the second and fourth warnings, unless the rule of a message says otherwise.
+   * Messages no rule matches get the code `other-error` or `other-warning`.
+   * Messages of the local linter are marked with `source: 'local'`, all others come from pine-facade.
+   * @param dataGroups - The errors2, warnings2, errors and warnings groups of a lint response.
+   * @returns The problems.
+   */
+  static problemsFrom(...dataGroups: any[][]): PineLintProblem[] {
+    const problems: PineLintProblem[] = []
+    dataGroups.forEach((group, index) => {
+      for (const { start, end, message, source } of group ?? []) {
+        const groupSeverity: PineLintSeverity =
+          index === 0 || index === 2 ? 'error' : index === 1 || index === 3 ? 'warning' : 'information'
+        const rule = PineLintCore.ruleOf(message)
+        const problem: PineLintProblem = {
+          line: start.line,
+          column: start.column,
+          endLine: end.line,
+          endColumn: end.column,
+          message,
+          severity: rule?.severity ?? groupSeverity,
+          code: rule?.id ?? `other-${groupSeverity}`,
+          source: source === 'local' ? 'local' : 'pine-facade',
+        }
+        if (rule?.tags) {
+          problem.tags = [...rule.tags]
+        }
+        problems.push(problem)
+      }
+    })
+    return problems
+  }
+
+  /**
+   * Applies the configured severities of the rules to problems.
+   * @param problems - The problems.
+   * @param settings - The severity of each configured rule ID, or `off` to drop the rule's problems.
+   * @returns The problems of the rules that are not turned off.
+   */
+  static applyRuleSettings(
+    problems: PineLintProblem[],
+    settings: Record<string, PineLintRuleSetting> = {},
+  ): PineLintProblem[] {
+    const result: PineLintProblem[] = []
+    for (const problem of problems) {
+      const setting = settings[problem.code]
+      if (setting === 'off') {
+        continue
+      }
+      result.push(setting ? { ...problem, severity: setting } : problem)
+    }
+    return result
+  }
+
+  /**
+   * Adds the related locations of problems whose rule refers to a previous declaration, e.g. for redeclarations.
+   * The script is only parsed if such a problem exists.
+   * @param problems - The problems.
+   * @param text - The linted script.
+   * @returns The problems, with their related locations.
+   */
+  static relate(problems: PineLintProblem[], text: string): PineLintProblem[] {
+    if (!problems.some((problem) => PineLintCore.ruleOf(problem.message)?.related)) {
+      return problems
+    }
+    const source = text.replace(/\r\n/g, '\n')
+    const { symbols } = PineScopeAnalyzer.analyze(PineAstParser.parse(source).script)
+    const lineStarts = [0]
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') {
+        lineStarts.push(i + 1)
+      }
+    }
+    const toPosition = (offset: number) => {
+      let line = 0
+      while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+        line++
+      }
+      return { line: line + 1, column: offset - lineStarts[line] + 1 }
+    }
+
+    return problems.map((problem) => {
+      const describe = PineLintCore.ruleOf(problem.message)?.related
+      const name = /['"`]([A-Za-z_]\w*)['"`]/.exec(problem.message)?.[1]
+      if (!describe || !name) {
+        return problem
+      }
+      const offset = (lineStarts[problem.line - 1] ?? 0) + problem.column - 1
+      // The first declaration of the name before the problem, other than the one the problem points at
+      const declaration = symbols
+        .filter((symbol) => symbol.name === name && symbol.nameNode.start < offset)
+        .filter((symbol) => toPosition(symbol.nameNode.start).line !== problem.line)
+        .sort((a, b) => a.nameNode.start - b.nameNode.start)[0]
+      if (!declaration) {
+        return problem
+      }
+      const start = toPosition(declaration.nameNode.start)
+      const end = toPosition(Math.max(declaration.nameNode.end - 1, declaration.nameNode.start))
+      return {
+        ...problem,
+        related: [
+          { line: start.line, column: start.column, endLine: end.line, endColumn: end.column, message: describe(name) },
+        ],
+      }
+    })
+  }
+
+  /**
+   * Converts a lint response into problems.
+   * @param response - The response from the linting process.
+   * @param text - The linted script, used to find the related locations of problems.
+   * @param settings - The configured severities of the rules.
+   * @returns The problems.
+   */
+  static problemsOf(response: any, text?: string, settings?: Record<string, PineLintRuleSetting>): PineLintProblem[] {
+    const problems = PineLintCore.applyRuleSettings(
+      PineLintCore.problemsFrom(...PineLintCore.responseGroups(response)),
+      settings,
+    )
+    return text !== undefined ? PineLintCore.relate(problems, text) : problems
+  }
+
+  /**
+   * Detects the script version and the title of a script.
+   * @param text - The script.
+   * @returns The version, the title, whether the version can be linted and, if not, the problem to report.
+   */
+  static scriptVersion(text: string): PineScriptVersion {
+    const version_statement = /\/\/@version=(\d+)/
+    const script_statement =
+      /(?:indicator|strategy|library|study)\s*\((?:(?<!['\"].*)\btitle\s*=)?\s*('[^\']*'|"[^\"]*")/
+
+    const replaced = text.replace(/\r\n/g, '\n')
+    const match = version_statement.exec(replaced)
+    const namematch = script_statement.exec(replaced)
+    if (!match || !match[1] || !namematch) {
+      return { version: null, fileName: null, valid: false }
+    }
+
+    const version = match[1]
+    const fileName = namematch[1] ?? null
+    if (version === '5' || version === '6') {
+      return { version, fileName, valid: true }
+    }
+    const before = replaced.slice(0, match.index)
+    const line = before.split('\n').length
+    const column = match.index - before.lastIndexOf('\n')
+    return {
+      version,
+      fileName,
+      valid: false,
+      problem: {
+        line,
+        column,
+        endLine: line,
+        endColumn: column + 12,
+        message:
+          version === '3' || version === '4'
+            ? `Must be v5 or v6 for linting with this extension. Convert v${version} to v5 with the quick fix, or with the Pine Script Editor on ![TV](www.tradingview.com/pine)`
+            : `Must be v5 or v6 for linting with this extension. Can convert v${version} to v5 with the Pine Script Editor on ![TV](www.tradingview.com/pine)`,
+        severity: 'error',
+        code: 'unsupported-version',
+        source: 'local',
+      },
+    }
+  }
+}
@@ -0,0 +1,517 @@
+import { Class } from './PineClass'
+import { PineDocsManager } from './PineDocsManager'
+
+/** A single lint finding, shaped like the `errors2`/`warnings2` entries returned by pine-facade. */
+export interface PineLintMessage {
+  start: { line: number; column: number }
+  end: { line: number; column: number }
+  message: string
+  /** Marks the findings of the local linter once they are merged into a pine-facade response. */
+  source?: 'local'
+}
+
+/** Local lint results, shaped like a `translate_light` response so PineLint can handle both alike. */
+export interface PineLocalLintResponse {
+  result: {
+    errors2: PineLintMessage[]
+    warnings2: PineLintMessage[]
+  }
+}
+
+/** Argument limits of a callable, `max` is `Infinity` for variadic built-ins. */
+interface CallSignature {
+  max: number
+  required: string[]
+  argNames: string[]
+}
+
+/**
+ * PineLocalLint is a rule-based linter that runs without the pine-facade service.
+ * It uses PineParser and the built-in docs of PineDocsManager to report undeclared identifiers,
+ * unknown built-in functions, wrong argument counts and missing `//@version` / declaration statements.
+ */
+export class PineLocalLint {
+  /** Language keywords that are never reported as undeclared identifiers. */
+  static readonly keywords: string[] = [
+    'if',
+    'else',
+    'for',
+    'to',
+    'by',
+    'in',
+    'while',
+    'switch',
+    'var',
+    'varip',
+    'import',
+    'export',
+    'as',
+    'type',
+    'enum',
+    'method',
+    'and',
+    'or',
+    'not',
+    'true',
+    'false',
+    'continue',
+    'break',
+    'const',
+    'simple',
+    'series',
+  ]
+
+  private docsManager: PineDocsManager
+  /** The built-in sets, keyed by the version of the docs they were built from. */
+  private builtInNames: Map<string, Set<string>> = new Map()
+  private builtInSignatures: Map<string, Map<string, CallSignature>> = new Map()
+  private builtInNamespaces: Map<string, Set<string>> = new Map()
+
+  constructor(docsManager: PineDocsManager) {
+    this.docsManager = docsManager
+  }
+
+  /**
+   * Lints a Pine Script source against the built-in docs of its `//@version`.
+   * @param source - The script text.
+   * @returns The findings, shaped like a pine-facade lint response.
+   */
+  lint(source: string): PineLocalLintResponse {
+    const text = source.replace(/\r\n/g, '\n')
+    this.docsManager.useVersionOf(text)
+    const masked = PineLocalLint.maskSource(text)
+    const lineStarts = PineLocalLint.lineStarts(text)
+    const errors: PineLintMessage[] = []
+    const report = (offset: number, length: number, message: string) => {
+      errors.push(PineLocalLint.message(lineStarts, offset, length, message))
+    }
+
+    this.checkStatements(text, masked, report)
+
+    const declarations = this.collectDeclarations(text, masked)
+    this.checkCalls(masked, declarations, report)
+    this.checkIdentifiers(masked, declarations, report)
+
+    errors.sort((a, b) => a.start.line - b.start.line || a.start.column - b.start.column)
+    return { result: { errors2: errors, warnings2: [] } }
+  }
+
+  /**
+   * Replaces the contents of comments and string literals with spaces, keeping offsets and newlines intact.
+   * @param text - The script text.
+   * @returns The masked text.
+   */
+  static maskSource(text: string): string {
+    let out = ''
+    let i = 0
+    while (i < text.length) {
+      const char = text[i]
+      if (char === '/' && text[i + 1] === '/') {
+        const end = text.indexOf('\n', i)
+        const stop = end === -1 ? text.length : end
+        out += ' '.repeat(stop - i)
+        i = stop
+      } else if (char === '"' || char === "'") {
+        let j = i + 1
+        while (j < text.length && text[j] !== char && text[j] !== '\n') {
+          j += text[j] === '\\' ? 2 : 1
+        }
+        j = Math.min(j, text.length - 1)
+        out += char + ' '.repeat(Math.max(j - i - 1, 0)) + (text[j] === char ? char : ' ')
+        i = j + 1
+      } else {
+        out += char
+        i += 1
+      }
+    }
+    return out
+  }
+
+  /**
+   * Computes the offset at which each line of the text starts.
+   * @param text - The script text.
+   * @returns The line start offsets.
+   */
+  static lineStarts(text: string): number[] {
+    const starts = [0]
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        starts.push(i + 1)
+      }
+    }
+    return starts
+  }
+
+  /**
+   * Builds a lint message with 1-based line/column positions, as pine-facade reports them.
+   * @param lineStarts - The line start offsets of the text.
+   * @param offset - The offset of the first character.
+   * @param length - The length of the flagged text.
+   * @param message - The message.
+   * @returns The lint message.
+   */
+  static message(lineStarts: number[], offset: number, length: number, message: string): PineLintMessage {
+    const toPosition = (at: number) => {
+      let line = 0
+      while (line + 1 < lineStarts.length && lineStarts[line + 1] <= at) {
+        line++
+      }
+      return { line: line + 1, column: at - lineStarts[line] + 1 }
+    }
+    const start = toPosition(offset)
+    const end = toPosition(offset + Math.max(length, 1) - 1)
+    return { start, end, message, source: 'local' }
+  }
+
+  /**
+   * Reports a missing `//@version` annotation or declaration statement.
+   */
+  private checkStatements(
+    text: string,
+    masked: string,
+    report: (offset: number, length: number, message: string) => void,
+  ) {
+    if (!/\/\/@version=\d+/.test(text)) {
+      report(0, 1, "Script is missing the '//@version' annotation")
+    }
+    if (!/^(?:indicator|strategy|library)\s*\(/m.test(masked)) {
+      report(0, 1, "Script is missing a declaration statement: 'indicator()', 'strategy()' or 'library()'")
+    }
+  }
+
+  /**
+   * Collects every name the script declares, together with the signatures of its user functions.
+   * Declarations are gathered file-wide, without scoping, so that only names which are declared nowhere get reported.
+   */
+  private collectDeclarations(text: string, masked: string) {
+    const names = new Set<string>()
+    const aliases = new Set<string>()
+    const types = new Set<string>()
+    const functions = new Map<string, CallSignature[]>()
+    const methods = new Map<string, CallSignature[]>()
+
+    for (const match of masked.matchAll(/^\s*import\s+([\w$]+)\/([\w$]+)\/\d+(?:\s+as\s+(\w+))?/gm)) {
+      aliases.add(match[3] ?? match[2])
+    }
+    for (const match of masked.matchAll(/^(?:export\s+)?(?:type|enum)\s+([A-Za-z_]\w*)/gm)) {
+      types.add(match[1])
+    }
+
+    for (const func of Class.PineParser.extractFunctions(text)) {
+      names.add(func.originalName)
+      const args: any[] = func.args ?? []
+      for (const arg of args) {
+        names.add(arg.name)
+      }
+      const signature: CallSignature = {
+        max: args.length,
+        required: args.filter((arg) => arg.required).map((arg) => arg.name),
+        argNames: args.map((arg) => arg.name),
+      }
+      const target = func.method ? methods : functions
+      target.set(func.originalName, [...(target.get(func.originalName) ?? []), signature])
+    }
+
+    // Definitions that the function pattern does not pick up (e.g. multi-line parameter lists).
+    for (const match of masked.matchAll(/^(?:export\s+)?(?:method\s+)?([A-Za-z_]\w*)\s*\(([^()]*)\)\s*=>/gm)) {
+      names.add(match[1])
+      for (const param of match[2].split(',')) {
+        const name = /([A-Za-z_]\w*)\s*(?:=.*)?$/.exec(param.trim())?.[1]
+        if (name) {
+          names.add(name)
+        }
+      }
+    }
+
+    const declarationPatterns = [
+      // `[var|varip] [type] name = ...`
+      /^\s*(?:(?:var|varip|const|export)\s+)*(?:[A-Za-z_][\w.]*(?:<[^<>]*>)?(?:\[\])?\s+)?([A-Za-z_]\w*)\s*=(?![=>])/gm,
+      // `for i = ...` and `for v in ...`
+      /\bfor\s+([A-Za-z_]\w*)\s*(?:=|in\b)/gm,
+    ]
+    for (const pattern of declarationPatterns) {
+      for (const match of masked.matchAll(pattern)) {
+        names.add(match[1])
+      }
+    }
+    // `[a, b] = ...` and `for [i, v] in ...`
+    for (const match of masked.matchAll(/(?:^\s*|\bfor\s+)\[([^\]]+)\]\s*(?:=|in\b)/gm)) {
+      for (const name of match[1].split(',')) {
+        names.add(name.trim())
+      }
+    }
+
+    return { names, aliases, types, functions, methods }
+  }
+
+  /**
+   * Lazily builds the set of built-in names that may start an expression: keywords, types,
+   * variables, constants, functions and the namespaces these live in.
+   */
+  private get BuiltInNames(): Set<string> {
+    let names = this.builtInNames.get(this.docsManager.version)
+    if (!names) {
+      names = new Set<string>(PineLocalLint.keywords)
+      const docs = this.docsManager.getDocs('types', 'controls', 'variables', 'constants', 'functions', 'methods')
+      for (const doc of docs as any[]) {
+        const name = /^[A-Za-z_]\w*/.exec(doc?.name ?? '')?.[0]
+        if (name) {
+          names.add(name)
+        }
+      }
+      this.builtInNames.set(this.docsManager.version, names)
+    }
+    return names
+  }
+
+  /**
+   * Checks whether a name is a keyword, or a built-in type, variable, constant, function or namespace.
+   * @param name - The name to check.
+   * @returns True if the name is reserved by the language.
+   */
+  isBuiltIn(name: string): boolean {
+    return this.BuiltInNames.has(name) || this.BuiltInNamespaces.has(name)
+  }
+
+  /**
+   * Lazily builds the argument limits of every built-in function and method from the overloads in their syntax.
+   */
+  private get BuiltInSignatures(): Map<string, CallSignature> {
+    let signatures = this.builtInSignatures.get(this.docsManager.version)
+    if (!signatures) {
+      signatures = new Map<string, CallSignature>()
+      for (const doc of this.docsManager.getDocs('functions', 'methods') as any[]) {
+        if (!doc?.name) {
+          continue
+        }
+        let max = 0
+        for (const overload of String(doc.syntax ?? '').split('\n')) {
+          const params = /\(([^()]*)\)/.exec(overload)?.[1]?.trim()
+          if (params === undefined) {
+            continue
+          }
+          if (params.includes('...')) {
+            max = Infinity
+            break
+          }
+          max = Math.max(max, params ? params.split(',').length : 0)
+        }
+        const argNames = (doc.args ?? []).map((arg: any) => arg.name)
+        // The `required` flags of built-in docs merge all overloads, so only the upper bound is checked.
+        signatures.set(doc.name, { max: Math.max(max, argNames.length), required: [], argNames })
+      }
+      this.builtInSignatures.set(this.docsManager.version, signatures)
+    }
+    return signatures
+  }
+
+  /**
+   * Lazily builds the set of namespaces that built-in functions live in, e.g. `ta` or `array`.
+   */
+  private get BuiltInNamespaces(): Set<string> {
+    let namespaces = this.builtInNamespaces.get(this.docsManager.version)
+    if (!namespaces) {
+      const dotted = [...this.BuiltInSignatures.keys()].filter((name) => name.includes('.'))
+      namespaces = new Set(dotted.map((name) => name.split('.')[0]))
+      this.builtInNamespaces.set(this.docsManager.version, namespaces)
+    }
+    return namespaces
+  }
+
+  /**
+   * Looks up a built-in function, normalizing generic type arguments such as `array.new<MyType>`.
+   * @param name - The called name, including any generic type arguments.
+   * @returns The built-in signature if one exists.
+   */
+  private findBuiltIn(name: string): CallSignature | undefined {
+    const signatures = this.BuiltInSignatures
+    const compact = name.replace(/\s+/g, '')
+    const generic = /^([\w.]+)<([^<>]*)>$/.exec(compact)
+    if (!generic) {
+      return signatures.get(compact)
+    }
+    const typeArgs = generic[2].split(',').map(() => 'type')
+    return (
+      signatures.get(compact) ?? signatures.get(`${generic[1]}<${typeArgs.join(',')}>`) ?? signatures.get(generic[1])
+    )
+  }
+
+  /**
+   * Checks every call for unknown functions, unknown named arguments and wrong argument counts.
+   */
+  private checkCalls(
+    masked: string,
+    declarations: ReturnType<PineLocalLint['collectDeclarations']>,
+    report: (offset: number, length: number, message: string) => void,
+  ) {
+    const callPattern = /(?<![\w.#])([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)(\s*<\s*[\w.]+(?:\s*,\s*[\w.]+)?\s*>)?\s*\(/g
+    for (const match of masked.matchAll(callPattern)) {
+      const [whole, callee, generic] = match
+      const offset = match.index ?? 0
+      if (PineLocalLint.keywords.includes(callee)) {
+        continue
+      }
+      const args = PineLocalLint.splitArguments(masked, offset + whole.length)
+      if (!args || /^\s*=>/.test(masked.slice(args.end + 1))) {
+        continue // Unterminated call or a function definition
+      }
+
+      const segments = callee.split('.')
+      const head = segments[0]
+      let signatures: CallSignature[] | undefined
+      let receiverArgs = 0
+
+      if (segments.length === 1) {
+        signatures = declarations.functions.get(callee)
+        const builtIn = this.findBuiltIn(callee + (generic ?? ''))
+        if (!signatures && builtIn) {
+          signatures = [builtIn]
+        }
+        if (!signatures) {
+          if (!declarations.names.has(callee) && !declarations.types.has(callee)) {
+            report(offset, callee.length, `Could not find function or function reference '${callee}'`)
+          }
+          continue
+        }
+      } else if (declarations.aliases.has(head) || declarations.types.has(head)) {
+        continue // Library members and UDT constructors are not known locally
+      } else if (!this.BuiltInNamespaces.has(head)) {
+        // Method call on a user value, e.g. `obj.method(...)`
+        signatures = declarations.methods.get(segments[segments.length - 1])
+        receiverArgs = 1
+        if (!signatures) {
+          continue
+        }
+      } else {
+        const builtIn = this.findBuiltIn(callee + (generic ?? ''))
+        if (!builtIn) {
+          if (!declarations.methods.has(segments[segments.length - 1])) {
+            report(offset, callee.length, `Could not find function or function reference '${callee}'`)
+          }
+          continue
+        }
+        signatures = [builtIn]
+      }
+
+      const positional = args.items.filter((arg) => !arg.named).length + receiverArgs
+      const named = args.items.filter((arg) => arg.named).map((arg) => arg.named as string)
+      if (signatures.every((signature) => signature.argNames.length > 0)) {
+        for (const arg of args.items) {
+          if (arg.named && !signatures.some((signature) => signature.argNames.includes(arg.named as string))) {
+            const nameOffset = arg.offset + arg.text.indexOf(arg.named)
+            report(
+              nameOffset,
+              arg.named.length,
+              `The '${callee}' function does not have an argument with the name '${arg.named}'`,
+            )
+          }
+        }
+      }
+      const missingArgs = (signature: CallSignature) => {
+        const provided = new Set([...signature.argNames.slice(0, positional), ...named])
+        return signature.required.filter((name) => !provided.has(name))
+      }
+      const accepted = signatures.some(
+        (signature) => positional <= signature.max && missingArgs(signature).length === 0,
+      )
+      if (!accepted) {
+        const max = Math.max(...signatures.map((signature) => signature.max)) - receiverArgs
+        const given = positional - receiverArgs
+        const message =
+          given > max
+            ? `Too many arguments passed into '${callee}': expected at most ${max}, got ${given}`
+            : `Missing required arguments in call to '${callee}': ${missingArgs(signatures[0]).join(', ')}`
+        report(offset, callee.length, message)
+      }
+    }
+  }
+
+  /**
+   * Splits the argument list of a call starting right after its opening parenthesis.
+   * @param masked - The masked script text.
+   * @param start - The offset following the opening parenthesis.
+   * @returns The arguments and the offset of the closing parenthesis, or undefined if the call is unterminated.
+   */
+  static splitArguments(masked: string, start: number) {
+    const items: { text: string; offset: number; named?: string }[] = []
+    let depth = 0
+    let argStart = start
+    const push = (end: number) => {
+      const text = masked.slice(argStart, end)
+      if (text.trim() || items.length > 0) {
+        const named = /^\s*([A-Za-z_]\w*)\s*=(?!=)/.exec(text)?.[1]
+        items.push({ text, offset: argStart, named })
+      }
+    }
+    for (let i = start; i < masked.length; i++) {
+      const char = masked[i]
+      if (char === '(' || char === '[') {
+        depth++
+      } else if (char === ')' || char === ']') {
+        if (depth === 0) {
+          push(i)
+          return { items, end: i }
+        }
+        depth--
+      } else if (char === ',' && depth === 0) {
+        push(i)
+        argStart = i + 1
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Reports identifiers that are neither declared in the script nor built-in.
+   */
+  private checkIdentifiers(
+    masked: string,
+    declarations: ReturnType<PineLocalLint['collectDeclarations']>,
+    report: (offset: number, length: number, message: string) => void,
+  ) {
+    const lines = masked.split('\n')
+    let offset = 0
+    let blockIndent = -1 // Indentation of the `type`/`enum` header whose body is being skipped
+
+    for (const line of lines) {
+      const indent = /^\s*/.exec(line)?.[0].length ?? 0
+      const lineOffset = offset
+      offset += line.length + 1
+
+      if (blockIndent >= 0) {
+        if (!line.trim() || indent > blockIndent) {
+          continue // Field and enum member declarations
+        }
+        blockIndent = -1
+      }
+      if (/^\s*(?:export\s+)?(?:type|enum)\s+\w+/.test(line)) {
+        blockIndent = indent
+        continue
+      }
+      if (/^\s*import\s/.test(line)) {
+        continue
+      }
+
+      for (const match of line.matchAll(/(?<![\w.#])[A-Za-z_]\w*/g)) {
+        const name = match[0]
+        const after = line.slice((match.index ?? 0) + name.length)
+        if (/^\s*=(?!=)/.test(after)) {
+          continue // Named argument or declaration
+        }
+        if (
+          declarations.names.has(name) ||
+          declarations.aliases.has(name) ||
+          declarations.types.has(name) ||
+          declarations.functions.has(name) ||
+          this.BuiltInNames.has(name)
+        ) {
+          continue
+        }
+        if (/^\s*(?:<\s*[\w.]+(?:\s*,\s*[\w.]+)?\s*>)?\s*\(/.test(after)) {
+          continue // Calls are reported by checkCalls
+        }
+        report(lineOffset + (match.index ?? 0), name.length, `Undeclared identifier '${name}'`)
+      }
+    }
+  }
+}
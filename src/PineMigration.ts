@@ -0,0 +1,454 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import {
+  PineArgument,
+  PineAssignment,
+  PineAstWalker,
+  PineCallExpression,
+  PineExpression,
+  PineNode,
+  PineTernaryExpression,
+  PineVariableDeclaration,
+} from './PineAst'
+import { PineConsole } from './PineConsole'
+import { PineDocumentSymbolProvider } from './PineDocumentSymbolProvider'
+import { PineParser } from './PineParser'
+import { PineScopeAnalysis, PineSymbol } from './PineScopeAnalyzer'
+import { VSCode } from './VSCode'
+
+/** The kinds of v6-breaking construct the migration looks for. */
+export type PineMigrationRule = 'version' | 'when' | 'transp' | 'division' | 'boolNa' | 'dynamicRequests'
+
+/** A text replacement, by offsets into the script. */
+export interface PineMigrationEdit {
+  start: number
+  end: number
+  text: string
+}
+
+/** A v6-breaking construct, with the edits that fix it. */
+export interface PineMigrationChange {
+  rule: PineMigrationRule
+  /** The offset of the construct. */
+  start: number
+  /** What changes in v6 and what the fix does. */
+  explanation: string
+  /** The edits of the fix, none if the construct has to be fixed by hand. */
+  edits: PineMigrationEdit[]
+}
+
+/**
+ * The PineMigration class moves v5 scripts to v6.
+ * `changesFor` finds the constructs v6 rejects or runs differently and their fixes; the "Pine: Migrate to v6"
+ * command applies them as one workspace edit that opens in the refactor preview, and explains each change in the
+ * Pine Script Console.
+ */
+export class PineMigration {
+  /** The titles of the rules, which label the edits in the refactor preview. */
+  static readonly ruleTitles: Record<PineMigrationRule, string> = {
+    version: 'Version annotation',
+    when: 'Removed `when` argument',
+    transp: 'Removed `transp` argument',
+    division: 'Integer division',
+    boolNa: '`na` in bool context',
+    dynamicRequests: 'Dynamic requests',
+  }
+
+  /** The `strategy.*` calls that lost their `when` argument. */
+  static readonly whenCalls = [
+    'strategy.entry',
+    'strategy.order',
+    'strategy.exit',
+    'strategy.close',
+    'strategy.close_all',
+    'strategy.cancel',
+    'strategy.cancel_all',
+  ]
+
+  /** The calls that lost their `transp` argument, with the position of their positional `color` argument. */
+  static readonly transpCalls: Record<string, number> = { plot: 2, plotshape: 4, plotchar: 4, bgcolor: 0, fill: 2 }
+
+  /** The calls that declare the script, which take the `dynamic_requests` argument. */
+  static readonly declarationCalls = ['indicator', 'strategy', 'library']
+
+  /**
+   * Migrates the active document to v6 after the edits are confirmed in the refactor preview.
+   * @returns The changes found, or undefined if there is no Pine Script editor.
+   */
+  async migrateDocument(): Promise<PineMigrationChange[] | undefined> {
+    const document = VSCode.Document
+    if (!document || document.languageId !== 'pine') {
+      vscode.window.showWarningMessage('Open a Pine Script file to migrate it to v6.')
+      return undefined
+    }
+    const text = document.getText()
+    const version = Class.PineParser.parseScript(text).script.version
+    if (version !== undefined && version < 5) {
+      vscode.window.showWarningMessage(`Migrate to v6 needs a v5 script, this one is v${version}.`)
+      return undefined
+    }
+
+    const changes = PineMigration.changesFor(text)
+    this.report(document, changes)
+    const fixes = changes.filter((change) => change.edits.length > 0)
+    if (fixes.length === 0) {
+      vscode.window.showInformationMessage(
+        changes.length > 0
+          ? 'No automatic v6 fixes, see the Pine Script Console for constructs to review.'
+          : 'Nothing to migrate, the script is ready for v6.',
+      )
+      return changes
+    }
+    const edit = new vscode.WorkspaceEdit()
+    for (const change of fixes) {
+      const metadata: vscode.WorkspaceEditEntryMetadata = {
+        needsConfirmation: true,
+        label: PineMigration.ruleTitles[change.rule],
+        description: `line ${document.positionAt(change.start).line + 1}`,
+      }
+      for (const { start, end, text: newText } of change.edits) {
+        edit.replace(
+          document.uri,
+          new vscode.Range(document.positionAt(start), document.positionAt(end)),
+          newText,
+          metadata,
+        )
+      }
+    }
+    await vscode.workspace.applyEdit(edit, { isRefactoring: true })
+    return changes
+  }
+
+  /**
+   * Finds the v6-breaking constructs of a v5 script and their fixes.
+   * Fixes that would overlap an earlier fix are left to be done by hand.
+   * @param text - The script.
+   * @returns The changes in source order.
+   */
+  static changesFor(text: string): PineMigrationChange[] {
+    const { script } = Class.PineParser.parseScript(text)
+    const analysis = Class.PineParser.analyzeScript(text)
+    const reassigned = PineMigration.reassignedSymbols(script, analysis)
+    const changes: PineMigrationChange[] = []
+    const add = (rule: PineMigrationRule, node: PineNode, explanation: string, edits: PineMigrationEdit[] = []) =>
+      changes.push({ rule, start: node.start, explanation, edits })
+
+    const versionMatch = /\/\/@version=5\b/.exec(text)
+    if (versionMatch) {
+      changes.push({
+        rule: 'version',
+        start: versionMatch.index,
+        explanation: 'The script is compiled as v6.',
+        edits: [{ start: versionMatch.index, end: versionMatch.index + versionMatch[0].length, text: '//@version=6' }],
+      })
+    }
+
+    let declaration: PineCallExpression | undefined
+    let request: PineCallExpression | undefined
+    const parents: Map<PineNode, PineNode> = new Map()
+    PineAstWalker.walk(script, (node, parent) => {
+      if (parent) {
+        parents.set(node, parent)
+      }
+      if (node.kind === 'CallExpression') {
+        const call = node as PineCallExpression
+        const name = PineDocumentSymbolProvider.calleeName(call) ?? ''
+        if (PineMigration.whenCalls.includes(name)) {
+          PineMigration.checkWhen(text, call, parent, add)
+        } else if (name in PineMigration.transpCalls) {
+          PineMigration.checkTransp(text, call, name, add)
+        } else if (PineMigration.declarationCalls.includes(name) && parent?.kind === 'ExpressionStatement') {
+          declaration ??= call
+        } else if (name.startsWith('request.')) {
+          request ??= call
+        }
+      } else if (node.kind === 'BinaryExpression') {
+        PineMigration.checkDivision(text, analysis, reassigned, node as PineExpression, parents, add)
+      }
+      PineMigration.checkBoolNa(analysis, node, add)
+    })
+    if (request) {
+      PineMigration.checkDynamicRequests(text, declaration, request, add)
+    }
+
+    changes.sort((a, b) => a.start - b.start)
+    const accepted: PineMigrationEdit[] = []
+    for (const change of changes) {
+      const overlaps = change.edits.some((edit) =>
+        accepted.some((other) => edit.start < other.end && other.start < edit.end),
+      )
+      if (overlaps) {
+        change.edits = []
+        change.explanation += ' It overlaps another fix, so it is left to be fixed by hand.'
+      }
+      accepted.push(...change.edits)
+    }
+    return changes
+  }
+
+  /** Moves the `when` argument of a `strategy.*` call into an `if` around the call. */
+  private static checkWhen(text: string, call: PineCallExpression, parent: PineNode | undefined, add: AddChange) {
+    const index = call.args.findIndex((arg) => arg.name?.name === 'when')
+    if (index < 0) {
+      return
+    }
+    const when = call.args[index]
+    const condition = PineParser.sourceOf(text, when.value)
+    const removal = PineMigration.argumentRemoval(call, index)
+    if (condition === 'true') {
+      add('when', when, 'v6 removed the `when` argument; `when = true` had no effect and is removed.', [removal])
+      return
+    }
+    const lineStart = parent ? text.lastIndexOf('\n', parent.start - 1) + 1 : 0
+    const indent = parent ? text.slice(lineStart, parent.start) : ''
+    // Only a statement on its own line can be wrapped, not one following `=>` or another statement
+    if (parent?.kind !== 'ExpressionStatement' || indent.trim() !== '') {
+      add('when', when, 'v6 removed the `when` argument; move the call into an `if` block by hand.')
+      return
+    }
+    const edits = [{ start: parent.start, end: parent.start, text: `if ${condition}\n${indent}    ` }, removal]
+    // Continuation lines of the call move with it
+    for (let offset = text.indexOf('\n', parent.start); offset >= 0 && offset < parent.end; ) {
+      if (offset + 1 < removal.start || offset >= removal.end) {
+        edits.push({ start: offset + 1, end: offset + 1, text: '    ' })
+      }
+      offset = text.indexOf('\n', offset + 1)
+    }
+    add('when', when, `v6 removed the \`when\` argument; the call now runs inside \`if ${condition}\`.`, edits)
+  }
+
+  /** Folds the `transp` argument of a plot call into its color with `color.new()`. */
+  private static checkTransp(text: string, call: PineCallExpression, name: string, add: AddChange) {
+    const index = call.args.findIndex((arg) => arg.name?.name === 'transp')
+    if (index < 0) {
+      return
+    }
+    const transp = PineParser.sourceOf(text, call.args[index].value)
+    const removal = PineMigration.argumentRemoval(call, index)
+    const color = PineMigration.argumentOf(call, 'color', PineMigration.transpCalls[name])
+    if (!color) {
+      // A call left without arguments would be missing its required ones
+      const edits = call.args.length > 1 ? [removal] : []
+      add('transp', call.args[index], 'v6 removed the `transp` argument; the call has no color to apply it to.', edits)
+      return
+    }
+    const value = color.value
+    if (value.kind === 'CallExpression' && PineDocumentSymbolProvider.calleeName(value) === 'color.new') {
+      const explanation =
+        'v6 removed the `transp` argument; the color already sets its transparency with `color.new()`.'
+      add('transp', call.args[index], explanation, [removal])
+      return
+    }
+    const colorNew = `color.new(${PineParser.sourceOf(text, value)}, ${transp})`
+    const explanation = `v6 removed the \`transp\` argument; the transparency moves into the color as \`${colorNew}\`.`
+    add('transp', call.args[index], explanation, [{ start: value.start, end: value.end, text: colorNew }, removal])
+  }
+
+  /** Keeps the truncating division of two const ints, which v6 evaluates as a float. */
+  private static checkDivision(
+    text: string,
+    analysis: PineScopeAnalysis,
+    reassigned: Set<PineSymbol>,
+    node: PineExpression,
+    parents: Map<PineNode, PineNode>,
+    add: AddChange,
+  ) {
+    if (node.kind !== 'BinaryExpression' || node.operator !== '/') {
+      return
+    }
+    // `int(a / b)` already truncates
+    const argument = parents.get(node)
+    const call = argument?.kind === 'Argument' ? parents.get(argument) : undefined
+    if (
+      call?.kind === 'CallExpression' &&
+      PineDocumentSymbolProvider.calleeName(call as PineCallExpression) === 'int' &&
+      (call as PineCallExpression).args[0] === argument
+    ) {
+      return
+    }
+    const isConstInt = (expression: PineExpression) => PineMigration.isConstInt(analysis, reassigned, expression)
+    if (!isConstInt(node.left) || !isConstInt(node.right)) {
+      return
+    }
+    const source = PineParser.sourceOf(text, node)
+    add(
+      'division',
+      node,
+      `v5 truncated the division of two const ints, v6 keeps the fraction; \`int(${source})\` keeps the v5 result.`,
+      [{ start: node.start, end: node.end, text: `int(${source})` }],
+    )
+  }
+
+  /** Replaces `na` where a bool is expected, since v6 bools are never `na`. */
+  private static checkBoolNa(analysis: PineScopeAnalysis, node: PineNode, add: AddChange) {
+    const explanation = 'v6 bools are never `na`; `false` takes its place.'
+    const toFalse = (na: PineNode) => add('boolNa', na, explanation, [{ start: na.start, end: na.end, text: 'false' }])
+    const symbolAt = (start: number) => analysis.references.find((reference) => reference.start === start)?.symbol
+    switch (node.kind) {
+      case 'VariableDeclaration': {
+        const { typeAnnotation, init } = node as PineVariableDeclaration
+        if (typeAnnotation?.name === 'bool' && !typeAnnotation.isArray && PineMigration.isNa(init)) {
+          toFalse(init)
+        }
+        break
+      }
+      case 'Assignment': {
+        const { operator, target, value } = node as PineAssignment
+        if (operator === ':=' && target.kind === 'Identifier' && PineMigration.isNa(value)) {
+          if (symbolAt(target.start)?.type === 'bool') {
+            toFalse(value)
+          }
+        }
+        break
+      }
+      case 'TernaryExpression': {
+        const { consequent, alternate } = node as PineTernaryExpression
+        const isBool = (expression: PineExpression) =>
+          expression.kind === 'Literal' && expression.literalType === 'bool'
+        if (isBool(consequent) && PineMigration.isNa(alternate)) {
+          toFalse(alternate)
+        } else if (isBool(alternate) && PineMigration.isNa(consequent)) {
+          toFalse(consequent)
+        }
+        break
+      }
+      case 'CallExpression': {
+        const call = node as PineCallExpression
+        const arg = call.args[0]?.value
+        if (
+          PineDocumentSymbolProvider.calleeName(call) === 'na' &&
+          arg?.kind === 'Identifier' &&
+          symbolAt(arg.start)?.type === 'bool'
+        ) {
+          add('boolNa', call, 'v6 bools are never `na`, so `na()` of a bool is an error; test the value instead.')
+        }
+        break
+      }
+    }
+  }
+
+  /** Turns off dynamic requests, which v6 enables by default, so `request.*()` calls evaluate as in v5. */
+  private static checkDynamicRequests(
+    text: string,
+    declaration: PineCallExpression | undefined,
+    request: PineCallExpression,
+    add: AddChange,
+  ) {
+    const explanation =
+      'v6 allows `request.*()` calls in local scopes and loops by default, which changes when they are evaluated'
+    if (!declaration) {
+      add('dynamicRequests', request, `${explanation}; the script has no declaration call to turn this off in.`)
+      return
+    }
+    if (PineMigration.argumentOf(declaration, 'dynamic_requests')) {
+      return
+    }
+    const last = declaration.args[declaration.args.length - 1]
+    const insertAt = last ? last.end : text.lastIndexOf(')', declaration.end)
+    add('dynamicRequests', declaration, `${explanation}; \`dynamic_requests = false\` keeps the v5 behaviour.`, [
+      { start: insertAt, end: insertAt, text: `${last ? ', ' : ''}dynamic_requests = false` },
+    ])
+  }
+
+  /**
+   * Finds an argument by name, or by position if it is passed positionally.
+   * @param call - The call.
+   * @param name - The parameter name.
+   * @param position - The position of the parameter, if it can be passed positionally.
+   * @returns The argument, or undefined if it is not passed.
+   */
+  static argumentOf(call: PineCallExpression, name: string, position?: number): PineArgument | undefined {
+    const named = call.args.find((arg) => arg.name?.name === name)
+    if (named || position === undefined) {
+      return named
+    }
+    const arg = call.args[position]
+    return arg && !arg.name && call.args.slice(0, position).every((before) => !before.name) ? arg : undefined
+  }
+
+  /**
+   * Builds the edit that removes an argument and its separating comma.
+   * @param call - The call.
+   * @param index - The index of the argument.
+   * @returns The edit.
+   */
+  static argumentRemoval(call: PineCallExpression, index: number): PineMigrationEdit {
+    const arg = call.args[index]
+    if (index > 0) {
+      return { start: call.args[index - 1].end, end: arg.end, text: '' }
+    }
+    const next = call.args[1]
+    return { start: arg.start, end: next ? next.start : arg.end, text: '' }
+  }
+
+  private static isNa(expression: PineExpression): boolean {
+    return expression.kind === 'Identifier' && expression.name === 'na'
+  }
+
+  /** Finds the variables the script assigns a new value to with `:=` or a compound assignment. */
+  private static reassignedSymbols(script: PineNode, analysis: PineScopeAnalysis): Set<PineSymbol> {
+    const reassigned = new Set<PineSymbol>()
+    PineAstWalker.walk(script, (node) => {
+      if (node.kind === 'Assignment') {
+        const { target } = node as PineAssignment
+        const symbol = analysis.references.find((reference) => reference.start === target.start)?.symbol
+        if (target.kind === 'Identifier' && symbol) {
+          reassigned.add(symbol)
+        }
+      }
+    })
+    return reassigned
+  }
+
+  /**
+   * Checks whether an expression is a const int: an int literal, or a variable declared `const int` or
+   * with an int literal and never reassigned.
+   */
+  private static isConstInt(
+    analysis: PineScopeAnalysis,
+    reassigned: Set<PineSymbol>,
+    expression: PineExpression,
+  ): boolean {
+    if (expression.kind === 'Literal') {
+      return expression.literalType === 'int'
+    }
+    if (expression.kind === 'UnaryExpression') {
+      return PineMigration.isConstInt(analysis, reassigned, expression.argument)
+    }
+    if (expression.kind !== 'Identifier') {
+      return false
+    }
+    const symbol = analysis.references.find((reference) => reference.start === expression.start)?.symbol
+    if (symbol?.kind !== 'variable' || symbol.node.kind !== 'VariableDeclaration' || reassigned.has(symbol)) {
+      return false
+    }
+    const { qualifier, mode, typeAnnotation, init } = symbol.node as PineVariableDeclaration
+    if (qualifier === 'const') {
+      return typeAnnotation?.name === 'int' || (init.kind === 'Literal' && init.literalType === 'int')
+    }
+    return !mode && !qualifier && init.kind === 'Literal' && init.literalType === 'int'
+  }
+
+  /**
+   * Writes the changes of a migration to the Pine Script Console and shows it.
+   * @param document - The migrated document.
+   * @param changes - The changes found.
+   */
+  private report(document: vscode.TextDocument, changes: PineMigrationChange[]): void {
+    const channel = PineConsole.channel
+    channel.appendLine(`Pine Script v6 migration - ${vscode.workspace.asRelativePath(document.uri)}`)
+    if (changes.length === 0) {
+      channel.appendLine('  No v6-breaking constructs found.')
+    }
+    for (const change of changes) {
+      const line = document.positionAt(change.start).line + 1
+      const status = change.edits.length > 0 ? 'fix   ' : 'review'
+      channel.appendLine(`  ${status} line ${line} [${PineMigration.ruleTitles[change.rule]}] ${change.explanation}`)
+    }
+    channel.appendLine('')
+    PineConsole.show(true)
+  }
+}
+
+/** Records a change found by one of the checks. */
+type AddChange = (rule: PineMigrationRule, node: PineNode, explanation: string, edits?: PineMigrationEdit[]) => void
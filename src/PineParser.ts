@@ -1,4 +1,7 @@
 import { Class } from './index'
+import { PineAstWalker, PineFieldDeclaration, PineFunctionDeclaration, PineNode, PineScript } from './PineAst'
+import { PineAstParser, PineParseResult } from './PineAstParser'
+import { PineScopeAnalysis, PineScopeAnalyzer } from './PineScopeAnalyzer'
 import { Helpers } from './PineHelpers'
 import { VSCode } from './VSCode'
 
@@ -9,25 +12,9 @@ export class PineParser {
   parsedLibsFunctions: any = {}
   parsedLibsUDT: any = {}
 
-  // Refactored regular expressions with named capture groups for better readability and maintainability
-  // Type Definition Pattern
-  typePattern: RegExp =
-    /(?<udtGroup>(?<annotationsGroup>(?:^\/\/\s*(?:@(?:type|field)[^\n]*\n))+)?(?<udtExportKeyword>export)?\s*(type)\s*(?<typeName>\w+)\n(?<fieldsGroup>(?:(?:\s+[^\n]+)\n+|\s*\n)+))(?=(?:\b|^\/\/\s*@|(?:^\/\/[^@\n]*?$)+|$))/gm
-
-  // Fields Pattern within Type Definition
-  fieldsPattern: RegExp =
-    /^\s+(?<isConst>const\s+)?(?:(?:(?:(array|matrix|map)<(?<genericTypes>(?<genericType1>([a-zA-Z_][a-zA-Z_0-9]*\.)?([a-zA-Z_][a-zA-Z_0-9]*)),)?(?<genericType2>([a-zA-Z_][a-zA-Z_0-9]*\.)?([a-zA-Z_][a-zA-Z_0-9]*)))>)|(?<fieldType>([a-zA-Z_][a-zA-Z_0-9]*\.)?([a-zA-Z_][a-zA-Z_0-9]*))((?<isArray>\[\])?)\s+)?(?<fieldName>[a-zA-Z_][a-zA-Z0-9_]*)(?:(?=\s*=\s*)(?:(?<defaultValueSingleQuote>'.*')|(?<defaultValueDoubleQuote>".*")|(?<defaultValueNumber>\d*(\.(\d+[eE]?\d+)?\d*|\d+))|(?<defaultValueColor>#[a-fA-F0-9]{6,8})|(?<defaultValueIdentifier>([a-zA-Z_][a-zA-Z_0-9]*\.)*[a-zA-Z_][a-zA-Z0-9_]*)))?$/gm
-
-  // Function Definition Pattern
-  funcPattern: RegExp =
-    /(?<docstring>(?:\/\/\s*@f(?:@?.*\n)+?)?)?(?<exportKeyword>export)?\s*(?<methodKeyword>method)?\s*(?<functionName>\w+)\s*\(\s*(?<parameters>[^\)]+?)\s*\)\s*?=>\s*?(?<body>(?:.*\n+)+?)(?=^\b|^\/\/\s*\@|$)/gm
-
-  // Function Argument Pattern
-  funcArgPattern: RegExp =
-    /(?:(?<argModifier>simple|series)?\s+?)?(?<argType>[\w\.\[\]]*?|\w+<[^>]+>)\s*(?<argName>\w+)(?:\s*=\s*(?<argDefaultValue>['"]?[^,)\n]+['"]?)|\s*(?:,|\)|$))/g
-
-  // Function Name and Arguments Pattern (currently unused in provided code, but kept for potential future use)
-  funcNameArgsPattern: RegExp = /([\w.]+)\(([^)]+)\)/g
+  /** The last parse, reused when functions and types are extracted from the same script. */
+  private lastParse: { script: string; result: PineParseResult } | undefined
+  private lastAnalysis: { script: PineScript; result: PineScopeAnalysis } | undefined
 
   constructor() {
     this.libs = []
@@ -160,7 +147,7 @@ export class PineParser {
 
   /**
    * Parses functions from the provided documents.
-   * Extracts function name, arguments, and body using regex.
+   * Extracts function name, arguments, and body from the syntax tree.
    * @param documents - An array of documents to parse, each with a 'script' property.
    */
   parseFunctions(documents: any[]) {
@@ -178,94 +165,109 @@ export class PineParser {
         continue // Guard clause: Skip non-string scripts
       }
 
-      const functionMatches = script.matchAll(this.funcPattern)
+      parsedFunctions.push(...this.extractFunctions(script, alias))
+      if (alias) {
+        this.parsedLibsFunctions[alias] = parsedFunctions
+      }
+    }
+    Class.PineDocsManager.setParsed(parsedFunctions, 'args')
+  }
 
-      for (const funcMatch of functionMatches) {
-        const { docstring, exportKeyword, methodKeyword, functionName, parameters, body } = funcMatch.groups! // Non-null assertion is safe due to regex match
+  /**
+   * Parses a script into a syntax tree, reusing the previous result when the script is unchanged.
+   * @param script - The script source.
+   * @returns The parse result.
+   */
+  parseScript(script: string): PineParseResult {
+    if (this.lastParse?.script !== script) {
+      this.lastParse = { script, result: PineAstParser.parse(script) }
+    }
+    return this.lastParse.result
+  }
 
-        const name = (alias ? alias + '.' : '') + functionName
-        const functionBuild: any = {
-          name: name,
-          args: [],
-          originalName: functionName,
-          body: body,
-          doc: docstring, // Store the captured docstring
-          kind: 'User Function', // Add a specific kind for user-defined functions
-        }
+  /**
+   * Binds the identifiers of a script to their declarations, reusing the previous result when the script is unchanged.
+   * @param script - The script source.
+   * @returns The scope analysis.
+   */
+  analyzeScript(script: string): PineScopeAnalysis {
+    const parsed = this.parseScript(script).script
+    if (this.lastAnalysis?.script !== parsed) {
+      this.lastAnalysis = { script: parsed, result: PineScopeAnalyzer.analyze(parsed) }
+    }
+    return this.lastAnalysis.result
+  }
 
-        if (exportKeyword) {
-          functionBuild.export = true
-          functionBuild.kind = 'User Export Function' // More specific kind
-        }
-        if (methodKeyword) {
-          functionBuild.method = true
-          functionBuild.kind = 'User Method' // More specific kind
-        }
+  /**
+   * Extracts the user functions of a single script without updating PineDocsManager.
+   * @param script - The script source to scan.
+   * @param alias - The import alias to prefix function names with, if any.
+   * @returns The parsed functions.
+   */
+  extractFunctions(script: string, alias?: string): any[] {
+    const parsedFunctions: any[] = []
+    const declarations = this.parseScript(script).script.body.filter(
+      (statement): statement is PineFunctionDeclaration => statement.kind === 'FunctionDeclaration',
+    )
+
+    for (const declaration of declarations) {
+      const functionName = declaration.name.name
+      const docstring = declaration.docComment
+      const name = (alias ? alias + '.' : '') + functionName
+      const functionBuild: any = {
+        name: name,
+        args: [],
+        originalName: functionName,
+        body: PineParser.sourceOf(script, declaration.body),
+        doc: docstring, // Store the doc comment above the declaration
+        kind: 'User Function', // Add a specific kind for user-defined functions
+      }
 
-        const funcParamsMatches = parameters.matchAll(this.funcArgPattern)
-        for (const paramMatch of funcParamsMatches) {
-          const { argModifier, argType: paramType, argName, argDefaultValue } = paramMatch.groups! // Non-null assertion is safe due to regex match
+      if (declaration.isExport) {
+        functionBuild.export = true
+        functionBuild.kind = 'User Export Function' // More specific kind
+      }
+      if (declaration.isMethod) {
+        functionBuild.method = true
+        functionBuild.kind = 'User Method' // More specific kind
+      }
 
-          let resolvedArgType = paramType
-          if (!resolvedArgType) {
-            const docMatch = Helpers.checkDocsMatch(argDefaultValue ?? '')
-            resolvedArgType = docMatch && typeof docMatch === 'string' ? docMatch : resolvedArgType
-          }
+      for (const param of declaration.params) {
+        const argDefaultValue = param.defaultValue ? PineParser.sourceOf(script, param.defaultValue) : undefined
 
-          const argsDict: Record<string, any> = {
-            name: argName,
-            required: !argDefaultValue,
-          }
-          if (argDefaultValue) {
-            argsDict.default = argDefaultValue
-          }
-          if (resolvedArgType) {
-            argsDict.type = resolvedArgType
-          }
-          if (argModifier) {
-            argsDict.modifier = argModifier // simple | series
-          }
-          functionBuild.args.push(argsDict)
+        let resolvedArgType = param.typeAnnotation ? PineAstWalker.typeToString(param.typeAnnotation) : undefined
+        if (!resolvedArgType) {
+          const docMatch = Helpers.checkDocsMatch(argDefaultValue ?? '')
+          resolvedArgType = docMatch && typeof docMatch === 'string' ? docMatch : resolvedArgType
         }
-        // Parse @param descriptions from docstring
-        if (docstring) {
-          const lines = docstring.split('\n')
-          interface ParsedFunctionArgument {
-            name: string
-            required: boolean
-            default?: string
-            type?: string
-            modifier?: string
-            desc?: string
-          }
-          functionBuild.args.forEach((arg: ParsedFunctionArgument) => {
-            if (arg.name) {
-              const paramLineRegex: RegExp = new RegExp(
-                `^\\s*\\/\\/\\s*@param\\s+${arg.name}\\s*(?:\\([^)]*\\))?\\s*(.+)`,
-                'i',
-              )
-              for (const line of lines) {
-                const match: RegExpMatchArray | null = line.match(paramLineRegex)
-                if (match && match[1]) {
-                  arg.desc = match[1].trim()
-                  break
-                }
-              }
-            }
-          })
+
+        const argsDict: Record<string, any> = {
+          name: param.name.name,
+          required: !argDefaultValue,
         }
-        parsedFunctions.push(functionBuild)
-      }
-      if (alias) {
-        this.parsedLibsFunctions[alias] = parsedFunctions
+        if (argDefaultValue) {
+          argsDict.default = argDefaultValue
+        }
+        if (resolvedArgType) {
+          argsDict.type = resolvedArgType
+        }
+        if (param.qualifier) {
+          argsDict.modifier = param.qualifier // const | simple | series
+        }
+        const desc = PineParser.annotationFor(docstring, 'param', param.name.name)
+        if (desc) {
+          argsDict.desc = desc
+        }
+        functionBuild.args.push(argsDict)
       }
+      parsedFunctions.push(functionBuild)
     }
-    Class.PineDocsManager.setParsed(parsedFunctions, 'args')
+    return parsedFunctions
   }
 
   /**
-   * Parses types (UDTs) from the provided documents.
-   * Extracts type name and fields using regex.
+   * Parses types (UDTs) and enums from the provided documents.
+   * Extracts type name and fields from the syntax tree.
    * @param documents - An array of documents to parse, each with a 'script' property.
    */
   parseTypes(documents: any[]) {
@@ -283,84 +285,127 @@ export class PineParser {
         continue // Guard clause: Skip non-string scripts
       }
 
-      const typeMatches = script.matchAll(this.typePattern)
-
-      for (const typeMatch of typeMatches) {
-        const { annotationsGroup, udtExportKeyword, typeName, fieldsGroup } = typeMatch.groups!
+      parsedTypes.push(...this.extractTypes(script, alias))
+      if (alias) {
+        this.parsedLibsUDT[alias] = parsedTypes
+      }
+    }
+    Class.PineDocsManager.setParsed(parsedTypes, 'fields')
+  }
 
-        const name = (alias ? alias + '.' : '') + typeName
+  /**
+   * Extracts the user types and enums of a single script without updating PineDocsManager.
+   * Enum members are stored as const fields.
+   * @param script - The script source to scan.
+   * @param alias - The import alias to prefix type names with, if any.
+   * @returns The parsed types.
+   */
+  extractTypes(script: string, alias?: string): any[] {
+    const parsedTypes: any[] = []
 
-        const typeBuild: any = {
-          name: name,
-          fields: [],
-          originalName: typeName,
-          kind: 'User Type', // Assign kind
-          doc: annotationsGroup || '', // Store docstring
-        }
+    for (const declaration of this.parseScript(script).script.body) {
+      if (declaration.kind !== 'TypeDeclaration' && declaration.kind !== 'EnumDeclaration') {
+        continue
+      }
+      const isEnum = declaration.kind === 'EnumDeclaration'
+      const typeName = declaration.name.name
+      const name = (alias ? alias + '.' : '') + typeName
+
+      const typeBuild: any = {
+        name: name,
+        fields: [],
+        originalName: typeName,
+        kind: isEnum ? 'User Enum' : 'User Type', // Assign kind
+        doc: declaration.docComment || '', // Store docstring
+      }
 
-        if (udtExportKeyword) {
-          typeBuild.export = true
-          typeBuild.kind = 'User Export Type' // More specific kind
-        }
+      if (declaration.isExport) {
+        typeBuild.export = true
+        typeBuild.kind = isEnum ? 'User Export Enum' : 'User Export Type' // More specific kind
+      }
 
-        if (fieldsGroup) {
-          const fieldMatches = fieldsGroup.matchAll(this.fieldsPattern)
-          for (const fieldMatch of fieldMatches) {
-            const {
-              genericTypes,
-              isConst, // New capture group
-              genericType1,
-              genericType2,
-              fieldType,
-              isArray,
-              fieldName,
-              defaultValueSingleQuote,
-              defaultValueDoubleQuote,
-              defaultValueNumber,
-              defaultValueColor,
-              defaultValueIdentifier,
-            } = fieldMatch.groups!
-
-            let resolvedFieldType = genericTypes
-              ? `${fieldMatch[1] /* array|matrix|map */}<${genericType1 || ''}${
-                  genericType1 && genericType2 ? ',' : ''
-                }${genericType2 || ''}>`
-              : fieldType + (isArray || '')
-
-            // Prepend 'const ' if isConst is captured
-            // resolvedFieldType = isConst ? `const ${resolvedFieldType}` : resolvedFieldType;
-            // No, we store isConst separately. Type itself remains 'string', not 'const string'.
-
-            const fieldValue =
-              defaultValueSingleQuote ||
-              defaultValueDoubleQuote ||
-              defaultValueNumber ||
-              defaultValueColor ||
-              defaultValueIdentifier
-
-            const fieldsDict: Record<string, any> = {
-              name: fieldName,
-              type: resolvedFieldType,
-              kind: 'Field',
-            }
-            if (isConst) {
-              fieldsDict.isConst = true
-            }
-            if (fieldValue) {
-              fieldsDict.default = fieldValue
-            }
-            // TODO: Parse @field annotations from annotationsGroup for this specific fieldName
-            // and add to fieldsDict.desc
-            typeBuild.fields.push(fieldsDict)
+      if (declaration.kind === 'EnumDeclaration') {
+        for (const member of declaration.members) {
+          const fieldsDict: Record<string, any> = {
+            name: member.name.name,
+            type: name,
+            kind: 'Field',
+            isConst: true,
+          }
+          if (member.title) {
+            fieldsDict.title = member.title.raw.slice(1, -1)
+          }
+          const desc = PineParser.annotationFor(declaration.docComment, 'field', member.name.name)
+          if (desc) {
+            fieldsDict.desc = desc
           }
+          typeBuild.fields.push(fieldsDict)
+        }
+      } else {
+        for (const field of declaration.fields) {
+          typeBuild.fields.push(this.buildField(script, field, declaration.docComment))
         }
-        parsedTypes.push(typeBuild)
       }
+      parsedTypes.push(typeBuild)
+    }
+    return parsedTypes
+  }
 
-      if (alias) {
-        this.parsedLibsUDT[alias] = parsedTypes
+  /**
+   * Builds the docs entry of a UDT field.
+   * @param script - The script the field was parsed from.
+   * @param field - The field declaration.
+   * @param docstring - The doc comment of the type, for the field's `@field` description.
+   * @returns The field entry.
+   */
+  private buildField(script: string, field: PineFieldDeclaration, docstring?: string): Record<string, any> {
+    // The type itself stays e.g. 'string', const is stored separately
+    const fieldsDict: Record<string, any> = {
+      name: field.name.name,
+      type: PineAstWalker.typeToString(field.typeAnnotation),
+      kind: 'Field',
+    }
+    if (field.isConst) {
+      fieldsDict.isConst = true
+    }
+    if (field.defaultValue) {
+      fieldsDict.default = PineParser.sourceOf(script, field.defaultValue)
+    }
+    const desc = PineParser.annotationFor(docstring, 'field', field.name.name)
+    if (desc) {
+      fieldsDict.desc = desc
+    }
+    return fieldsDict
+  }
+
+  /**
+   * Returns the source text of a node.
+   * @param script - The script the node was parsed from.
+   * @param node - The node.
+   * @returns The source text.
+   */
+  static sourceOf(script: string, node: PineNode): string {
+    return script.slice(node.start, node.end)
+  }
+
+  /**
+   * Finds the description of a name in an `@param` or `@field` line of a doc comment.
+   * @param docstring - The doc comment.
+   * @param tag - The annotation tag without the `@`.
+   * @param name - The parameter or field name.
+   * @returns The description, or undefined if the name is not documented.
+   */
+  static annotationFor(docstring: string | undefined, tag: string, name: string): string | undefined {
+    if (!docstring) {
+      return undefined
+    }
+    const lineRegex = new RegExp(`^\\s*\\/\\/\\s*@${tag}\\s+${name}\\s*(?:\\([^)]*\\))?\\s*(.+)`, 'i')
+    for (const line of docstring.split('\n')) {
+      const match = line.match(lineRegex)
+      if (match && match[1]) {
+        return match[1].trim()
       }
     }
-    Class.PineDocsManager.setParsed(parsedTypes, 'fields')
+    return undefined
   }
 }
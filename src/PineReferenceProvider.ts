@@ -0,0 +1,57 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineScopeAnalyzer, PineSymbol } from './PineScopeAnalyzer'
+
+/**
+ * The PineReferenceProvider class implements Find All References.
+ * References come from the scope analysis of the script, so a parameter is told apart from a global of the same name
+ * and a field from the same-named field of another type.
+ */
+export class PineReferenceProvider implements vscode.ReferenceProvider {
+  /**
+   * Provides the references of the symbol at a position.
+   * @param document - The document in which the references were requested.
+   * @param position - The position of the symbol's name.
+   * @param context - Whether to include the declaration.
+   * @returns The locations of the references, or undefined if there is no user symbol at the position.
+   */
+  provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+  ): vscode.Location[] | undefined {
+    const analysis = Class.PineParser.analyzeScript(document.getText())
+    const symbol = PineScopeAnalyzer.symbolAt(analysis, document.offsetAt(position))
+    if (!symbol) {
+      return undefined
+    }
+    return PineReferenceProvider.locationsOf(document, symbol, context.includeDeclaration)
+  }
+
+  /**
+   * Lists the locations of a symbol's references in source order.
+   * @param document - The document the symbol belongs to.
+   * @param symbol - The symbol.
+   * @param includeDeclaration - Whether to include the declared name.
+   * @returns The locations.
+   */
+  static locationsOf(
+    document: vscode.TextDocument,
+    symbol: PineSymbol,
+    includeDeclaration: boolean,
+  ): vscode.Location[] {
+    const spans = symbol.references.map((reference) => ({ start: reference.start, end: reference.end }))
+    if (includeDeclaration) {
+      spans.push({ start: symbol.nameNode.start, end: symbol.nameNode.end })
+    }
+    return spans
+      .sort((a, b) => a.start - b.start)
+      .map(
+        (span) =>
+          new vscode.Location(
+            document.uri,
+            new vscode.Range(document.positionAt(span.start), document.positionAt(span.end)),
+          ),
+      )
+  }
+}
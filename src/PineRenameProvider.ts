@@ -1,34 +1,139 @@
 import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineLexer } from './PineLexer'
+import { PineImportDeclaration } from './PineAst'
+import { PineScopeAnalysis, PineScopeAnalyzer, PineScope, PineSymbol } from './PineScopeAnalyzer'
 
+/**
+ * The PineRenameProvider class renames user symbols.
+ * The symbol under the cursor is resolved to its declaration, and only the names bound to that declaration are
+ * renamed, leaving strings, comments, built-ins and unrelated symbols of the same name alone.
+ */
 export class PineRenameProvider implements vscode.RenameProvider {
+  /** Symbol kinds that are looked up by name in scopes, as opposed to members reached through a dot. */
+  static readonly scopedKinds: string[] = ['function', 'method', 'type', 'enum', 'variable', 'parameter', 'import']
+
+  /**
+   * Checks that the name at a position can be renamed.
+   * @param document - The document in which rename was requested.
+   * @param position - The position of the name.
+   * @returns The range of the name and its current text.
+   * @throws If the position is not on a user symbol, with the reason shown to the user.
+   */
+  prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): { range: vscode.Range; placeholder: string } {
+    const analysis = Class.PineParser.analyzeScript(document.getText())
+    const offset = document.offsetAt(position)
+    const symbol = PineScopeAnalyzer.symbolAt(analysis, offset)
+    if (!symbol) {
+      const wordRange = document.getWordRangeAtPosition(position)
+      const word = wordRange ? document.getText(wordRange) : ''
+      if (PineLexer.keywords.has(word)) {
+        throw new Error(`'${word}' is a keyword and cannot be renamed.`)
+      }
+      if (word && Class.PineLocalLint.isBuiltIn(word)) {
+        throw new Error(`'${word}' is built in and cannot be renamed.`)
+      }
+      throw new Error('Only user-defined symbols of this script can be renamed.')
+    }
+    const reference = PineScopeAnalyzer.referenceAt(analysis, offset)
+    const span = reference ?? symbol.nameNode
+    return {
+      range: new vscode.Range(document.positionAt(span.start), document.positionAt(span.end)),
+      placeholder: symbol.name,
+    }
+  }
+
+  /**
+   * Renames the symbol at a position and all references bound to it.
+   * @param document - The document in which rename was requested.
+   * @param position - The position of the name.
+   * @param newName - The new name.
+   * @returns The edits.
+   * @throws If the new name is invalid or collides with another name.
+   */
   async provideRenameEdits(
     document: vscode.TextDocument,
     position: vscode.Position,
     newName: string,
   ): Promise<vscode.WorkspaceEdit> {
-    const wordRange = document.getWordRangeAtPosition(position)
-    if (!wordRange) {
-      throw new Error('No word selected.')
+    const analysis = Class.PineParser.analyzeScript(document.getText())
+    const symbol = PineScopeAnalyzer.symbolAt(analysis, document.offsetAt(position))
+    if (!symbol) {
+      throw new Error('Only user-defined symbols of this script can be renamed.')
     }
-
-    const oldName = document.getText(wordRange)
-    const wordPattern = new RegExp(`\\b${oldName}\\b(?=\\s*(?:\\?|=|:=|\\.)?)`, 'g')
+    if (newName === symbol.name) {
+      return new vscode.WorkspaceEdit()
+    }
+    PineRenameProvider.validateName(analysis, symbol, newName)
 
     const edit = new vscode.WorkspaceEdit()
+    const replace = (start: number, end: number) =>
+      edit.replace(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), newName)
 
-    for (let i = 0; i < document.lineCount; i++) {
-      const line = document.lineAt(i)
-      let match
+    const declaration = symbol.node as PineImportDeclaration
+    if (symbol.kind === 'import' && !declaration.explicitAlias) {
+      // The alias comes from the library name in the path, so add an explicit one instead of editing the path
+      edit.insert(document.uri, document.positionAt(declaration.end), ` as ${newName}`)
+    } else {
+      replace(symbol.nameNode.start, symbol.nameNode.end)
+    }
+    for (const reference of symbol.references) {
+      replace(reference.start, reference.end)
+    }
+    return edit
+  }
 
-      while ((match = wordPattern.exec(line.text)) !== null) {
-        const matchRange = new vscode.Range(
-          new vscode.Position(i, match.index),
-          new vscode.Position(i, match.index + match[0].length),
-        )
-        edit.replace(document.uri, matchRange, newName)
+  /**
+   * Checks that a symbol can take a new name.
+   * @param analysis - The scope analysis of the script.
+   * @param symbol - The symbol to rename.
+   * @param newName - The new name.
+   * @throws If the name is not an identifier, is reserved, or collides with a name visible where the symbol is used.
+   */
+  static validateName(analysis: PineScopeAnalysis, symbol: PineSymbol, newName: string) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(newName)) {
+      throw new Error(`'${newName}' is not a valid identifier.`)
+    }
+    if (PineLexer.keywords.has(newName)) {
+      throw new Error(`'${newName}' is a keyword.`)
+    }
+    if (symbol.owner && symbol.kind !== 'parameter') {
+      // Fields and enum members only need to be unique within their type
+      if (symbol.owner.members.some((member) => member.name === newName)) {
+        throw new Error(`'${symbol.owner.name}' already has a member named '${newName}'.`)
       }
+      return
+    }
+    if (symbol.kind === 'parameter' && symbol.owner?.members.some((member) => member.name === newName)) {
+      throw new Error(`'${symbol.owner.name}' already has a parameter named '${newName}'.`)
     }
+    if (Class.PineLocalLint.isBuiltIn(newName)) {
+      throw new Error(`'${newName}' is a built-in name.`)
+    }
+    const usages = [symbol.nameNode.start, ...symbol.references.map((reference) => reference.start)]
+    const collision = analysis.symbols.find(
+      (other) =>
+        other !== symbol &&
+        other.name === newName &&
+        PineRenameProvider.scopedKinds.includes(other.kind) &&
+        (PineRenameProvider.isAncestor(other.scope, symbol.scope) ||
+          usages.some((offset) => other.scope.node.start <= offset && offset <= other.scope.node.end)),
+    )
+    if (collision) {
+      throw new Error(`'${newName}' is already declared in this scope.`)
+    }
+  }
 
-    return edit
+  /** Checks whether a scope is the same as, or encloses, another scope. */
+  private static isAncestor(scope: PineScope, descendant: PineScope): boolean {
+    for (let current: PineScope | undefined = descendant; current; current = current.parent) {
+      if (current === scope) {
+        return true
+      }
+    }
+    return false
   }
 }
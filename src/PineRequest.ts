@@ -1,108 +1,153 @@
 import { VSCode } from './index'
 import * as vscode from 'vscode'
 import { Class } from './PineClass'
+import * as path from 'path'
+import { PineFacadeClient, PineFacadeClientOptions, PineFacadeError, PineFetchTransport } from './PineFacadeClient'
+import { PineFacadeFixtures, PineRecordTransport, PineReplayTransport } from './PineFacadeFixtures'
+import { PineLintCache } from './PineLintCache'
+import { PineLintCore } from './PineLintCore'
 
 /**
  * Class representing PineRequest for making requests to PineScript services.
  */
 export class PineRequest {
-  /** Holds the URL for the Pine facade */
-  private pineUrl: string = 'https://pine-facade.tradingview.com/pine-facade/'
+  /** Holds the pine-facade client that performs the requests */
+  private client: PineFacadeClient | undefined
+  /** Holds the settings the client was created with */
+  private clientOptions: string = ''
   /** Holds a list of saved requests */
   private savedList: any[] = []
-  /** Holds the fetch function for making requests */
-  private fetch: any = undefined
 
   /**
-   * Dynamically imports node-fetch and assigns it to this.fetch.
-   * This method ensures compatibility with ES Modules.
+   * Gets the pine-facade client, recreating it when the `pinescript.request.*` settings change.
+   * The proxy falls back to VS Code's `http.proxy` setting and the HTTPS_PROXY/HTTP_PROXY environment variables.
+   * In the `record` and `replay` modes, requests are recorded to or answered from the fixtures directory.
+   * @returns {PineFacadeClient} - The client.
    */
-  private async loadFetchModule() {
-    if (!this.fetch) {
-      const fetchModule = await import('node-fetch')
-      this.fetch = fetchModule.default
+  private getClient(): PineFacadeClient {
+    const config = vscode.workspace.getConfiguration('pinescript')
+    const options: PineFacadeClientOptions = {
+      baseUrl: config.get<string>('request.baseUrl') || undefined,
+      proxy:
+        config.get<string>('request.proxy') ||
+        vscode.workspace.getConfiguration('http').get<string>('proxy') ||
+        process.env.HTTPS_PROXY ||
+        process.env.HTTP_PROXY ||
+        undefined,
+      timeout: config.get<number>('request.timeout'),
+      retries: config.get<number>('request.retries'),
+    }
+    const mode = this.mode
+    const fixtures = mode !== 'live' ? this.fixturesDirectory : undefined
+    const key = JSON.stringify({ ...options, mode, fixtures })
+    if (!this.client || key !== this.clientOptions) {
+      if (fixtures) {
+        const store = new PineFacadeFixtures(fixtures)
+        options.transport =
+          mode === 'record'
+            ? new PineRecordTransport(store, new PineFetchTransport(options.proxy))
+            : new PineReplayTransport(store)
+      }
+      this.client = new PineFacadeClient(options)
+      this.clientOptions = key
     }
+    return this.client
   }
 
   /**
-   * Get request headers with optional session ID.
-   * @returns {Promise<any>} - Object containing request headers.
+   * Gets how requests are sent: to pine-facade, to pine-facade while recording them, or from recorded fixtures.
+   * @returns {'live' | 'record' | 'replay'} - The request mode setting.
    */
-  private async getHeaders(): Promise<any> {
-    // const sessionId = (await Class.PineUserInputs?.getSessionId())
-    const headers: Record<string, string> = {
-      Accept: 'application/json',
-      Method: 'cors',
-      Referer: 'https://www.tradingview.com/',
-    }
-    // if (includeSessionId && sessionId) {
-    //   headers.Cookie = `sessionid=${sessionId}`
-    // }
-    return headers
+  private get mode(): 'live' | 'record' | 'replay' {
+    return vscode.workspace.getConfiguration('pinescript').get('request.mode', 'live')
+  }
+
+  /**
+   * Gets the directory of the recorded pine-facade fixtures.
+   * A relative `pinescript.request.fixtures` path is resolved against the first workspace folder.
+   * @returns {string} - The directory, `.pine-fixtures` in the workspace by default.
+   */
+  private get fixturesDirectory(): string {
+    const setting = vscode.workspace.getConfiguration('pinescript').get<string>('request.fixtures') || '.pine-fixtures'
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? Class.context?.globalStorageUri.fsPath ?? '.'
+    return path.resolve(folder, setting)
+  }
+
+  /** Holds the URL for the Pine facade */
+  private get pineUrl(): string {
+    return this.getClient().baseUrl
   }
 
   /**
    * Makes a request to the specified URL using the specified method.
+   * Failures are logged and shown by the status bar indicator.
    * @param {string} method - The HTTP method to use for the request.
    * @param {string} url - The URL to make the request to.
-   * @returns {Promise<any>} A promise that resolves to the response from the request.
+   * @param {string} [source] - The script to send with a POST request, the active document's text by default.
+   * @param {AbortSignal} [signal] - Cancels the request.
+   * @returns {Promise<any>} A promise that resolves to the response from the request, or undefined if it failed.
    */
-  async request(method: string, url: string): Promise<any> {
-    // Ensure node-fetch is loaded
-    await this.loadFetchModule()
-    // Initialize a new URLSearchParams object
-    const formData = new URLSearchParams()
-    // Get the text of the active document
-    let body = VSCode.Text
-    // Define the options for the request
-    const requestOptions: {
-      method: string
-      headers: any
-      body?: string | URLSearchParams
-    } = {
-      method: method,
-      headers: await this.getHeaders(),
-    }
-    // If the method is POST, append the body to the form data and set the body of the request options
-    if (method.toUpperCase() === 'POST') {
-      formData.append('source', body ?? ' ')
-      requestOptions.body = formData
-    }
-
+  async request(method: string, url: string, source?: string, signal?: AbortSignal): Promise<any> {
+    Class.PineStatusBar.requestStarted()
     try {
-      // Make the request
-      const response = await this.fetch(url, requestOptions)
-      // If the response is not ok, throw an error
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status} ${response.statusText}`)
-      }
-      // If the response is defined, return the JSON from the response
-      if (response !== undefined) {
-        return response.json()
-      }
+      const response = await this.getClient().request(method, url, source ?? VSCode.Text, signal)
+      Class.PineStatusBar.requestSucceeded()
+      return response
     } catch (error) {
-      // Log any errors
+      if (error instanceof PineFacadeError && error.cancelled) {
+        Class.PineStatusBar.requestCancelled()
+        return
+      }
       console.error('Error in request:', error)
+      Class.PineStatusBar.requestFailed(error instanceof Error ? error.message : String(error))
       return
     }
   }
 
   /**
    * Perform linting on PineScript.
+   * Responses are cached by a hash of the pine-facade URL, the script version and the script, unless fixtures are
+   * recorded or replayed.
+   * @param {string} [source] - The script to lint, the active document's text by default.
+   * @param {AbortSignal} [signal] - Cancels the request, e.g. when the document changes again.
    * @returns {Promise<any>} - Linting results.
    */
-  async lint(): Promise<any> {
-    try {
-      const url = `${this.pineUrl}translate_light?user_name=Guest&pine_id=00000000-0000-0000-0000-000000000000`
-      const response = await this.request('POST', url)
-      if (response && response?.result) {
-        return response
+  async lint(source?: string, signal?: AbortSignal): Promise<any> {
+    const text = source ?? VSCode.Text ?? ''
+    // Recording and replaying fixtures must reach the transport
+    const useCache = this.mode === 'live'
+    const key = this.lintCacheKey(text)
+    const cached = useCache ? await Class.PineLintCache.get(key) : undefined
+    if (cached) {
+      return cached
+    }
+    const response = await this.request('POST', this.getClient().lintUrl, text, signal)
+    if (response && response?.result) {
+      if (useCache) {
+        Class.PineLintCache.set(key, response)
       }
-    } catch (error) {
-      console.error(error)
+      return response
     }
   }
 
+  /**
+   * Gets the lint response of a script from the cache, without sending a request.
+   * @param {string} source - The script.
+   * @returns {Promise<any>} - The cached response, or undefined if the script was not linted before.
+   */
+  async cachedLint(source: string): Promise<any> {
+    return this.mode === 'live' ? Class.PineLintCache.get(this.lintCacheKey(source)) : undefined
+  }
+
+  /**
+   * Gets the cache key of the lint response of a script.
+   * @param {string} source - The script.
+   * @returns {string} - The hash of the pine-facade URL, the script version and the script.
+   */
+  private lintCacheKey(source: string): string {
+    return PineLintCache.hash(this.getClient().lintUrl, PineLintCore.scriptVersion(source).version ?? '', source)
+  }
+
   /**
    * Get a list of libraries based on a prefix.
    * @param {string} libPrefix - Prefix to filter libraries.
@@ -0,0 +1,493 @@
+import {
+  PineAstWalker,
+  PineBlock,
+  PineExpression,
+  PineFunctionDeclaration,
+  PineIdentifier,
+  PineNode,
+  PineScript,
+  PineStatement,
+  PineTypeReference,
+} from './PineAst'
+
+/** The kinds of symbols a script can declare. */
+export type PineSymbolKind =
+  | 'function'
+  | 'method'
+  | 'type'
+  | 'enum'
+  | 'field'
+  | 'enumMember'
+  | 'variable'
+  | 'parameter'
+  | 'import'
+
+/** A declared name. */
+export interface PineSymbol {
+  name: string
+  kind: PineSymbolKind
+  /** The declaring node, e.g. the whole function declaration. */
+  node: PineNode
+  /** The node of the declared name. */
+  nameNode: PineIdentifier
+  scope: PineScope
+  /** The declared or inferred type name of variables, parameters and fields. */
+  type?: string
+  /** Fields of a type, members of an enum or parameters of a function. */
+  members: PineSymbol[]
+  /** The type, enum or function a member belongs to. */
+  owner?: PineSymbol
+  references: PineReference[]
+}
+
+/** A use of a symbol's name. The span covers the name only. */
+export interface PineReference {
+  name: string
+  start: number
+  end: number
+  symbol: PineSymbol
+}
+
+/** A lexical scope: the script, a function, or a block. */
+export interface PineScope {
+  node: PineNode
+  parent?: PineScope
+  symbols: Map<string, PineSymbol[]>
+}
+
+/** The symbols of a script and the references bound to them. */
+export interface PineScopeAnalysis {
+  global: PineScope
+  symbols: PineSymbol[]
+  references: PineReference[]
+  /** Identifiers that did not resolve to a symbol of the script, such as built-ins. */
+  unresolved: PineIdentifier[]
+}
+
+/**
+ * PineScopeAnalyzer binds the identifiers of a syntax tree to their declarations.
+ *
+ * Functions, methods, types, enums and imports are visible in the whole script. Variables are visible after their
+ * declaration in their block and nested blocks, parameters in their function, and loop iterators in the loop body.
+ * Member names such as `point.x` are bound when the object's type is known or only one member has the name.
+ */
+export class PineScopeAnalyzer {
+  /** The array functions that return an element of the array. */
+  private static readonly elementAccessors: string[] = ['get', 'first', 'last', 'pop', 'shift', 'remove']
+
+  private analysis: PineScopeAnalysis
+  private functionScopes: Map<PineFunctionDeclaration, PineScope> = new Map()
+  /** References by start offset, to look up what a member name was bound to. */
+  private referencesByStart: Map<number, PineReference> = new Map()
+
+  constructor(script: PineScript) {
+    this.analysis = {
+      global: { node: script, symbols: new Map() },
+      symbols: [],
+      references: [],
+      unresolved: [],
+    }
+  }
+
+  /**
+   * Analyzes a script.
+   * @param script - The syntax tree of the script.
+   * @returns The symbols and references.
+   */
+  static analyze(script: PineScript): PineScopeAnalysis {
+    return new PineScopeAnalyzer(script).run(script)
+  }
+
+  /**
+   * Finds the symbol declared or referenced at an offset.
+   * @param analysis - The analysis to search.
+   * @param offset - The offset.
+   * @returns The symbol, or undefined if there is no bound name at the offset.
+   */
+  static symbolAt(analysis: PineScopeAnalysis, offset: number): PineSymbol | undefined {
+    const declared = analysis.symbols.find((symbol) => symbol.nameNode.start <= offset && offset <= symbol.nameNode.end)
+    return declared ?? PineScopeAnalyzer.referenceAt(analysis, offset)?.symbol
+  }
+
+  /**
+   * Finds the reference at an offset.
+   * @param analysis - The analysis to search.
+   * @param offset - The offset.
+   * @returns The reference, or undefined if there is none at the offset.
+   */
+  static referenceAt(analysis: PineScopeAnalysis, offset: number): PineReference | undefined {
+    return analysis.references.find((reference) => reference.start <= offset && offset <= reference.end)
+  }
+
+  private run(script: PineScript): PineScopeAnalysis {
+    const { global } = this.analysis
+    for (const statement of script.body) {
+      this.hoist(statement, global)
+    }
+    this.visitStatements(script.body, global)
+    return this.analysis
+  }
+
+  // Declarations
+
+  /** Declares the script-wide symbols of a top-level statement and their members. */
+  private hoist(statement: PineStatement, scope: PineScope) {
+    switch (statement.kind) {
+      case 'FunctionDeclaration': {
+        const symbol = this.declare(statement.isMethod ? 'method' : 'function', statement.name, statement, scope)
+        const functionScope: PineScope = { node: statement, parent: scope, symbols: new Map() }
+        for (const param of statement.params) {
+          const member = this.declare('parameter', param.name, param, functionScope)
+          member.owner = symbol
+          member.type = param.typeAnnotation && PineAstWalker.typeToString(param.typeAnnotation)
+          symbol.members.push(member)
+        }
+        this.functionScopes.set(statement, functionScope)
+        break
+      }
+      case 'TypeDeclaration': {
+        const symbol = this.declare('type', statement.name, statement, scope)
+        for (const field of statement.fields) {
+          const member = this.createSymbol('field', field.name, field, scope)
+          member.owner = symbol
+          member.type = PineAstWalker.typeToString(field.typeAnnotation)
+          symbol.members.push(member)
+        }
+        break
+      }
+      case 'EnumDeclaration': {
+        const symbol = this.declare('enum', statement.name, statement, scope)
+        for (const enumMember of statement.members) {
+          const member = this.createSymbol('enumMember', enumMember.name, enumMember, scope)
+          member.owner = symbol
+          member.type = statement.name.name
+          symbol.members.push(member)
+        }
+        break
+      }
+      case 'ImportDeclaration':
+        this.declare('import', statement.alias, statement, scope)
+        break
+    }
+  }
+
+  /** Creates a symbol and makes it visible in a scope. */
+  private declare(kind: PineSymbolKind, nameNode: PineIdentifier, node: PineNode, scope: PineScope): PineSymbol {
+    const symbol = this.createSymbol(kind, nameNode, node, scope)
+    const existing = scope.symbols.get(symbol.name) ?? []
+    scope.symbols.set(symbol.name, [...existing, symbol])
+    return symbol
+  }
+
+  /** Creates a symbol without making it visible by name, as for fields and enum members. */
+  private createSymbol(kind: PineSymbolKind, nameNode: PineIdentifier, node: PineNode, scope: PineScope): PineSymbol {
+    const symbol: PineSymbol = { name: nameNode.name, kind, node, nameNode, scope, members: [], references: [] }
+    this.analysis.symbols.push(symbol)
+    return symbol
+  }
+
+  // Statements
+
+  private visitStatements(body: PineStatement[], scope: PineScope) {
+    for (const statement of body) {
+      this.visitStatement(statement, scope)
+    }
+  }
+
+  private visitStatement(statement: PineStatement, scope: PineScope) {
+    switch (statement.kind) {
+      case 'FunctionDeclaration': {
+        const functionScope = this.functionScopes.get(statement) ?? {
+          node: statement,
+          parent: scope,
+          symbols: new Map(),
+        }
+        for (const param of statement.params) {
+          this.visitType(param.typeAnnotation, scope)
+          this.visitExpression(param.defaultValue, scope)
+        }
+        this.visitBlock(statement.body, functionScope)
+        break
+      }
+      case 'TypeDeclaration':
+        for (const field of statement.fields) {
+          this.visitType(field.typeAnnotation, scope)
+          this.visitExpression(field.defaultValue, scope)
+        }
+        break
+      case 'EnumDeclaration':
+      case 'ImportDeclaration':
+      case 'BreakStatement':
+      case 'ContinueStatement':
+        break
+      case 'VariableDeclaration': {
+        this.visitType(statement.typeAnnotation, scope)
+        this.visitExpression(statement.init, scope)
+        const symbol = this.declare('variable', statement.name, statement, scope)
+        symbol.type = statement.typeAnnotation
+          ? PineAstWalker.typeToString(statement.typeAnnotation)
+          : this.typeOf(statement.init, scope)
+        break
+      }
+      case 'TupleDeclaration':
+        this.visitExpression(statement.init, scope)
+        for (const name of statement.names) {
+          this.declare('variable', name, statement, scope)
+        }
+        break
+      case 'Assignment':
+        this.visitExpression(statement.target, scope)
+        this.visitExpression(statement.value, scope)
+        break
+      case 'ExpressionStatement':
+        this.visitExpression(statement.expression, scope)
+        break
+    }
+  }
+
+  /** Visits a block in a new child scope, optionally seeded with symbols such as loop iterators. */
+  private visitBlock(block: PineBlock, parent: PineScope, seed?: (scope: PineScope) => void) {
+    const scope: PineScope = { node: block, parent, symbols: new Map() }
+    seed?.(scope)
+    this.visitStatements(block.body, scope)
+  }
+
+  // Expressions
+
+  private visitExpression(expression: PineExpression | undefined, scope: PineScope) {
+    if (!expression) {
+      return
+    }
+    switch (expression.kind) {
+      case 'Identifier':
+        this.resolveIdentifier(expression, scope)
+        break
+      case 'Literal':
+        break
+      case 'MemberExpression':
+        this.visitExpression(expression.object, scope)
+        this.resolveMember(expression.object, expression.property, scope, false)
+        break
+      case 'CallExpression': {
+        const callee = expression.callee
+        if (callee.kind === 'MemberExpression') {
+          this.visitExpression(callee.object, scope)
+          this.resolveMember(callee.object, callee.property, scope, true)
+        } else {
+          this.visitExpression(callee, scope)
+        }
+        for (const type of expression.typeArguments) {
+          this.visitType(type, scope)
+        }
+        const owner = this.calleeSymbol(expression.callee, scope)
+        for (const arg of expression.args) {
+          if (arg.name) {
+            const member = owner?.members.find((m) => m.name === arg.name?.name)
+            if (member) {
+              this.addReference(arg.name, member)
+            }
+          }
+          this.visitExpression(arg.value, scope)
+        }
+        break
+      }
+      case 'IfExpression':
+        this.visitExpression(expression.test, scope)
+        this.visitBlock(expression.consequent, scope)
+        if (expression.alternate?.kind === 'Block') {
+          this.visitBlock(expression.alternate, scope)
+        } else {
+          this.visitExpression(expression.alternate, scope)
+        }
+        break
+      case 'ForExpression':
+        this.visitExpression(expression.from, scope)
+        this.visitExpression(expression.to, scope)
+        this.visitExpression(expression.step, scope)
+        this.visitBlock(expression.body, scope, (bodyScope) => {
+          this.declare('variable', expression.iterator, expression, bodyScope).type = 'int'
+        })
+        break
+      case 'ForInExpression':
+        this.visitExpression(expression.iterable, scope)
+        this.visitBlock(expression.body, scope, (bodyScope) => {
+          const iterableType = this.typeOf(expression.iterable, scope)
+          const [index, item] =
+            expression.iterators.length > 1 ? expression.iterators : [undefined, ...expression.iterators]
+          if (index) {
+            this.declare('variable', index, expression, bodyScope).type = 'int'
+          }
+          if (item) {
+            this.declare('variable', item, expression, bodyScope).type =
+              iterableType && PineScopeAnalyzer.elementType(iterableType)
+          }
+        })
+        break
+      case 'WhileExpression':
+        this.visitExpression(expression.test, scope)
+        this.visitBlock(expression.body, scope)
+        break
+      case 'SwitchExpression':
+        this.visitExpression(expression.discriminant, scope)
+        for (const switchCase of expression.cases) {
+          this.visitExpression(switchCase.test, scope)
+          this.visitBlock(switchCase.body, scope)
+        }
+        break
+      default:
+        for (const child of PineAstWalker.children(expression)) {
+          this.visitExpression(child as PineExpression, scope)
+        }
+    }
+  }
+
+  /** Binds the names in a type annotation, e.g. `Point` in `array<Point>` or `lib` in `lib.Type`. */
+  private visitType(type: PineTypeReference | undefined, scope: PineScope) {
+    if (!type) {
+      return
+    }
+    const [head] = type.name.split('.')
+    const symbol = this.lookup(head, scope)?.find((s) => s.kind === 'type' || s.kind === 'enum' || s.kind === 'import')
+    if (symbol) {
+      this.analysis.references.push(this.reference(head, type.start, symbol))
+    }
+    for (const argument of type.typeArguments) {
+      this.visitType(argument, scope)
+    }
+  }
+
+  // Resolution
+
+  private resolveIdentifier(identifier: PineIdentifier, scope: PineScope) {
+    const symbols = this.lookup(identifier.name, scope)
+    if (symbols?.length) {
+      this.addReference(identifier, symbols[symbols.length - 1])
+    } else {
+      this.analysis.unresolved.push(identifier)
+    }
+  }
+
+  /**
+   * Binds `object.property` to a field, enum member or method of the script.
+   * @param isCall - Whether the member is called, in which case methods are preferred.
+   */
+  private resolveMember(object: PineExpression, property: PineIdentifier, scope: PineScope, isCall: boolean) {
+    const objectSymbol = object.kind === 'Identifier' ? this.lookup(object.name, scope)?.slice(-1)[0] : undefined
+    if (objectSymbol?.kind === 'import') {
+      return
+    }
+    if (objectSymbol?.kind === 'type' || objectSymbol?.kind === 'enum') {
+      const member = objectSymbol.members.find((m) => m.name === property.name)
+      if (member) {
+        this.addReference(property, member)
+      }
+      return
+    }
+
+    const methods = this.analysis.symbols.filter((s) => s.kind === 'method' && s.name === property.name)
+    const objectType = this.typeOf(object, scope)
+    const typeSymbol = objectType ? this.lookupType(objectType, scope) : undefined
+    if (isCall && methods.length) {
+      const typed = methods.find((m) => m.members[0]?.type === objectType)
+      this.addReference(property, typed ?? methods[0])
+      return
+    }
+    const field = typeSymbol?.members.find((m) => m.name === property.name)
+    if (field) {
+      this.addReference(property, field)
+      return
+    }
+    const fields = this.analysis.symbols.filter((s) => s.kind === 'field' && s.name === property.name)
+    if (!typeSymbol && fields.length === 1) {
+      this.addReference(property, fields[0])
+    }
+  }
+
+  /** Finds the function or type whose members the named arguments of a call refer to. */
+  private calleeSymbol(callee: PineExpression, scope: PineScope): PineSymbol | undefined {
+    if (callee.kind === 'Identifier') {
+      return this.lookup(callee.name, scope)?.find((s) => s.kind === 'function')
+    }
+    if (callee.kind === 'MemberExpression') {
+      if (callee.property.name === 'new' && callee.object.kind === 'Identifier') {
+        return this.lookupType(callee.object.name, scope)
+      }
+      const reference = this.referencesByStart.get(callee.property.start)
+      return reference?.symbol.kind === 'method' ? reference.symbol : undefined
+    }
+    return undefined
+  }
+
+  /**
+   * Infers the type of an expression where the script makes it obvious, e.g. `array<Point>` for
+   * `array.new<Point>()` or `Point` for `points.get(0)`.
+   */
+  private typeOf(expression: PineExpression, scope: PineScope): string | undefined {
+    switch (expression.kind) {
+      case 'Identifier':
+        return this.lookup(expression.name, scope)?.slice(-1)[0]?.type
+      case 'MemberExpression':
+        return this.referencesByStart.get(expression.property.start)?.symbol.type
+      case 'IndexExpression':
+        return this.typeOf(expression.object, scope)
+      case 'CallExpression': {
+        const callee = expression.callee
+        if (callee.kind !== 'MemberExpression') {
+          return undefined
+        }
+        const { object, property } = callee
+        if (property.name === 'new' && object.kind === 'Identifier') {
+          if (object.name === 'array' && expression.typeArguments.length === 1) {
+            return `array<${PineAstWalker.typeToString(expression.typeArguments[0])}>`
+          }
+          return this.lookupType(object.name, scope) ? object.name : undefined
+        }
+        if (!PineScopeAnalyzer.elementAccessors.includes(property.name)) {
+          return undefined
+        }
+        // `points.get(0)` or `array.get(points, 0)`
+        const isNamespaceCall = object.kind === 'Identifier' && object.name === 'array'
+        const arrayExpression = isNamespaceCall ? expression.args[0]?.value : object
+        const arrayType = arrayExpression && this.typeOf(arrayExpression, scope)
+        return arrayType && PineScopeAnalyzer.elementType(arrayType)
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Returns the element type of an array type.
+   * @param type - The type, e.g. `array<Point>` or `Point[]`.
+   * @returns The element type, or undefined if the type is not an array.
+   */
+  static elementType(type: string): string | undefined {
+    const match = /^array<(.+)>$/.exec(type) ?? /^(.+)\[\]$/.exec(type)
+    return match?.[1]
+  }
+
+  /** Finds the visible symbols with a name, innermost scope first. */
+  private lookup(name: string, scope: PineScope): PineSymbol[] | undefined {
+    for (let current: PineScope | undefined = scope; current; current = current.parent) {
+      const symbols = current.symbols.get(name)
+      if (symbols?.length) {
+        return symbols
+      }
+    }
+    return undefined
+  }
+
+  private lookupType(name: string, scope: PineScope): PineSymbol | undefined {
+    return this.lookup(name, scope)?.find((s) => s.kind === 'type' || s.kind === 'enum')
+  }
+
+  private addReference(identifier: PineIdentifier, symbol: PineSymbol) {
+    this.analysis.references.push(this.reference(identifier.name, identifier.start, symbol))
+  }
+
+  private reference(name: string, start: number, symbol: PineSymbol): PineReference {
+    const reference: PineReference = { name, start, end: start + name.length, symbol }
+    symbol.references.push(reference)
+    this.referencesByStart.set(start, reference)
+    return reference
+  }
+}
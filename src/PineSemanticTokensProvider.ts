@@ -0,0 +1,271 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineLint } from './PineLint'
+import {
+  PineAstWalker,
+  PineArgument,
+  PineCallExpression,
+  PineFieldDeclaration,
+  PineFunctionDeclaration,
+  PineIdentifier,
+  PineMemberExpression,
+  PineNode,
+  PineParameter,
+  PineTypeReference,
+  PineVariableDeclaration,
+} from './PineAst'
+import { PineSymbol, PineSymbolKind } from './PineScopeAnalyzer'
+
+/** A semantic token before encoding, by offset. */
+interface PineSemanticToken {
+  start: number
+  length: number
+  type: string
+  modifiers: string[]
+}
+
+/** The names documented for the built-ins, by what they are. */
+interface PineBuiltIns {
+  functions: Set<string>
+  methods: Set<string>
+  variables: Set<string>
+  constants: Set<string>
+  types: Set<string>
+  /** The prefixes of dotted built-in names, such as `ta` or `strategy.risk`. */
+  namespaces: Set<string>
+}
+
+/**
+ * The PineSemanticTokensProvider class classifies the names of a script from its declarations and the built-in docs,
+ * which the TextMate grammar cannot do: user functions and variables, types and built-in types, fields and methods,
+ * parameters and globals. Built-ins get the `defaultLibrary` modifier, `const` declarations `readonly`, and names with
+ * a `@deprecated` doc comment or a deprecation warning `deprecated`.
+ */
+export class PineSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+  static readonly legend = new vscode.SemanticTokensLegend(
+    ['namespace', 'type', 'enum', 'enumMember', 'function', 'method', 'parameter', 'property', 'variable'],
+    ['declaration', 'readonly', 'deprecated', 'defaultLibrary'],
+  )
+
+  /** The token type of each kind of symbol. */
+  static readonly symbolTypes: Record<PineSymbolKind, string> = {
+    function: 'function',
+    method: 'method',
+    type: 'type',
+    enum: 'enum',
+    field: 'property',
+    enumMember: 'enumMember',
+    variable: 'variable',
+    parameter: 'parameter',
+    import: 'namespace',
+  }
+
+  /** The built-in names, keyed by the version of the docs they were collected from. */
+  private builtIns: Map<string, PineBuiltIns> = new Map()
+
+  /**
+   * Provides the semantic tokens of a document.
+   * @param document - The document.
+   * @returns The tokens.
+   */
+  provideDocumentSemanticTokens(document: vscode.TextDocument): vscode.SemanticTokens {
+    const text = document.getText()
+    Class.PineDocsManager.useVersionOf(text)
+    const { script } = Class.PineParser.parseScript(text)
+    const analysis = Class.PineParser.analyzeScript(text)
+    const tokens: Map<number, PineSemanticToken> = new Map()
+    const add = (start: number, length: number, type: string, modifiers: string[] = []) => {
+      if (length > 0 && !tokens.has(start)) {
+        tokens.set(start, { start, length, type, modifiers })
+      }
+    }
+
+    for (const symbol of analysis.symbols) {
+      const modifiers = this.symbolModifiers(symbol)
+      const type = PineSemanticTokensProvider.symbolTypes[symbol.kind]
+      add(symbol.nameNode.start, symbol.nameNode.name.length, type, ['declaration', ...modifiers])
+      for (const reference of symbol.references) {
+        add(reference.start, reference.end - reference.start, type, modifiers)
+      }
+    }
+
+    const builtIns = this.getBuiltIns()
+    const library = ['defaultLibrary']
+    PineAstWalker.walk(script, (node, parent) => {
+      switch (node.kind) {
+        case 'MemberExpression': {
+          const member = node as PineMemberExpression
+          const name = PineSemanticTokensProvider.dottedName(member)
+          const isCallee = parent?.kind === 'CallExpression' && (parent as PineCallExpression).callee === member
+          const { property } = member
+          if (!name || tokens.has(PineSemanticTokensProvider.headOf(member).start)) {
+            // A member of a script value, e.g. `points.push()`
+            if (isCallee && builtIns.methods.has(property.name)) {
+              add(property.start, property.name.length, 'method', library)
+            }
+          } else if (isCallee && builtIns.functions.has(name)) {
+            add(property.start, property.name.length, 'function', library)
+          } else if (builtIns.constants.has(name)) {
+            add(property.start, property.name.length, 'variable', ['readonly', ...library])
+          } else if (builtIns.variables.has(name)) {
+            add(property.start, property.name.length, 'variable', library)
+          } else if (builtIns.namespaces.has(name)) {
+            add(property.start, property.name.length, 'namespace', library)
+          } else if (builtIns.types.has(name)) {
+            add(property.start, property.name.length, 'type', library)
+          }
+          break
+        }
+        case 'Identifier': {
+          const identifier = node as PineIdentifier
+          if (tokens.has(identifier.start)) {
+            break
+          }
+          if (parent?.kind === 'Argument' && (parent as PineArgument).name === identifier) {
+            add(identifier.start, identifier.name.length, 'parameter', library)
+          } else if (parent?.kind === 'MemberExpression' && (parent as PineMemberExpression).object === identifier) {
+            if (builtIns.namespaces.has(identifier.name)) {
+              add(identifier.start, identifier.name.length, 'namespace', library)
+            } else if (builtIns.variables.has(identifier.name)) {
+              add(identifier.start, identifier.name.length, 'variable', library)
+            }
+          } else if (parent?.kind === 'CallExpression' && builtIns.functions.has(identifier.name)) {
+            add(identifier.start, identifier.name.length, 'function', library)
+          } else if (builtIns.constants.has(identifier.name)) {
+            add(identifier.start, identifier.name.length, 'variable', ['readonly', ...library])
+          } else if (builtIns.variables.has(identifier.name)) {
+            add(identifier.start, identifier.name.length, 'variable', library)
+          }
+          break
+        }
+        case 'TypeReference': {
+          const type = node as PineTypeReference
+          if (builtIns.types.has(type.name)) {
+            add(type.start, type.name.length, 'type', library)
+          }
+          break
+        }
+      }
+    })
+
+    this.markDeprecated(document, tokens)
+    const builder = new vscode.SemanticTokensBuilder(PineSemanticTokensProvider.legend)
+    for (const token of [...tokens.values()].sort((a, b) => a.start - b.start)) {
+      const start = document.positionAt(token.start)
+      const end = document.positionAt(token.start + token.length)
+      if (start.line === end.line) {
+        builder.push(new vscode.Range(start, end), token.type, token.modifiers)
+      }
+    }
+    return builder.build()
+  }
+
+  /**
+   * Gets the modifiers of a symbol's tokens: `readonly` for `const` declarations and enum members,
+   * `deprecated` for functions documented with `@deprecated`.
+   * @param symbol - The symbol.
+   * @returns The modifiers.
+   */
+  private symbolModifiers(symbol: PineSymbol): string[] {
+    const modifiers: string[] = []
+    const node = symbol.node
+    const isConst =
+      (node.kind === 'VariableDeclaration' && (node as PineVariableDeclaration).qualifier === 'const') ||
+      (node.kind === 'FieldDeclaration' && (node as PineFieldDeclaration).isConst) ||
+      (node.kind === 'Parameter' && (node as PineParameter).qualifier === 'const') ||
+      symbol.kind === 'enumMember'
+    if (isConst) {
+      modifiers.push('readonly')
+    }
+    if (
+      node.kind === 'FunctionDeclaration' &&
+      /@deprecated\b/.test((node as PineFunctionDeclaration).docComment ?? '')
+    ) {
+      modifiers.push('deprecated')
+    }
+    return modifiers
+  }
+
+  /**
+   * Adds the `deprecated` modifier to the tokens that a deprecation warning of the linter points at.
+   * @param document - The document.
+   * @param tokens - The tokens by offset.
+   */
+  private markDeprecated(document: vscode.TextDocument, tokens: Map<number, PineSemanticToken>): void {
+    const deprecations = (PineLint.getDiagnostics(document.uri) ?? []).filter(
+      (diagnostic) => diagnostic.code === 'deprecated',
+    )
+    for (const diagnostic of deprecations) {
+      const from = document.offsetAt(diagnostic.range.start)
+      const to = document.offsetAt(diagnostic.range.end)
+      for (const token of tokens.values()) {
+        if (token.start >= from && token.start < to && !token.modifiers.includes('deprecated')) {
+          token.modifiers = [...token.modifiers, 'deprecated']
+        }
+      }
+    }
+  }
+
+  /**
+   * Collects the built-in names from the docs of the loaded version, once per version.
+   * @returns The built-in names.
+   */
+  private getBuiltIns(): PineBuiltIns {
+    const version = Class.PineDocsManager.version
+    let builtIns = this.builtIns.get(version)
+    if (!builtIns) {
+      const names = (...keys: string[]) =>
+        new Set<string>(
+          Class.PineDocsManager.getDocs(...keys)
+            .map((doc: any) => doc?.name)
+            .filter((name: any): name is string => typeof name === 'string'),
+        )
+      const functions = names('functions')
+      const variables = names('variables')
+      const constants = names('constants')
+      const namespaces = new Set<string>()
+      for (const name of [...functions, ...variables, ...constants]) {
+        const parts = name.split('.')
+        for (let i = 1; i < parts.length; i++) {
+          namespaces.add(parts.slice(0, i).join('.'))
+        }
+      }
+      const methods = new Set<string>(
+        Class.PineDocsManager.getDocs('methods')
+          .map((doc: any) => doc?.methodName ?? doc?.name?.split('.').pop())
+          .filter((name: any): name is string => typeof name === 'string'),
+      )
+      // The docs list instances such as `array<float>` and `int[]`, type references name `array` and `int`
+      const types = new Set([...names('types')].map((name) => name.replace(/<.*>$|\[\]$/, '')))
+      builtIns = { functions, methods, variables, constants, types, namespaces }
+      this.builtIns.set(version, builtIns)
+    }
+    return builtIns
+  }
+
+  /**
+   * Gets the dotted name of a chain of identifiers, e.g. `ta.sma` or `strategy.risk.allow_entry_in`.
+   * @param node - The member expression.
+   * @returns The name, or undefined if the object is not a chain of identifiers.
+   */
+  static dottedName(node: PineNode): string | undefined {
+    if (node.kind === 'Identifier') {
+      return (node as PineIdentifier).name
+    }
+    if (node.kind === 'MemberExpression') {
+      const member = node as PineMemberExpression
+      const object = PineSemanticTokensProvider.dottedName(member.object)
+      return object && `${object}.${member.property.name}`
+    }
+    return undefined
+  }
+
+  /** The node at the start of a member chain, e.g. `ta` in `ta.sma`. */
+  private static headOf(node: PineMemberExpression): PineNode {
+    let head: PineNode = node
+    while (head.kind === 'MemberExpression') {
+      head = (head as PineMemberExpression).object
+    }
+    return head
+  }
+}
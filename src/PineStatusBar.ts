@@ -0,0 +1,80 @@
+import * as vscode from 'vscode'
+
+/**
+ * The PineStatusBar class shows the state of the requests to pine-facade in the status bar,
+ * so failed lint requests are visible instead of only being logged.
+ * It is shown while a Pine Script editor is active; clicking it opens the request settings.
+ */
+export class PineStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem
+  /** The number of requests in flight. */
+  private pending = 0
+  /** The message of the last failed request, cleared by the next successful one. */
+  private error: string | undefined
+
+  constructor() {
+    this.item = vscode.window.createStatusBarItem('pinescript.request', vscode.StatusBarAlignment.Left, 0)
+    this.item.name = 'Pine Script Lint'
+    this.item.command = {
+      title: 'Open Pine Script Request Settings',
+      command: 'workbench.action.openSettings',
+      arguments: ['pinescript.request'],
+    }
+    this.refresh()
+  }
+
+  /** Marks the start of a request. */
+  requestStarted(): void {
+    this.pending++
+    this.refresh()
+  }
+
+  /** Marks a request as successful. */
+  requestSucceeded(): void {
+    this.pending = Math.max(0, this.pending - 1)
+    this.error = undefined
+    this.refresh()
+  }
+
+  /**
+   * Marks a request as failed.
+   * @param message - Why the request failed.
+   */
+  requestFailed(message: string): void {
+    this.pending = Math.max(0, this.pending - 1)
+    this.error = message
+    this.refresh()
+  }
+
+  /** Marks a request as cancelled, which keeps the previous state. */
+  requestCancelled(): void {
+    this.pending = Math.max(0, this.pending - 1)
+    this.refresh()
+  }
+
+  /** Updates the text and the visibility of the indicator. */
+  refresh(): void {
+    if (this.pending > 0) {
+      this.item.text = '$(sync~spin) Pine'
+      this.item.tooltip = 'Linting with pine-facade…'
+      this.item.backgroundColor = undefined
+    } else if (this.error) {
+      this.item.text = '$(warning) Pine'
+      this.item.tooltip = `The last pine-facade request failed: ${this.error}`
+      this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground')
+    } else {
+      this.item.text = '$(check) Pine'
+      this.item.tooltip = 'No failed pine-facade requests'
+      this.item.backgroundColor = undefined
+    }
+    if (vscode.window.activeTextEditor?.document.languageId === 'pine') {
+      this.item.show()
+    } else {
+      this.item.hide()
+    }
+  }
+
+  dispose(): void {
+    this.item.dispose()
+  }
+}
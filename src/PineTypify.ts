@@ -147,6 +147,19 @@ export class PineTypify {
     // this.parseAndAddUDTs(udtDefinitions);
   }
 
+  /**
+   * Infers the type of a value expression, building the type map on first use.
+   * @param valueString The expression, e.g. `color.new(color.red, 50)`.
+   * @returns The type as written in a declaration, or null if it cannot be inferred.
+   */
+  async inferType(valueString: string): Promise<string | null> {
+    if (this.typeMap.size === 0) {
+      await this.makeMap()
+    }
+    const type = this.inferTypeFromValue(valueString, '')
+    return type && !/(plot|hline|undetermined type)/.test(type.baseType) ? this.stringifyParsedType(type) : null
+  }
+
   private inferTypeFromValue(valueString: string, variableName: string): ParsedType | null {
     valueString = valueString.trim()
 
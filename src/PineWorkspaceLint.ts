@@ -0,0 +1,173 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineConsole } from './PineConsole'
+import { PineLint } from './PineLint'
+import { PineLintCore } from './PineLintCore'
+
+/** The outcome of linting one workspace file. */
+export interface PineWorkspaceLintResult {
+  uri: vscode.Uri
+  status: 'ok' | 'problems' | 'skipped' | 'failed'
+  errors: number
+  warnings: number
+  /** Whether the pine-facade response came from the lint cache. */
+  cached: boolean
+  /** Why the file was skipped or failed. */
+  note?: string
+}
+
+/**
+ * The PineWorkspaceLint class lints every Pine Script file of the workspace.
+ * Files are linted a few at a time, pine-facade responses come from the lint cache when the file hasn't changed,
+ * diagnostics go to the Problems panel and a summary is written to the Pine Script Console output channel.
+ */
+export class PineWorkspaceLint {
+  /** The glob of the files to lint. */
+  static readonly include = '**/*.{pine,ps,pinescript}'
+  /** The glob of the files never to lint. */
+  static readonly exclude = '**/node_modules/**'
+
+  /**
+   * Gets the number of files linted at the same time.
+   * @returns The configured concurrency, at least 1.
+   */
+  get concurrency(): number {
+    return Math.max(1, vscode.workspace.getConfiguration('pinescript').get('lint.concurrency', 4))
+  }
+
+  /**
+   * Lints all Pine Script files of the workspace, showing the progress in a cancellable notification.
+   * @returns The result of each linted file.
+   */
+  async lintWorkspace(): Promise<PineWorkspaceLintResult[]> {
+    const files = await vscode.workspace.findFiles(PineWorkspaceLint.include, PineWorkspaceLint.exclude)
+    if (files.length === 0) {
+      vscode.window.showInformationMessage('No Pine Script files found in the workspace.')
+      return []
+    }
+    const results = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Linting Pine Script workspace', cancellable: true },
+      async (progress, token) => {
+        const cancellation = new AbortController()
+        token.onCancellationRequested(() => cancellation.abort())
+        const done: PineWorkspaceLintResult[] = []
+        let next = 0
+        const worker = async () => {
+          while (next < files.length && !token.isCancellationRequested) {
+            done.push(await this.lintFile(files[next++], cancellation.signal))
+            progress.report({ increment: 100 / files.length, message: `${done.length}/${files.length}` })
+          }
+        }
+        await Promise.all(Array.from({ length: Math.min(this.concurrency, files.length) }, () => worker()))
+        return done
+      },
+    )
+    this.report(results, files.length)
+    return results
+  }
+
+  /**
+   * Lints one file and publishes its diagnostics.
+   * Like `PineLint.lintDocument`, scripts without a v5 or v6 `//@version` are only linted locally, and older
+   * versions are reported as unsupported. Only successful pine-facade responses are cached, by `PineRequest.lint`.
+   * @param uri - The URI of the file.
+   * @param signal - Cancels the lint request.
+   * @returns The result of the file.
+   */
+  async lintFile(uri: vscode.Uri, signal?: AbortSignal): Promise<PineWorkspaceLintResult> {
+    const result: PineWorkspaceLintResult = { uri, status: 'ok', errors: 0, warnings: 0, cached: false }
+    try {
+      const text = await this.readFile(uri)
+      const source = PineLint.lintSource
+      const version = /\/\/@version=(\d+)/.exec(text)?.[1]
+      const validVersion = version === '5' || version === '6'
+      if (!validVersion && (source === 'remote' || version !== undefined)) {
+        const { problem } = PineLintCore.scriptVersion(text)
+        if (!version || !problem) {
+          return { ...result, status: 'skipped', note: version ? `v${version} is not supported` : 'no //@version' }
+        }
+        const problems = PineLintCore.applyRuleSettings([problem], PineLint.ruleSettings)
+        const diagnostics = problems.map((unsupported) => PineLint.toDiagnostic(unsupported, uri))
+        return { ...this.publish(result, diagnostics), note: `v${version} is not supported` }
+      }
+
+      const remoteSource = source !== 'local' && validVersion
+      const cached = remoteSource ? await Class.PineRequest.cachedLint(text) : undefined
+      result.cached = cached !== undefined
+      const remote = remoteSource ? cached ?? (await Class.PineRequest.lint(text, signal)) : undefined
+      if (signal?.aborted) {
+        return { ...result, status: 'skipped', note: 'cancelled' }
+      }
+      if (remoteSource && !remote) {
+        if (source === 'remote') {
+          return { ...result, status: 'failed', note: 'no response from pine-facade' }
+        }
+        result.note = 'no response from pine-facade, linted locally'
+      }
+      const local = source !== 'remote' ? Class.PineLocalLint.lint(text) : undefined
+      const response = PineLint.mergeResponses(remote, local)
+      return this.publish(result, PineLint.toDiagnostics(response, uri, text))
+    } catch (error) {
+      console.error('Error linting', uri.fsPath, error)
+      return { ...result, status: 'failed', note: String(error) }
+    }
+  }
+
+  /**
+   * Publishes the diagnostics of a file and counts them into its result.
+   * @param result - The result of the file.
+   * @param diagnostics - The diagnostics of the file.
+   * @returns The result, with the status and counts of the diagnostics.
+   */
+  private publish(result: PineWorkspaceLintResult, diagnostics: vscode.Diagnostic[]): PineWorkspaceLintResult {
+    PineLint.setDiagnostics(result.uri, diagnostics)
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.severity === vscode.DiagnosticSeverity.Error) {
+        result.errors++
+      } else if (diagnostic.severity === vscode.DiagnosticSeverity.Warning) {
+        result.warnings++
+      }
+    }
+    result.status = diagnostics.length > 0 ? 'problems' : 'ok'
+    return result
+  }
+
+  /**
+   * Reads a file, preferring the text of an open document so unsaved changes are linted.
+   * @param uri - The URI of the file.
+   * @returns The text of the file.
+   */
+  private async readFile(uri: vscode.Uri): Promise<string> {
+    const document = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString())
+    return document?.getText() ?? new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))
+  }
+
+  /**
+   * Writes the summary of a workspace lint to the Pine Script Console and shows it.
+   * @param results - The result of each linted file.
+   * @param total - The number of files found.
+   */
+  private report(results: PineWorkspaceLintResult[], total: number): void {
+    const channel = PineConsole.channel
+    const count = (key: 'errors' | 'warnings') => results.reduce((sum, result) => sum + result[key], 0)
+    const cached = results.filter((result) => result.cached).length
+    channel.appendLine(`Pine Script workspace lint - ${new Date().toLocaleString()}`)
+    channel.appendLine(
+      `Files: ${results.length}${results.length < total ? ` of ${total} (cancelled)` : ''}, ` +
+        `errors: ${count('errors')}, warnings: ${count('warnings')}, cached: ${cached}`,
+    )
+    const sorted = results
+      .map((result) => ({ ...result, path: vscode.workspace.asRelativePath(result.uri) }))
+      .sort((a, b) => a.path.localeCompare(b.path))
+    for (const result of sorted) {
+      const counts =
+        result.status === 'ok' || result.status === 'problems' ? ` ${result.errors}E ${result.warnings}W` : ''
+      const note = result.note ? ` (${result.note})` : ''
+      channel.appendLine(
+        `  ${result.status.padEnd(8)} ${result.path}${counts}${result.cached ? ' [cached]' : ''}${note}`,
+      )
+    }
+    channel.appendLine('')
+    PineConsole.show(true)
+  }
+}
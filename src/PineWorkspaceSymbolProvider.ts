@@ -0,0 +1,179 @@
+import * as vscode from 'vscode'
+import { Class } from './PineClass'
+import { PineNode, PineStatement } from './PineAst'
+import { PineDefinitionProvider } from './PineDefinitionProvider'
+import { PineDocumentSymbolProvider } from './PineDocumentSymbolProvider'
+import { PineWorkspaceLint } from './PineWorkspaceLint'
+
+/**
+ * The PineWorkspaceSymbolProvider class answers "Go to Symbol in Workspace" (`Ctrl+T`) for Pine Script.
+ * Every Pine file of the workspace is indexed once with the extraction PineParser uses for the docs of the open
+ * script, `extractFunctions` and `extractTypes`. A file watcher and edits of open documents keep the index current.
+ * Exported members of a library are listed under the library's title.
+ */
+export class PineWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider, vscode.Disposable {
+  /** The symbols of each indexed file, keyed by URI. */
+  private index: Map<string, vscode.SymbolInformation[]> = new Map()
+  /** The files to index again before the next search. */
+  private stale: Map<string, vscode.Uri> = new Map()
+  /** Resolves once the whole workspace has been indexed. */
+  private indexing: Promise<void> | undefined
+  private watcher: vscode.FileSystemWatcher
+
+  constructor() {
+    this.watcher = vscode.workspace.createFileSystemWatcher(PineWorkspaceLint.include)
+    this.watcher.onDidCreate((uri) => this.invalidate(uri))
+    this.watcher.onDidChange((uri) => this.invalidate(uri))
+    this.watcher.onDidDelete((uri) => {
+      this.index.delete(uri.toString())
+      this.stale.delete(uri.toString())
+    })
+  }
+
+  /**
+   * Marks a file to be indexed again before the next search.
+   * @param uri - The URI of the file.
+   */
+  invalidate(uri: vscode.Uri): void {
+    this.stale.set(uri.toString(), uri)
+  }
+
+  /**
+   * Searches the functions, methods, types and enums of the workspace.
+   * @param query - The search text, matched fuzzily against the symbol names.
+   * @param token - Cancels the search.
+   * @returns The matching symbols.
+   */
+  async provideWorkspaceSymbols(query: string, token?: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+    if (!this.indexing) {
+      this.indexing = this.indexWorkspace()
+    }
+    await this.indexing
+    for (const [key, uri] of this.stale) {
+      if (token?.isCancellationRequested) {
+        return []
+      }
+      this.stale.delete(key)
+      await this.indexFile(uri)
+    }
+    const symbols: vscode.SymbolInformation[] = []
+    for (const fileSymbols of this.index.values()) {
+      symbols.push(...fileSymbols.filter((symbol) => PineWorkspaceSymbolProvider.fuzzyMatch(query, symbol.name)))
+    }
+    return symbols
+  }
+
+  /** Indexes every Pine file of the workspace. */
+  private async indexWorkspace(): Promise<void> {
+    const files = await vscode.workspace.findFiles(PineWorkspaceLint.include, PineWorkspaceLint.exclude)
+    for (const uri of files) {
+      await this.indexFile(uri)
+    }
+  }
+
+  /**
+   * Indexes one file, preferring the text of an open document so unsaved changes are found.
+   * @param uri - The URI of the file.
+   */
+  private async indexFile(uri: vscode.Uri): Promise<void> {
+    try {
+      const document = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString())
+      const text = document?.getText() ?? new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))
+      this.index.set(uri.toString(), this.symbolsOf(uri, text.replace(/\r\n/g, '\n')))
+    } catch (error) {
+      console.error('Error indexing', uri.fsPath, error)
+      this.index.delete(uri.toString())
+    }
+  }
+
+  /**
+   * Lists the symbols of a script.
+   * @param uri - The URI of the script.
+   * @param text - The script.
+   * @returns The functions, methods, types and enums of the script.
+   */
+  private symbolsOf(uri: vscode.Uri, text: string): vscode.SymbolInformation[] {
+    const functions = Class.PineParser.extractFunctions(text)
+    const types = Class.PineParser.extractTypes(text)
+    const { script, lineStarts } = Class.PineParser.parseScript(text)
+    const library = this.libraryTitleOf(script.body)
+    const locationOf = (node: PineNode) =>
+      new vscode.Location(
+        uri,
+        new vscode.Range(
+          PineDefinitionProvider.positionIn(lineStarts, node.start),
+          PineDefinitionProvider.positionIn(lineStarts, node.end),
+        ),
+      )
+
+    // The extraction keeps the order of the declarations, so the n-th entry is the n-th declaration
+    const symbols: vscode.SymbolInformation[] = []
+    const functionDeclarations = script.body.filter((statement) => statement.kind === 'FunctionDeclaration')
+    functions.forEach((func, i) => {
+      const receiver = func.method ? func.args[0]?.type : undefined
+      symbols.push(
+        new vscode.SymbolInformation(
+          func.name,
+          func.method ? vscode.SymbolKind.Method : vscode.SymbolKind.Function,
+          receiver ?? (func.export ? library : undefined) ?? '',
+          locationOf(functionDeclarations[i]),
+        ),
+      )
+    })
+    const typeDeclarations = script.body.filter(
+      (statement) => statement.kind === 'TypeDeclaration' || statement.kind === 'EnumDeclaration',
+    )
+    types.forEach((type, i) => {
+      const isEnum = typeDeclarations[i].kind === 'EnumDeclaration'
+      symbols.push(
+        new vscode.SymbolInformation(
+          type.name,
+          isEnum ? vscode.SymbolKind.Enum : vscode.SymbolKind.Struct,
+          (type.export ? library : undefined) ?? '',
+          locationOf(typeDeclarations[i]),
+        ),
+      )
+    })
+    return symbols
+  }
+
+  /**
+   * Finds the title of the `library()` declaration of a script.
+   * @param body - The statements of the script.
+   * @returns The title, or undefined if the script is not a library.
+   */
+  private libraryTitleOf(body: PineStatement[]): string | undefined {
+    for (const statement of body) {
+      if (statement.kind !== 'ExpressionStatement') {
+        continue
+      }
+      const { expression } = statement
+      if (expression.kind === 'CallExpression' && PineDocumentSymbolProvider.calleeName(expression) === 'library') {
+        return PineDocumentSymbolProvider.titleOf(expression) ?? 'library'
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Checks whether the characters of a query appear in a name in order, ignoring case.
+   * @param query - The search text.
+   * @param name - The symbol name.
+   * @returns True if the name matches, always for an empty query.
+   */
+  static fuzzyMatch(query: string, name: string): boolean {
+    const lowerName = name.toLowerCase()
+    let position = 0
+    for (const char of query.toLowerCase().replace(/\s+/g, '')) {
+      position = lowerName.indexOf(char, position) + 1
+      if (position === 0) {
+        return false
+      }
+    }
+    return true
+  }
+
+  dispose(): void {
+    this.watcher.dispose()
+  }
+}
@@ -0,0 +1,5 @@
+import { PineLintCli } from './PineLintCli'
+
+PineLintCli.run(process.argv.slice(2)).then((code) => {
+  process.exitCode = code
+})
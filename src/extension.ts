@@ -7,27 +7,15 @@ import { PineLint } from './PineLint'
 import { checkForNewVersionAndShowChangelog } from './newVersionPopUp'
 import * as vscode from 'vscode'
 import { PineCompletionService } from './PineCompletionService'
+import { PineLibraryContentProvider } from './PineLibraryContentProvider'
+import { PineCodeActionProvider } from './PineCodeActionProvider'
+import { PineSemanticTokensProvider } from './PineSemanticTokensProvider'
 
 export function deactivate() {
   PineLint.versionClear()
-  PineLint.handleDocumentChange()
-  return undefined
+  return Class.pineLintCache?.flush()
 }
 
-let timerStart: number = 0
-// Make it so that if there is no change within 5 seconds it runs a lint
-function checkForChange() {
-  if (timerStart !== 0) {
-    let timerEnd: number = new Date().getTime()
-    if (timerEnd - timerStart > 5000) {
-      PineLint.handleDocumentChange()
-      timerStart = 0
-    }
-  }
-}
-
-setInterval(checkForChange, 5000)
-
 // Activate Function =============================================
 export async function activate(context: vscode.ExtensionContext) {
   console.log('Pine Language Server Activate')
@@ -51,43 +39,50 @@ export async function activate(context: vscode.ExtensionContext) {
   // Push subscriptions to context
   context.subscriptions.push(
     PineLint.DiagnosticCollection,
-    vscode.window.onDidChangeActiveTextEditor(async () => {
+    Class.PineStatusBar,
+    Class.PineWorkspaceSymbolProvider,
+    vscode.window.onDidChangeActiveTextEditor(async (editor) => {
       docmanager.cleanDocs()
       PineResponseFlow.resetDocChange()
-      if (VSCode.LanguageId !== 'pine' && !VSCode.ActivePineFile) {
-        deactivate()
-      } else {
-        if (PineLint.diagnostics.length > 0 && VSCode.Uri) {
-          PineLint.DiagnosticCollection.set(VSCode.Uri, PineLint.diagnostics)
-        }
-        PineLint.initialFlag = true
-        PineLint.initialLint()
+      Class.PineStatusBar.refresh()
+      if (PineLint.isPineDocument(editor?.document)) {
+        docmanager.useVersionOf(editor.document.getText())
+        PineLint.handleActiveDocument(editor.document)
       }
     }),
-    vscode.workspace.onDidOpenTextDocument(async () => {
-      if (VSCode.ActivePineFile) {
-        PineLint.handleDocumentChange()
+    vscode.workspace.onDidOpenTextDocument(async (document) => {
+      if (PineLint.isPineDocument(document)) {
+        PineLint.handleDocumentOpen(document)
       }
     }),
 
     vscode.workspace.onDidChangeTextDocument(async (event) => {
-      if (event.contentChanges.length > 0 && VSCode.ActivePineFile) {
-        PineLint.handleDocumentChange()
-        timerStart = new Date().getTime()
+      if (event.contentChanges.length > 0 && PineLint.isPineDocument(event.document)) {
+        PineLint.handleDocumentChange(event.document)
+        Class.PineWorkspaceSymbolProvider.invalidate(event.document.uri)
       }
     }),
 
-    vscode.workspace.onDidChangeConfiguration(() => {
+    vscode.workspace.onDidChangeConfiguration((event) => {
       console.log('Configuration changed')
+      if (event.affectsConfiguration('pinescript.lint')) {
+        PineLint.handleConfigurationChange()
+      }
+      if (event.affectsConfiguration('pinescript.inlayHints')) {
+        Class.PineInlayHintsProvider.refresh()
+      }
     }),
 
     vscode.workspace.onDidCloseTextDocument((document) => {
       console.log('Document closed:', document.fileName)
-      PineLint.handleDocumentChange()
+      PineLint.clear(document)
     }),
 
     vscode.workspace.onDidSaveTextDocument((document) => {
       console.log('Document saved:', document.fileName)
+      if (PineLint.isPineDocument(document)) {
+        PineLint.handleDocumentSave(document)
+      }
     }),
 
     VSCode.RegisterCommand('pine.docString', async () => new PineDocString().docstring()),
@@ -97,11 +92,53 @@ export async function activate(context: vscode.ExtensionContext) {
     VSCode.RegisterCommand('pine.getStrategyTemplate', async () => Class.PineTemplates.getStrategyTemplate()),
     VSCode.RegisterCommand('pine.getLibraryTemplate', async () => Class.PineTemplates.getLibraryTemplate()),
     VSCode.RegisterCommand('pine.setUsername', async () => Class.PineUserInputs.setUsername()),
+    VSCode.RegisterCommand('pine.lintWorkspace', async () => Class.PineWorkspaceLint.lintWorkspace()),
+    VSCode.RegisterCommand('pine.migrateToV6', async () => Class.PineMigration.migrateDocument()),
     VSCode.RegisterCommand('pine.completionAccepted', () => Class.PineCompletionProvider.completionAccepted()),
     VSCode.Lang.registerColorProvider({ scheme: 'file', language: 'pine' }, Class.PineColorProvider),
     VSCode.Lang.registerHoverProvider({ scheme: 'file', language: 'pine' }, Class.PineHoverProvider),
     VSCode.Lang.registerHoverProvider({ scheme: 'file', language: 'pine' }, Class.PineLibHoverProvider),
     VSCode.Lang.registerRenameProvider({ scheme: 'file', language: 'pine' }, Class.PineRenameProvider),
+    VSCode.Lang.registerDocumentSymbolProvider({ scheme: 'file', language: 'pine' }, Class.PineDocumentSymbolProvider),
+    VSCode.Lang.registerDefinitionProvider(
+      [
+        { scheme: 'file', language: 'pine' },
+        { scheme: PineLibraryContentProvider.scheme, language: 'pine' },
+      ],
+      Class.PineDefinitionProvider,
+    ),
+    vscode.workspace.registerTextDocumentContentProvider(
+      PineLibraryContentProvider.scheme,
+      Class.PineLibraryContentProvider,
+    ),
+    VSCode.Lang.registerReferenceProvider({ scheme: 'file', language: 'pine' }, Class.PineReferenceProvider),
+    VSCode.Lang.registerCallHierarchyProvider(
+      [
+        { scheme: 'file', language: 'pine' },
+        { scheme: PineLibraryContentProvider.scheme, language: 'pine' },
+      ],
+      Class.PineCallHierarchyProvider,
+    ),
+    VSCode.Lang.registerWorkspaceSymbolProvider(Class.PineWorkspaceSymbolProvider),
+    VSCode.Lang.registerCodeLensProvider({ scheme: 'file', language: 'pine' }, Class.PineCodeLensProvider),
+    VSCode.Lang.registerCodeActionsProvider({ scheme: 'file', language: 'pine' }, Class.PineCodeActionProvider, {
+      providedCodeActionKinds: PineCodeActionProvider.providedCodeActionKinds,
+    }),
+    VSCode.Lang.registerDocumentSemanticTokensProvider(
+      { scheme: 'file', language: 'pine' },
+      Class.PineSemanticTokensProvider,
+      PineSemanticTokensProvider.legend,
+    ),
+    VSCode.Lang.registerInlayHintsProvider({ scheme: 'file', language: 'pine' }, Class.PineInlayHintsProvider),
+    VSCode.Lang.registerFoldingRangeProvider({ scheme: 'file', language: 'pine' }, Class.PineFoldingRangeProvider),
+    VSCode.Lang.registerDocumentFormattingEditProvider(
+      { scheme: 'file', language: 'pine' },
+      Class.PineFormattingProvider,
+    ),
+    VSCode.Lang.registerDocumentRangeFormattingEditProvider(
+      { scheme: 'file', language: 'pine' },
+      Class.PineFormattingProvider,
+    ),
     VSCode.Lang.registerInlineCompletionItemProvider(
       { scheme: 'file', language: 'pine' },
       Class.PineInlineCompletionContext,
@@ -129,11 +166,6 @@ export async function activate(context: vscode.ExtensionContext) {
     // VSCode.RegisterCommand                       ('pine.setSessionId'         , async () => Class.pineUserInputs.setSessionId())                       ,
     // VSCode.RegisterCommand                       ('pine.clearKEYS'            , async () => Class.PineUserInputs.clearAllInfo())                       ,
 
-    vscode.commands.registerCommand('extension.forceLint', async () => {
-      const response = await Class.PineRequest.lint()
-      if (response) {
-        console.log(response)
-      }
-    }),
+    vscode.commands.registerCommand('extension.forceLint', async () => PineLint.forceLint()),
   )
 }
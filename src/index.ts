@@ -28,7 +28,33 @@ export { PineHoverMethod } from './PineHoverProvider/PineHoverIsMethod'
 export { PineHoverParam } from './PineHoverProvider/PineHoverIsParam'
 export { PineHoverProvider } from './PineHoverProvider/PineHoverProvider'
 export { PineLint } from './PineLint'
+export { PineLintCore } from './PineLintCore'
+export { PineFacadeClient } from './PineFacadeClient'
+export { PineFacadeFixtures } from './PineFacadeFixtures'
+export { PineFacadeStub } from './PineFacadeStub'
+export { PineLocalLint } from './PineLocalLint'
 export { PineRequest } from './PineRequest'
 export { PineRenameProvider } from './PineRenameProvider'
+export { PineDocumentSymbolProvider } from './PineDocumentSymbolProvider'
+export { PineDefinitionProvider } from './PineDefinitionProvider'
+export { PineLibraryContentProvider } from './PineLibraryContentProvider'
+export { PineReferenceProvider } from './PineReferenceProvider'
+export { PineCodeLensProvider } from './PineCodeLensProvider'
+export { PineWorkspaceLint } from './PineWorkspaceLint'
+export { PineStatusBar } from './PineStatusBar'
+export { PineCodeActionProvider } from './PineCodeActionProvider'
+export { PineLintCache } from './PineLintCache'
+export { PineSemanticTokensProvider } from './PineSemanticTokensProvider'
+export { PineInlayHintsProvider } from './PineInlayHintsProvider'
+export { PineFormatter } from './PineFormatter'
+export { PineFormattingProvider } from './PineFormattingProvider'
+export { PineFoldingRangeProvider } from './PineFoldingRangeProvider'
+export { PineCallHierarchyProvider } from './PineCallHierarchyProvider'
+export { PineWorkspaceSymbolProvider } from './PineWorkspaceSymbolProvider'
+export { PineMigration } from './PineMigration'
 export { PineSignatureHelpProvider } from './PineSignatureHelpProvider'
 export { PineParser } from './PineParser'
+export { PineLexer } from './PineLexer'
+export { PineAstParser } from './PineAstParser'
+export { PineAstWalker } from './PineAst'
+export { PineScopeAnalyzer } from './PineScopeAnalyzer'
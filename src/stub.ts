@@ -0,0 +1,7 @@
+import { PineFacadeStub } from './PineFacadeStub'
+
+PineFacadeStub.run(process.argv.slice(2)).then((code) => {
+  if (code !== undefined) {
+    process.exitCode = code
+  }
+})
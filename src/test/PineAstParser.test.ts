@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { PineLexer } from '../PineLexer'
+import { PineAstParser } from '../PineAstParser'
+
+const kinds = (text: string) => PineLexer.tokenize(text).tokens.map((token) => token.kind)
+const parse = (text: string) => {
+  const { script, errors } = PineAstParser.parse(text)
+  assert.deepEqual(
+    errors.map((error) => error.message),
+    [],
+  )
+  return script.body
+}
+
+describe('PineLexer', () => {
+  it('marks indented blocks with indent and dedent tokens', () => {
+    assert.deepEqual(kinds('if c\n    x = 1\ny = 2\n'), [
+      'keyword',
+      'identifier',
+      'newline',
+      'indent',
+      'identifier',
+      'operator',
+      'number',
+      'newline',
+      'dedent',
+      'identifier',
+      'operator',
+      'number',
+      'newline',
+      'eof',
+    ])
+  })
+
+  it('continues lines that are not indented by a multiple of 4 or are inside brackets', () => {
+    assert.deepEqual(kinds('x = a +\n  b\ny = f(1,\n    2)\n').filter((kind) => kind === 'newline').length, 2)
+  })
+
+  it('keeps comments apart from the token stream', () => {
+    const { tokens, comments } = PineLexer.tokenize('x = 1 // one\n')
+    assert.deepEqual(
+      comments.map((comment) => comment.value),
+      ['// one'],
+    )
+    assert.ok(tokens.every((token) => token.kind !== 'comment'))
+  })
+})
+
+describe('PineAstParser', () => {
+  it('parses declarations, reassignments and tuples', () => {
+    const body = parse('//@version=5\nindicator("T")\nvar float x = na\nx := close\n[a, b] = f()\n')
+    assert.deepEqual(
+      body.map((statement) => statement.kind),
+      ['ExpressionStatement', 'VariableDeclaration', 'Assignment', 'TupleDeclaration'],
+    )
+  })
+
+  it('parses operator precedence and ternaries', () => {
+    const [statement] = parse('x = a + b * c > d ? 1 : 2\n')
+    assert.equal(statement.kind, 'VariableDeclaration')
+    const init = statement.kind === 'VariableDeclaration' ? statement.init : undefined
+    assert.equal(init?.kind, 'TernaryExpression')
+    const test = init?.kind === 'TernaryExpression' ? init.test : undefined
+    assert.equal(test?.kind === 'BinaryExpression' && test.operator, '>')
+  })
+
+  it('parses a tuple declaration on the line after a for block', () => {
+    const body = parse('for i = 0 to 10\n    x = i\n[a, b] = f()\n')
+    assert.deepEqual(
+      body.map((statement) => statement.kind),
+      ['ExpressionStatement', 'TupleDeclaration'],
+    )
+  })
+
+  it('parses a parenthesised line after an if block', () => {
+    const body = parse('if c\n    x = 1\nelse\n    x = 2\n(a + b) > 0 ? f() : g()\n')
+    assert.deepEqual(
+      body.map((statement) => statement.kind),
+      ['ExpressionStatement', 'ExpressionStatement'],
+    )
+    const last = body[1]
+    assert.equal(last.kind === 'ExpressionStatement' && last.expression.kind, 'TernaryExpression')
+  })
+
+  it('does not continue a block value assigned to a variable', () => {
+    const body = parse('y = switch\n    c => 1\n    => 2\n[a, b] = f()\nz = while c\n    1\n(a) + 1\n')
+    assert.deepEqual(
+      body.map((statement) => statement.kind),
+      ['VariableDeclaration', 'TupleDeclaration', 'VariableDeclaration', 'ExpressionStatement'],
+    )
+  })
+
+  it('recovers from a syntax error on the next line', () => {
+    const { script, errors } = PineAstParser.parse('x = (1 +\ny = 2\n')
+    assert.equal(errors.length > 0, true)
+    assert.ok(script.body.some((statement) => statement.kind === 'VariableDeclaration'))
+  })
+})
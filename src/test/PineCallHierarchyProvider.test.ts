@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { openDocument } from './vscode'
+import { PineCallHierarchyProvider } from '../PineCallHierarchyProvider'
+
+const text = [
+  '//@version=5',
+  'indicator("T")',
+  'import user/Lib/1',
+  'type Point',
+  '    float x',
+  'method scale(Point p, float k) => p.x * k',
+  'double(float x) => x * 2',
+  'quad(x) => double(double(x))',
+  'p = Point.new(1)',
+  'plot(quad(close) + p.scale(2) + Lib.f())',
+  '',
+].join('\n')
+const provider = new PineCallHierarchyProvider()
+const prepare = (line: number, character: number) =>
+  provider.prepareCallHierarchy(openDocument(text), new vscode.Position(line, character))
+
+describe('PineCallHierarchyProvider', () => {
+  it('prepares items for functions, methods and library functions', () => {
+    const double = prepare(6, 0)
+    assert.deepEqual([double?.name, double?.detail, double?.kind], ['double', '(float x)', vscode.SymbolKind.Function])
+    const scale = prepare(5, 8)
+    assert.deepEqual([scale?.name, scale?.kind], ['Point.scale', vscode.SymbolKind.Method])
+    const external = prepare(9, 36)
+    assert.deepEqual([external?.name, external?.detail], ['Lib.f', 'external: user/Lib/1'])
+    assert.equal(prepare(8, 0), undefined)
+  })
+
+  it('lists the callers of a function, grouped by function', async () => {
+    const double = prepare(6, 0)
+    assert.ok(double)
+    const incoming = await provider.provideCallHierarchyIncomingCalls(double)
+    assert.deepEqual(
+      incoming.map((call) => [call.from.name, call.fromRanges.map((range) => range.start.character)]),
+      [['quad', [11, 18]]],
+    )
+    const quad = prepare(7, 0)
+    assert.ok(quad)
+    const [fromScript] = await provider.provideCallHierarchyIncomingCalls(quad)
+    assert.deepEqual([fromScript.from.name, fromScript.from.kind], ['script.pine', vscode.SymbolKind.File])
+  })
+
+  it('lists the calls a function or the script body makes', async () => {
+    const quad = prepare(7, 0)
+    assert.ok(quad)
+    const outgoing = await provider.provideCallHierarchyOutgoingCalls(quad)
+    assert.deepEqual(
+      outgoing.map((call) => [call.to.name, call.fromRanges.length]),
+      [['double', 2]],
+    )
+    const [fromScript] = await provider.provideCallHierarchyIncomingCalls(quad)
+    const body = await provider.provideCallHierarchyOutgoingCalls(fromScript.from)
+    assert.deepEqual(
+      body.map((call) => call.to.name),
+      ['quad', 'Point.scale', 'Lib.f'],
+    )
+  })
+})
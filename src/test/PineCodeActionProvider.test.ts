@@ -0,0 +1,69 @@
+import { before, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { applyEdits, openDocument } from './vscode'
+import { Class } from '../PineClass'
+import { PineCompletionService } from '../PineCompletionService'
+import { PineLint } from '../PineLint'
+import { PineCodeActionProvider } from '../PineCodeActionProvider'
+
+const header = '//@version=5\nindicator("T")\n'
+const provider = new PineCodeActionProvider()
+
+/** Lints a script locally and returns the title and the fixed text of each quick fix. */
+const quickFixes = (text: string) => {
+  const document = openDocument(text)
+  const diagnostics = PineLint.toDiagnostics(Class.PineLocalLint.lint(text), document.uri, text)
+  const range = new vscode.Range(0, 0, document.lineCount, 0)
+  return provider
+    .provideCodeActions(document, range, { diagnostics, triggerKind: 1, only: undefined })
+    .map((action) => ({
+      title: action.title,
+      preferred: action.isPreferred,
+      text: applyEdits(document, action.edit?.get(document.uri) ?? []),
+    }))
+}
+
+describe('PineCodeActionProvider', () => {
+  before(() => {
+    Class.pineCompletionService = new PineCompletionService(Class.PineDocsManager)
+  })
+
+  it('offers close matches for a misspelled variable, the closest preferred', () => {
+    const [first] = quickFixes(`${header}length = 14\nplot(lenght)\n`)
+    assert.deepEqual(first, {
+      title: "Change to 'length'",
+      preferred: true,
+      text: `${header}length = 14\nplot(length)\n`,
+    })
+  })
+
+  it('offers close matches for a misspelled function', () => {
+    const fixes = quickFixes(`${header}plot(ta.smaa(close, 14))\n`)
+    assert.equal(fixes[0].title, "Change to 'ta.sma'")
+    assert.equal(fixes[0].text, `${header}plot(ta.sma(close, 14))\n`)
+  })
+
+  it('removes an unknown named argument with its comma', () => {
+    assert.deepEqual(quickFixes(`${header}plot(close, colour = color.red, linewidth = 2)\n`), [
+      {
+        title: "Remove argument 'colour'",
+        preferred: true,
+        text: `${header}plot(close, linewidth = 2)\n`,
+      },
+    ])
+  })
+
+  it('adds missing required arguments of a user function', () => {
+    const fixes = quickFixes(`${header}f(a, b) => a + b\nplot(f(1))\n`)
+    assert.deepEqual(
+      fixes.map((fix) => [fix.title, fix.text]),
+      [['Add missing argument: b=na', `${header}f(a, b) => a + b\nplot(f(1, b=na))\n`]],
+    )
+  })
+
+  it('inserts a missing version annotation', () => {
+    const fix = quickFixes('indicator("T")\nplot(close)\n').find((action) => action.title === 'Insert //@version=6')
+    assert.equal(fix?.text, '//@version=6\nindicator("T")\nplot(close)\n')
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { PineConverter } from '../PineConverter'
+
+const convert = (text: string) => PineConverter.apply(text, PineConverter.convert(text))
+
+describe('PineConverter', () => {
+  it('renames the declaration and the version', () => {
+    assert.equal(convert('//@version=4\nstudy("T", overlay=true)\n'), '//@version=5\nindicator("T", overlay=true)\n')
+    assert.equal(convert('//@version=3\nstudy("T")\n'), '//@version=5\nindicator("T")\n')
+  })
+
+  it('moves built-in functions and variables into their namespaces', () => {
+    assert.equal(
+      convert('x = sma(close, 14) + abs(change(close))\ns = security(tickerid, period, close)\nc = red\n'),
+      'x = ta.sma(close, 14) + math.abs(ta.change(close))\n' +
+        's = request.security(syminfo.tickerid, timeframe.period, close)\nc = color.red\n',
+    )
+    assert.equal(convert('t = tostring(vwap)\nv = vwap(close)\n'), 't = str.tostring(ta.vwap)\nv = ta.vwap(close)\n')
+  })
+
+  it('leaves the names the script declares alone', () => {
+    const text = 'sma(x, n) => x * n\nred = 1\ny = sma(close, red)\n'
+    assert.equal(convert(text), text)
+  })
+
+  it('turns typed inputs into input functions', () => {
+    assert.equal(
+      convert('len = input(14, "Length", type = input.integer)\nsrc = input(close, type=source)\nb = input(true)\n'),
+      'len = input.int(14, "Length")\nsrc = input.source(close)\nb = input(true)\n',
+    )
+  })
+
+  it('moves transp into the color', () => {
+    assert.equal(
+      convert('plot(close, color = red, transp = 50)\nbgcolor(color(blue, 20), transp = 10)\n'),
+      'plot(close, color = color.new(color.red, 50))\nbgcolor(color.new(color.blue, 20))\n',
+    )
+  })
+
+  it('turns iff() into the conditional operator, converting its arguments', () => {
+    assert.equal(
+      convert('x = iff(close > open, highest(5), lowest(5))\n'),
+      'x = (close > open ? ta.highest(5) : ta.lowest(5))\n',
+    )
+  })
+
+  it('returns edits that do not overlap, in source order', () => {
+    const edits = PineConverter.convert(
+      '//@version=4\nx = iff(c, sma(close, 2), na)\nplot(x, color = red, transp = 5)\n',
+    )
+    for (let i = 1; i < edits.length; i++) {
+      assert.ok(edits[i - 1].end <= edits[i].start)
+    }
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { openDocument } from './vscode'
+import { PineAstParser } from '../PineAstParser'
+import { PineScopeAnalyzer } from '../PineScopeAnalyzer'
+import { PineDefinitionProvider } from '../PineDefinitionProvider'
+
+const analyze = (text: string) => PineScopeAnalyzer.analyze(PineAstParser.parse(text).script)
+
+describe('PineScopeAnalyzer', () => {
+  it('binds names to the innermost declaration that is visible', () => {
+    const text = 'x = 1\nf(x) =>\n    y = x + 1\n    y\nz = x\n'
+    const analysis = analyze(text)
+    const parameter = PineScopeAnalyzer.symbolAt(analysis, text.indexOf('x + 1'))
+    assert.equal(parameter?.kind, 'parameter')
+    const global = PineScopeAnalyzer.symbolAt(analysis, text.lastIndexOf('x'))
+    assert.equal(global?.kind, 'variable')
+    assert.equal(global?.nameNode.start, 0)
+  })
+
+  it('sees functions and types before their declaration but variables only after', () => {
+    const text = 'a = g()\nb = later\ng() => 1\nlater = 2\n'
+    const analysis = analyze(text)
+    assert.equal(PineScopeAnalyzer.symbolAt(analysis, text.indexOf('g()'))?.kind, 'function')
+    assert.equal(PineScopeAnalyzer.symbolAt(analysis, text.indexOf('later')), undefined)
+    assert.deepEqual(
+      analysis.unresolved.map((identifier) => identifier.name),
+      ['later'],
+    )
+  })
+
+  it('binds fields through the declared type of a variable', () => {
+    const text = 'type Point\n    float x\nPoint p = Point.new(1)\nv = p.x\n'
+    const field = PineScopeAnalyzer.symbolAt(analyze(text), text.lastIndexOf('x'))
+    assert.equal(field?.kind, 'field')
+    assert.equal(field?.owner?.name, 'Point')
+  })
+
+  it('scopes loop iterators to the loop body', () => {
+    const text = 'for i = 0 to 3\n    x = i\ny = i\n'
+    const analysis = analyze(text)
+    assert.equal(PineScopeAnalyzer.symbolAt(analysis, text.indexOf('i\ny'))?.kind, 'variable')
+    assert.equal(PineScopeAnalyzer.symbolAt(analysis, text.lastIndexOf('i')), undefined)
+  })
+})
+
+describe('PineDefinitionProvider', () => {
+  it('resolves a name to its declaration', () => {
+    const document = openDocument('//@version=5\nindicator("T")\nf(a) => a * 2\nplot(f(close))\n')
+    const [link] = new PineDefinitionProvider().provideDefinition(document, new vscode.Position(3, 5)) ?? []
+    assert.equal(link.targetUri.toString(), document.uri.toString())
+    assert.deepEqual(
+      [
+        link.targetRange.start.line,
+        link.targetSelectionRange?.start.character,
+        link.targetSelectionRange?.end.character,
+      ],
+      [2, 0, 1],
+    )
+    assert.deepEqual([link.originSelectionRange?.start.character, link.originSelectionRange?.end.character], [5, 6])
+  })
+
+  it('does not resolve built-ins', () => {
+    const document = openDocument('//@version=5\nindicator("T")\nplot(close)\n')
+    assert.equal(new PineDefinitionProvider().provideDefinition(document, new vscode.Position(2, 1)), undefined)
+  })
+})
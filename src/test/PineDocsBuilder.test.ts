@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'fs'
+import * as path from 'path'
+import { PineDocsBuilder } from '../PineDocsBuilder'
+
+const folder = path.join(__dirname, '..', '..', 'Pine_Script_Documentation')
+const shipped = JSON.parse(fs.readFileSync(path.join(folder, 'pineDocs.json'), 'utf-8'))
+const entryOf = (bundle: Record<string, any>, section: string, name: string) =>
+  bundle[section][0].docs.find((doc: Record<string, any>) => doc.name === name)
+
+/** The `ta.sma` item as the saved reference manual writes it. */
+const smaHtml = `
+<div class="tv-pine-reference-item" id="fun_ta.sma">
+  <h3 class="tv-pine-reference-item__header">ta.sma()</h3>
+  <div class="tv-pine-reference-item__text">The sma function returns the moving average, that is the sum of last y values of x, divided by y.</div>
+  <div class="tv-pine-reference-item__sub-header">Syntax</div>
+  <pre class="tv-pine-reference-item__syntax">ta.sma(source, length) &rarr; series float</pre>
+  <div class="tv-pine-reference-item__sub-header">Arguments</div>
+  <div class="tv-pine-reference-item__text"><span>source (series int/float)</span> Series of values to process.</div>
+  <div class="tv-pine-reference-item__text"><span>length (series int)</span> Number of bars (length).</div>
+  <div class="tv-pine-reference-item__sub-header">Example</div>
+  <pre class="tv-pine-reference-item__example">//@version=5
+indicator(&quot;ta.sma&quot;)
+plot(ta.sma(close, 15))
+
+// same on pine, but much less efficient
+pine_sma(x, y) =&gt;
+    sum = 0.0
+    for i = 0 to y - 1
+        sum := sum + x[i] / y
+    sum
+plot(pine_sma(close, 15))</pre>
+  <div class="tv-pine-reference-item__sub-header">Returns</div>
+  <div class="tv-pine-reference-item__text">Simple moving average of <code>source</code> for <code>length</code> bars back.</div>
+  <div class="tv-pine-reference-item__sub-header">Remarks</div>
+  <div class="tv-pine-reference-item__text"><code>na</code> values in the <code>source</code> series are ignored.</div>
+  <div class="tv-pine-reference-item__sub-header">See also</div>
+  <div class="tv-pine-reference-item__text"><a href="#fun_ta.ema">ta.ema</a> <a href="#fun_ta.rma">ta.rma</a>
+    <a href="#fun_ta.wma">ta.wma</a> <a href="#fun_ta.vwma">ta.vwma</a> <a href="#fun_ta.swma">ta.swma</a>
+    <a href="#fun_ta.alma">ta.alma</a></div>
+</div>
+<div class="tv-pine-reference-item" id="var_close">
+  <h3 class="tv-pine-reference-item__header">close</h3>
+  <div class="tv-pine-reference-item__sub-header">Type</div>
+  <div class="tv-pine-reference-item__text">series float</div>
+</div>
+`
+
+describe('PineDocsBuilder', () => {
+  it('builds the same entry as the shipped bundle from the manual', () => {
+    const items = PineDocsBuilder.parseHtml(smaHtml)
+    assert.deepEqual(
+      items.map((item) => [item.id, item.name]),
+      [
+        ['fun_ta.sma', 'ta.sma'],
+        ['var_close', 'close'],
+      ],
+    )
+    const bundle = PineDocsBuilder.build(items, shipped)
+    assert.deepEqual(entryOf(bundle, 'functions', 'ta.sma'), entryOf(shipped, 'functions', 'ta.sma'))
+    const close = entryOf(bundle, 'variables', 'close')
+    assert.deepEqual([close.type, close.displayType], ['float', 'series float'])
+  })
+
+  it('expands qualified types to the types they accept', () => {
+    assert.deepEqual(PineDocsBuilder.typeIDsOf('simple int|float'), [
+      'simple int',
+      'input int',
+      'const int',
+      'simple float',
+      'input float',
+      'const float',
+    ])
+    assert.deepEqual(PineDocsBuilder.typeIDsOf('series line'), ['series line'])
+  })
+
+  it('reports the signatures added, removed and changed between bundles', () => {
+    const after = structuredClone(shipped)
+    const functions = after.functions[0].docs
+    after.functions[0].docs = functions.filter((doc: Record<string, any>) => doc.name !== 'request.quandl')
+    after.variables[0].docs.push({ name: 'bid', kind: 'Built-in Variable', type: 'float', displayType: 'series float' })
+    entryOf(after, 'functions', 'ta.sma').args[1].displayType = 'simple int'
+    const changes = PineDocsBuilder.diff(shipped, after)
+    assert.deepEqual(changes.added, ['variables:bid'])
+    assert.deepEqual(changes.removed, ['functions:request.quandl'])
+    assert.deepEqual(
+      changes.changed.map((change) => change.key),
+      ['functions:ta.sma'],
+    )
+    assert.deepEqual(PineDocsBuilder.diff(shipped, shipped), { added: [], removed: [], changed: [] })
+  })
+})
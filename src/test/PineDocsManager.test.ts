@@ -0,0 +1,59 @@
+import { after, before, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { Class } from '../PineClass'
+import { PineDocsManager } from '../PineDocsManager'
+import { useBundles } from './docs'
+
+const names = (docs: Record<string, any>[]) => docs.map((doc) => doc.name)
+
+describe('PineDocsManager', () => {
+  it('falls back to the shipped bundle for the versions without their own', () => {
+    const manager = Class.PineDocsManager
+    assert.equal(manager.version, '6')
+    assert.equal(PineDocsManager.bundleFor('5'), PineDocsManager.bundleFor('6'))
+    assert.ok(names(manager.getFunctions()).includes('ta.sma'))
+    assert.equal(manager.versionNote('ta.sma'), undefined)
+  })
+
+  describe('with a bundle per version', () => {
+    let restore: () => void
+    before(() => {
+      restore = useBundles({
+        'pineDocs.v5.json': {
+          functions: [
+            { name: 'ta.sma' },
+            { name: 'request.quandl' },
+            { name: 'security', deprecated: 'Use request.security.' },
+          ],
+        },
+        'pineDocs.v6.json': { functions: [{ name: 'ta.sma' }], variables: [{ name: 'bid' }] },
+      })
+    })
+    after(() => restore())
+
+    it('switches to the bundle of the version of a script', () => {
+      const manager = new PineDocsManager()
+      assert.deepEqual(names(manager.getVariables()), ['bid'])
+      manager.useVersionOf('//@version=5\nindicator("T")\n')
+      assert.equal(manager.version, '5')
+      assert.deepEqual(names(manager.getFunctions()), ['ta.sma', 'request.quandl', 'security'])
+      manager.useVersionOf('//@version=4\nstudy("T")\n')
+      assert.equal(manager.version, '5')
+      manager.useVersionOf('indicator("T")\n')
+      assert.equal(manager.version, '5')
+    })
+
+    it('notes deprecated built-ins and those that exist in only one version', () => {
+      const manager = new PineDocsManager()
+      assert.deepEqual(manager.versionNote('bid'), { deprecated: false, note: 'New in v6' })
+      assert.equal(manager.versionNote('ta.sma'), undefined)
+      manager.useVersion('5')
+      assert.deepEqual(manager.versionNote('request.quandl'), { deprecated: true, note: 'Removed in v6' })
+      assert.deepEqual(manager.versionNote('security'), {
+        deprecated: true,
+        note: 'Deprecated in v5: Use request.security.',
+      })
+      assert.equal(manager.versionNote('bid'), undefined)
+    })
+  })
+})
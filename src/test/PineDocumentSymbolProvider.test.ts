@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { openDocument } from './vscode'
+import { PineDocumentSymbolProvider } from '../PineDocumentSymbolProvider'
+
+const provider = new PineDocumentSymbolProvider()
+const outline = (text: string) =>
+  provider.provideDocumentSymbols(openDocument(text)).map((symbol) => ({
+    name: symbol.name,
+    detail: symbol.detail,
+    kind: symbol.kind,
+    children: symbol.children.map((child) => child.name),
+  }))
+
+describe('PineDocumentSymbolProvider', () => {
+  it('lists the declaration, inputs, functions, types, enums and var variables', () => {
+    const text = [
+      '//@version=5',
+      'indicator("My Script", overlay = true)',
+      'length = input.int(14)',
+      'type Point',
+      '    float x',
+      '    float y',
+      'enum Mode',
+      '    fast = "Fast"',
+      '    slow',
+      'var int count = 0',
+      'f(a, b) => a + b',
+      'method double(Point p) => p.x * 2',
+      'plain = close',
+      '',
+    ].join('\n')
+    assert.deepEqual(outline(text), [
+      { name: 'My Script', detail: 'indicator', kind: vscode.SymbolKind.Module, children: [] },
+      { name: 'length', detail: 'input.int', kind: vscode.SymbolKind.Property, children: [] },
+      { name: 'Point', detail: 'type', kind: vscode.SymbolKind.Struct, children: ['x', 'y'] },
+      { name: 'Mode', detail: 'enum', kind: vscode.SymbolKind.Enum, children: ['fast', 'slow'] },
+      { name: 'count', detail: 'var int', kind: vscode.SymbolKind.Variable, children: [] },
+      { name: 'f', detail: '(a, b)', kind: vscode.SymbolKind.Function, children: [] },
+      { name: 'double', detail: '(p)', kind: vscode.SymbolKind.Method, children: [] },
+    ])
+  })
+
+  it('selects the name and spans the whole declaration', () => {
+    const document = openDocument('//@version=5\nlibrary("Lib")\nexport f(x) =>\n    x * 2\n')
+    const [, symbol] = provider.provideDocumentSymbols(document)
+    assert.equal(symbol.detail, 'export (x)')
+    assert.deepEqual(
+      [symbol.selectionRange.start.line, symbol.selectionRange.start.character, symbol.selectionRange.end.character],
+      [2, 7, 8],
+    )
+    assert.deepEqual([symbol.range.start.line, symbol.range.end.line], [2, 3])
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import {
+  PineFacadeClient,
+  PineFacadeError,
+  PineFacadeTransport,
+  PineFacadeTransportRequest,
+  PineFacadeTransportResponse,
+} from '../PineFacadeClient'
+
+/** A transport answering with the given responses in turn and recording the requests. */
+const replies = (...responses: Partial<PineFacadeTransportResponse>[]) => {
+  const requests: PineFacadeTransportRequest[] = []
+  const transport: PineFacadeTransport = {
+    send: async (request) => {
+      requests.push(request)
+      return { status: 200, statusText: 'OK', retryAfter: null, body: '{}', ...responses.shift() }
+    },
+  }
+  return { requests, transport }
+}
+const lintResult = JSON.stringify({ success: true, result: { errors2: [] } })
+
+describe('PineFacadeClient', () => {
+  it('posts the script to the lint endpoint of the base URL', async () => {
+    const { requests, transport } = replies({ body: lintResult })
+    const client = new PineFacadeClient({ baseUrl: 'http://localhost:8080/facade', transport })
+    assert.deepEqual(await client.lint('plot(close)'), JSON.parse(lintResult))
+    assert.equal(requests[0].method, 'POST')
+    assert.equal(requests[0].url.startsWith('http://localhost:8080/facade/translate_light?'), true)
+    assert.equal(requests[0].route.startsWith('translate_light?'), true)
+    assert.equal(new URLSearchParams(requests[0].body).get('source'), 'plot(close)')
+  })
+
+  it('returns nothing for a response without a result', async () => {
+    const { transport } = replies({ body: '{"success":false}' })
+    assert.equal(await new PineFacadeClient({ transport }).lint('plot(close)'), undefined)
+  })
+
+  it('retries 429 and 5xx responses, honouring Retry-After', async () => {
+    const { requests, transport } = replies(
+      { status: 429, retryAfter: '0' },
+      { status: 503, retryAfter: '0' },
+      { body: lintResult },
+    )
+    await new PineFacadeClient({ transport, retries: 2 }).lint('plot(close)')
+    assert.equal(requests.length, 3)
+  })
+
+  it('gives up after the configured retries and on other errors', async () => {
+    const failing = replies(
+      { status: 500, statusText: 'Server Error', retryAfter: '0' },
+      { status: 500, statusText: 'Server Error' },
+    )
+    await assert.rejects(new PineFacadeClient({ transport: failing.transport, retries: 1 }).lint('x'), {
+      name: 'PineFacadeError',
+      status: 500,
+    })
+    assert.equal(failing.requests.length, 2)
+
+    const notFound = replies({ status: 404, statusText: 'Not Found' })
+    await assert.rejects(new PineFacadeClient({ transport: notFound.transport }).lint('x'), /status: 404 Not Found/)
+    assert.equal(notFound.requests.length, 1)
+  })
+
+  it('times out requests that take too long', async () => {
+    const transport: PineFacadeTransport = {
+      send: (request) =>
+        new Promise((_resolve, reject) => request.signal.addEventListener('abort', () => reject(new Error('aborted')))),
+    }
+    await assert.rejects(new PineFacadeClient({ transport, timeout: 10 }).lint('x'), /Request timed out after 10 ms/)
+  })
+
+  it('cancels a request, also while waiting to retry', async () => {
+    const controller = new AbortController()
+    const { transport } = replies({ status: 503, retryAfter: '5' })
+    const request = new PineFacadeClient({ transport }).lint('x', controller.signal)
+    setTimeout(() => controller.abort(), 10)
+    await assert.rejects(request, (error: PineFacadeError) => error.cancelled)
+  })
+})
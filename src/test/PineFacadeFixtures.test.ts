@@ -0,0 +1,60 @@
+import { after, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PineFacadeClient, PineFacadeTransport } from '../PineFacadeClient'
+import { PineFacadeFixtures, PineRecordTransport, PineReplayTransport } from '../PineFacadeFixtures'
+import { PineFacadeStub } from '../PineFacadeStub'
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pine-fixtures-'))
+const fixtures = new PineFacadeFixtures(directory)
+const lintResponse = { success: true, result: { errors2: [], warnings2: [] } }
+const network: PineFacadeTransport = {
+  send: async (request) =>
+    request.route.startsWith('translate_light')
+      ? { status: 200, statusText: 'OK', retryAfter: null, body: JSON.stringify(lintResponse) }
+      : { status: 503, statusText: 'Unavailable', retryAfter: '0', body: '' },
+}
+
+describe('PineFacadeFixtures', () => {
+  after(() => fs.rmSync(directory, { recursive: true, force: true }))
+
+  it('records responses and replays them whatever the host', async () => {
+    const recording = new PineFacadeClient({ transport: new PineRecordTransport(fixtures, network), retries: 0 })
+    assert.deepEqual(await recording.lint('plot(close)'), lintResponse)
+    await assert.rejects(recording.request('GET', `${recording.baseUrl}list/?filter=standard`))
+    // Retried failures are not recorded
+    assert.equal(fs.readdirSync(directory).length, 1)
+
+    const replay = new PineReplayTransport(fixtures)
+    const client = new PineFacadeClient({ baseUrl: 'http://localhost:1/other/', transport: replay })
+    assert.deepEqual(await client.lint('plot(close)'), lintResponse)
+    await assert.rejects(client.lint('plot(open)'), /No fixture for POST translate_light/)
+  })
+
+  it('names fixture files after the endpoint and a hash of the request', () => {
+    const name = PineFacadeFixtures.fileName('POST', 'translate_light?user_name=Guest', 'source=x')
+    assert.match(name, /^post-translate_light-[0-9a-f]{16}\.json$/)
+    assert.notEqual(name, PineFacadeFixtures.fileName('POST', 'translate_light?user_name=Guest', 'source=y'))
+  })
+
+  it('serves the fixtures on the pine-facade routes', async () => {
+    const lines: string[] = []
+    const stub = new PineFacadeStub(fixtures, { port: 0, log: (line) => lines.push(line) })
+    const baseUrl = await stub.start()
+    try {
+      const client = new PineFacadeClient({ baseUrl })
+      const body = new URLSearchParams({ source: 'plot(close)' }).toString()
+      const found = await fetch(client.lintUrl, { method: 'POST', body })
+      assert.equal(found.status, 200)
+      assert.deepEqual(await found.json(), lintResponse)
+      const missing = await fetch(`${baseUrl}list/?filter=standard`)
+      assert.equal(missing.status, 404)
+      assert.match(lines[0], /^POST translate_light\?.*: 200$/)
+      assert.equal(lines[1], 'GET list/?filter=standard: 404 no fixture')
+    } finally {
+      await stub.stop()
+    }
+  })
+})
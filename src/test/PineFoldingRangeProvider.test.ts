@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { openDocument } from './vscode'
+import { PineFoldingRangeProvider } from '../PineFoldingRangeProvider'
+
+const kindNames: Record<number, string> = {
+  [vscode.FoldingRangeKind.Comment]: 'comment',
+  [vscode.FoldingRangeKind.Imports]: 'imports',
+  [vscode.FoldingRangeKind.Region]: 'region',
+}
+const foldsOf = (lines: string[]) =>
+  new PineFoldingRangeProvider()
+    .provideFoldingRanges(openDocument(lines.join('\n')))
+    .map((range) => [range.start, range.end, range.kind === undefined ? 'block' : kindNames[range.kind]])
+
+describe('PineFoldingRangeProvider', () => {
+  it('folds functions, if/else arms, loops and switch cases', () => {
+    assert.deepEqual(
+      foldsOf([
+        'f(x) =>',
+        '    y = x * 2',
+        '    y',
+        'if close > open',
+        '    a = 1',
+        'else',
+        '    a = 2',
+        'for i = 0 to 3',
+        '    b = i',
+        's = switch',
+        '    close > open =>',
+        '        1',
+        '    => 2',
+        '',
+      ]),
+      [
+        [0, 2, 'block'],
+        [3, 4, 'block'],
+        [5, 6, 'block'],
+        [7, 8, 'block'],
+        [9, 12, 'block'],
+        [10, 11, 'block'],
+      ],
+    )
+  })
+
+  it('folds multi-line calls, keeping a closing parenthesis on its own line visible', () => {
+    assert.deepEqual(foldsOf(['plot(close,', '  color = color.red,', '  linewidth = 2', '  )', '']), [[0, 2, 'block']])
+  })
+
+  it('folds imports, comment blocks and regions', () => {
+    assert.deepEqual(
+      foldsOf([
+        '//@version=5',
+        '// A description',
+        'library("L")',
+        'import a/A/1',
+        'import b/B/1',
+        '// #region Inputs',
+        'x = 1',
+        '// #endregion',
+        '',
+      ]),
+      [
+        [0, 1, 'comment'],
+        [3, 4, 'imports'],
+        [5, 7, 'region'],
+      ],
+    )
+  })
+})
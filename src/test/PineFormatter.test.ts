@@ -0,0 +1,86 @@
+import { afterEach, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { applyEdits, openDocument, settings, workspace } from './vscode'
+import { PineFormatter } from '../PineFormatter'
+import { PineFormattingProvider } from '../PineFormattingProvider'
+
+describe('PineFormatter', () => {
+  it('spaces operators, commas and named arguments', () => {
+    assert.equal(
+      PineFormatter.format('indicator("T",overlay=true)\nx = -1*(a-b)\nplot(x[1],color=color.red)\n'),
+      'indicator("T", overlay = true)\nx = -1 * (a - b)\nplot(x[1], color = color.red)\n',
+    )
+  })
+
+  it('indents blocks by 4 spaces and keeps continuation lines', () => {
+    assert.equal(
+      PineFormatter.format('if close>open\n\tx=1\n        y=a+\n  b\n'),
+      'if close > open\n    x = 1\n        y = a +\n  b\n',
+    )
+  })
+
+  it('keeps comments, the version annotation and generics as they are', () => {
+    const text = '//@version=5\n// keep   this\ny = array.new<float>(10) // trailing   comment\n'
+    assert.equal(PineFormatter.format(text), text)
+  })
+
+  it('aligns declarations and input blocks', () => {
+    assert.equal(PineFormatter.format('a = 1\nlonger = 2\nfloat c = 3\n'), 'a       = 1\nlonger  = 2\nfloat c = 3\n')
+    assert.equal(
+      PineFormatter.format('len = input.int(14, "Length")\nsrc = input.source(close, "Source", group="G")\n'),
+      'len = input.int(14,       "Length")\nsrc = input.source(close, "Source", group = "G")\n',
+    )
+  })
+
+  it('follows the options', () => {
+    const options = { spaceAroundNamedArguments: false, alignDeclarations: false }
+    assert.equal(
+      PineFormatter.format('f(x, y = 2)=>x+y\na = f(1, y = 3)\nlonger = 2\n', options),
+      'f(x, y=2) => x + y\na = f(1, y=3)\nlonger = 2\n',
+    )
+    assert.equal(
+      PineFormatter.format('plot(ta.sma(close, 14), title = "Average", color = color.red, linewidth = 2)\n', {
+        maxLineLength: 50,
+        continuationIndent: 2,
+      }),
+      'plot(ta.sma(close, 14), title = "Average",\n  color = color.red, linewidth = 2)\n',
+    )
+  })
+
+  it('formats line by line', () => {
+    assert.deepEqual(PineFormatter.formatLines('a=1\nb = 2'), [
+      { original: 'a=1', formatted: 'a = 1' },
+      { original: 'b = 2', formatted: 'b = 2' },
+    ])
+  })
+})
+
+describe('PineFormattingProvider', () => {
+  afterEach(() => {
+    settings.clear()
+    workspace.fs.written.clear()
+    workspace.workspaceFolders = undefined
+  })
+
+  it('reads the options from the settings, overridden by the nearest .pinefmt file', async () => {
+    workspace.workspaceFolders = [{ uri: vscode.Uri.file('/workspace'), name: 'workspace', index: 0 }]
+    workspace.fs.written.set(
+      vscode.Uri.file('/workspace/.pinefmt').toString(),
+      new TextEncoder().encode('{ "spaceAroundNamedArguments": false }'),
+    )
+    settings.set('pinescript.format.alignDeclarations', false)
+    const document = openDocument('a=1\nlonger=2\nplot(a, color = color.red)\n', '/workspace/scripts/a.pine')
+    const edits = await new PineFormattingProvider().provideDocumentFormattingEdits(document)
+    assert.equal(applyEdits(document, edits), 'a = 1\nlonger = 2\nplot(a, color=color.red)\n')
+  })
+
+  it('formats only the lines of a range', async () => {
+    const document = openDocument('a=1\nb=2\nc=3\n')
+    const edits = await new PineFormattingProvider().provideDocumentRangeFormattingEdits(
+      document,
+      new vscode.Range(1, 0, 2, 0),
+    )
+    assert.equal(applyEdits(document, edits), 'a=1\nb = 2\nc=3\n')
+  })
+})
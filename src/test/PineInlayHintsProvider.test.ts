@@ -0,0 +1,44 @@
+import { afterEach, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { openDocument, settings } from './vscode'
+import { PineInlayHintsProvider } from '../PineInlayHintsProvider'
+
+const header = '//@version=5\nindicator("T")\n'
+
+/** Lists the hints of a script as `line:character label`. */
+const hintsOf = async (text: string) => {
+  const document = openDocument(text)
+  const hints = await new PineInlayHintsProvider().provideInlayHints(document, new vscode.Range(0, 0, 100, 0))
+  return hints.map((hint) => `${hint.position.line}:${hint.position.character} ${hint.label}`)
+}
+
+describe('PineInlayHintsProvider', () => {
+  afterEach(() => settings.clear())
+
+  it('names the positional arguments of built-ins and user functions', async () => {
+    settings.set('pinescript.inlayHints.variableTypes', false)
+    settings.set('pinescript.inlayHints.returnTypes', false)
+    const text = `${header}f(src, len) => src * len\nlength = 14\nplot(ta.sma(close, length) + f(open, 2))\n`
+    assert.deepEqual(await hintsOf(text), ['1:10 title:', '4:5 series:', '4:12 source:', '4:31 src:', '4:37 len:'])
+  })
+
+  it('names the fields of a type constructor', async () => {
+    settings.set('pinescript.inlayHints.variableTypes', false)
+    const text = `${header}type Point\n    float x\n    float y\np = Point.new(1, 2)\n`
+    assert.deepEqual(await hintsOf(text), ['1:10 title:', '5:14 x:', '5:17 y:'])
+  })
+
+  it('shows the types of declarations and the return types of functions', async () => {
+    settings.set('pinescript.inlayHints.parameterNames', false)
+    const text = `${header}avg(a, b) => ta.sma(a, b)\nx = avg(close, 14)\nn = 1\n`
+    assert.deepEqual(await hintsOf(text), ['2:9 : float', '3:0 float', '4:0 int'])
+  })
+
+  it('shows nothing when every kind of hint is turned off', async () => {
+    settings.set('pinescript.inlayHints.parameterNames', false)
+    settings.set('pinescript.inlayHints.variableTypes', false)
+    settings.set('pinescript.inlayHints.returnTypes', false)
+    assert.deepEqual(await hintsOf(`${header}x = ta.sma(close, 14)\n`), [])
+  })
+})
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { setTimeout as sleep } from 'timers/promises'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { openDocument, settings, window } from './vscode'
+import { PineLint } from '../PineLint'
+
+const header = '//@version=5\nindicator("T")\n'
+const open = (text: string, path: string) => {
+  const document = openDocument(text, path)
+  // Keep the docs of completions and hovers out of these tests
+  window.activeTextEditor = undefined
+  return document
+}
+const messages = (document: { uri: any }) => PineLint.getDiagnostics(document.uri)?.map((d) => d.message)
+
+describe('PineLint', () => {
+  beforeEach(() => {
+    settings.set('pinescript.lint.source', 'local')
+  })
+
+  afterEach(() => {
+    settings.clear()
+    PineLint.states.clear()
+    PineLint.DiagnosticCollection.clear()
+  })
+
+  it('keeps the diagnostics of every document apart', async () => {
+    const first = open(`${header}plot(foo)\n`, '/workspace/first.pine')
+    const second = open(`${header}plot(bar)\n`, '/workspace/second.pine')
+    await PineLint.forceLint(first)
+    await PineLint.forceLint(second)
+    assert.deepEqual(messages(first), ["Undeclared identifier 'foo'"])
+    assert.deepEqual(messages(second), ["Undeclared identifier 'bar'"])
+  })
+
+  it('forgets the state and diagnostics of a closed document', async () => {
+    const document = open(`${header}plot(foo)\n`, '/workspace/closed.pine')
+    await PineLint.forceLint(document)
+    PineLint.clear(document)
+    assert.equal(PineLint.states.has(document.uri.toString()), false)
+    assert.equal(PineLint.DiagnosticCollection.get(document.uri), undefined)
+  })
+
+  it('reports scripts without a supported version', async () => {
+    const document = open('//@version=4\nstudy("T")\nplot(close)\n', '/workspace/old.pine')
+    assert.equal(await PineLint.checkVersion(document), false)
+    assert.equal(PineLint.stateFor(document.uri).version, '4')
+    assert.equal(messages(document)?.length, 1)
+  })
+
+  it('drops local findings on lines pine-facade already reports', () => {
+    const at = (line: number, message: string) => ({
+      start: { line, column: 1 },
+      end: { line, column: 2 },
+      message,
+    })
+    const remote = { success: true, result: { errors2: [at(3, 'remote')], warnings2: [] } }
+    const local = { success: true, result: { errors2: [at(3, 'local'), at(4, 'other')], warnings2: [] } }
+    const merged = PineLint.mergeResponses(remote, local as any)
+    assert.deepEqual(
+      merged.result.errors2.map((error: { message: string }) => error.message),
+      ['remote', 'other'],
+    )
+    assert.equal(PineLint.mergeResponses(undefined, local as any), local)
+  })
+
+  it('converts problems into diagnostics with their rule, tags and related locations', () => {
+    const uri = vscode.Uri.file('/workspace/related.pine')
+    const diagnostic = PineLint.toDiagnostic(
+      {
+        line: 4,
+        column: 1,
+        endLine: 4,
+        endColumn: 6,
+        message: "'length' is deprecated",
+        severity: 'warning',
+        code: 'deprecated',
+        source: 'pine-facade',
+        tags: ['deprecated'],
+        related: [{ line: 3, column: 1, endLine: 3, endColumn: 6, message: 'declared here' }],
+      },
+      uri,
+    )
+    assert.deepEqual(
+      [diagnostic.range.start.line, diagnostic.range.start.character, diagnostic.range.end.character],
+      [3, 0, 6],
+    )
+    assert.deepEqual([diagnostic.code, diagnostic.source], ['deprecated', 'pine-facade'])
+    assert.equal(diagnostic.severity, vscode.DiagnosticSeverity.Warning)
+    assert.deepEqual(diagnostic.tags, [vscode.DiagnosticTag.Deprecated])
+    assert.equal(diagnostic.relatedInformation?.[0].location.range.start.line, 2)
+  })
+
+  it('applies the configured rule severities', async () => {
+    settings.set('pinescript.lint.rules', { 'undeclared-identifier': 'information' })
+    const document = open(`${header}plot(foo)\n`, '/workspace/rules.pine')
+    await PineLint.forceLint(document)
+    assert.equal(PineLint.getDiagnostics(document.uri)?.[0].severity, vscode.DiagnosticSeverity.Information)
+
+    settings.set('pinescript.lint.rules', { 'undeclared-identifier': 'off' })
+    await PineLint.forceLint(document)
+    assert.equal(PineLint.getDiagnostics(document.uri), undefined)
+  })
+})
+
+describe('PineLint trigger', () => {
+  beforeEach(() => {
+    settings.set('pinescript.lint.source', 'local')
+    settings.set('pinescript.lint.debounce', 1)
+    settings.set('pinescript.lint.idleDelay', 1)
+    PineLint.initialFlag = false
+  })
+
+  afterEach(() => {
+    settings.clear()
+    PineLint.states.clear()
+    PineLint.DiagnosticCollection.clear()
+  })
+
+  /** Changes, then saves a document with the given trigger and returns its diagnostics after the lint delay. */
+  const changeAndSave = async (trigger: string, path: string) => {
+    settings.set('pinescript.lint.trigger', trigger)
+    const document = open(`${header}plot(foo)\n`, path)
+    await PineLint.handleDocumentChange(document)
+    await sleep(20)
+    const afterChange = messages(document)
+    PineLint.handleDocumentSave(document)
+    await sleep(20)
+    return { document, afterChange, afterSave: messages(document) }
+  }
+
+  it('lints while typing and after typing stops', async () => {
+    for (const trigger of ['onType', 'onIdle']) {
+      const { afterChange } = await changeAndSave(trigger, `/workspace/${trigger}.pine`)
+      assert.deepEqual(afterChange, ["Undeclared identifier 'foo'"])
+    }
+  })
+
+  it('lints on save only', async () => {
+    const { afterChange, afterSave } = await changeAndSave('onSave', '/workspace/save.pine')
+    assert.deepEqual([afterChange, afterSave], [undefined, ["Undeclared identifier 'foo'"]])
+  })
+
+  it('lints on request only', async () => {
+    const { document, afterChange, afterSave } = await changeAndSave('manual', '/workspace/manual.pine')
+    assert.deepEqual([afterChange, afterSave], [undefined, undefined])
+    await PineLint.forceLint(document)
+    assert.deepEqual(messages(document), ["Undeclared identifier 'foo'"])
+  })
+})
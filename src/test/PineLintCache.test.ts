@@ -0,0 +1,42 @@
+import { afterEach, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { settings } from './vscode'
+import { PineLintCache } from '../PineLintCache'
+
+const storage = vscode.Uri.file('/storage')
+
+describe('PineLintCache', () => {
+  afterEach(() => settings.clear())
+
+  it('hashes the parts that identify a response', () => {
+    assert.equal(PineLintCache.hash('url', '5', 'plot(close)'), PineLintCache.hash('url', '5', 'plot(close)'))
+    assert.notEqual(PineLintCache.hash('url', '5', 'plot(close)'), PineLintCache.hash('url', '6', 'plot(close)'))
+  })
+
+  it('drops the least recently used responses beyond the cache size', async () => {
+    settings.set('pinescript.lint.cacheSize', 2)
+    const cache = new PineLintCache()
+    await cache.set('a', 1)
+    await cache.set('b', 2)
+    assert.equal(await cache.get('a'), 1)
+    await cache.set('c', 3)
+    assert.deepEqual([await cache.get('a'), await cache.get('b'), await cache.get('c')], [1, undefined, 3])
+    await cache.flush()
+  })
+
+  it('caches nothing when the cache size is 0', async () => {
+    settings.set('pinescript.lint.cacheSize', 0)
+    const cache = new PineLintCache()
+    await cache.set('a', 1)
+    assert.equal(await cache.get('a'), undefined)
+  })
+
+  it('keeps the responses in the global storage across sessions', async () => {
+    const cache = new PineLintCache(storage)
+    await cache.set('a', { result: 1 })
+    await cache.flush()
+    assert.deepEqual(await new PineLintCache(storage).get('a'), { result: 1 })
+    assert.equal(await new PineLintCache().get('a'), undefined)
+  })
+})
@@ -0,0 +1,132 @@
+import { after, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PineFacadeTransport } from '../PineFacadeClient'
+import { PineLintCli, PineLintFileResult } from '../PineLintCli'
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pine-lint-'))
+const write = (name: string, text: string) => {
+  const file = path.join(directory, name)
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, text)
+  return file
+}
+const at = (line: number, column: number, message: string) => ({
+  start: { line, column },
+  end: { line, column: column + 2 },
+  message,
+})
+/** Answers every lint request with the same pine-facade response. */
+const answer = (response: unknown): PineFacadeTransport => ({
+  send: async () => ({ status: 200, statusText: 'OK', retryAfter: null, body: JSON.stringify(response) }),
+})
+const header = '//@version=5\nindicator("T")\n'
+
+describe('PineLintCli', () => {
+  after(() => fs.rmSync(directory, { recursive: true, force: true }))
+
+  it('collects Pine Script files recursively, sorted, without node_modules', () => {
+    write('b.pine', header)
+    write('a/c.ps', header)
+    write('a/readme.md', '')
+    write('node_modules/d.pine', header)
+    assert.deepEqual(
+      PineLintCli.collectFiles(directory).map((file) => path.relative(directory, file)),
+      [path.join('a', 'c.ps'), 'b.pine'],
+    )
+  })
+
+  it('sorts the problems of pine-facade by position', async () => {
+    const file = write('sorted.pine', `${header}plot(a)\nplot(b)\n`)
+    const response = {
+      success: true,
+      result: {
+        errors2: [at(4, 6, "Undeclared identifier 'b'"), at(3, 6, "Undeclared identifier 'a'")],
+        warnings2: [at(3, 1, 'The value is never used')],
+      },
+    }
+    const result = await new PineLintCli({ transport: answer(response) }).lintFile(file)
+    assert.equal(result.status, 'linted')
+    assert.deepEqual(
+      result.problems.map((problem) => [problem.line, problem.column, problem.code]),
+      [
+        [3, 1, 'unused'],
+        [3, 6, 'undeclared-identifier'],
+        [4, 6, 'undeclared-identifier'],
+      ],
+    )
+  })
+
+  it('applies rule settings', async () => {
+    const file = write('rules.pine', `${header}plot(a)\n`)
+    const response = { success: true, result: { errors2: [at(3, 6, "Undeclared identifier 'a'")], warnings2: [] } }
+    const cli = new PineLintCli({ transport: answer(response) }, { 'undeclared-identifier': 'warning' })
+    assert.equal((await cli.lintFile(file)).problems[0].severity, 'warning')
+  })
+
+  it('reports unsupported versions without a request and skips files without a declaration', async () => {
+    const transport: PineFacadeTransport = { send: () => Promise.reject(new Error('no request expected')) }
+    const cli = new PineLintCli({ transport })
+    const old = await cli.lintFile(write('old.pine', '//@version=4\nstudy("T")\n'))
+    assert.deepEqual([old.status, old.problems[0].code], ['linted', 'unsupported-version'])
+    const skipped = await cli.lintFile(write('skipped.pine', 'plot(close)\n'))
+    assert.deepEqual([skipped.status, skipped.note], ['skipped', 'no //@version or declaration statement'])
+  })
+
+  it('fails a file when pine-facade fails', async () => {
+    const transport: PineFacadeTransport = {
+      send: async () => ({ status: 400, statusText: 'Bad Request', retryAfter: null, body: '' }),
+    }
+    const result = await new PineLintCli({ transport }).lintFile(write('failed.pine', header))
+    assert.deepEqual([result.status, result.note], ['failed', 'HTTP error! status: 400 Bad Request'])
+  })
+
+  const results: PineLintFileResult[] = [
+    {
+      file: 'a.pine',
+      version: '5',
+      status: 'linted',
+      problems: [
+        {
+          line: 3,
+          column: 6,
+          endLine: 3,
+          endColumn: 8,
+          message: "Undeclared identifier 'a'",
+          severity: 'error',
+          code: 'undeclared-identifier',
+          source: 'pine-facade',
+        },
+      ],
+    },
+    { file: 'b.pine', version: null, status: 'skipped', problems: [], note: 'no //@version or declaration statement' },
+  ]
+
+  it('formats results for people', () => {
+    assert.equal(
+      PineLintCli.toHuman(results),
+      [
+        "a.pine:3:6: error: Undeclared identifier 'a' [undeclared-identifier]",
+        'b.pine: skipped (no //@version or declaration statement)',
+        '1 error, 0 warnings in 2 files (1 skipped)',
+      ].join('\n'),
+    )
+  })
+
+  it('formats results as SARIF with exclusive end columns and skipped files as notifications', () => {
+    const [run] = PineLintCli.toSarif(results).runs
+    assert.deepEqual(run.results[0].locations[0].physicalLocation, {
+      artifactLocation: { uri: 'a.pine' },
+      region: { startLine: 3, startColumn: 6, endLine: 3, endColumn: 9 },
+    })
+    assert.deepEqual([run.results[0].ruleId, run.results[0].level], ['undeclared-identifier', 'error'])
+    assert.deepEqual(run.invocations[0].toolExecutionNotifications[0].message.text, `skipped: ${results[1].note}`)
+    assert.equal(run.invocations[0].executionSuccessful, true)
+  })
+
+  it('keeps the JSON output parseable', () => {
+    assert.deepEqual(JSON.parse(PineLintCli.formatters.json(results)), results)
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { PineLintCore } from '../PineLintCore'
+
+const at = (line: number, column: number, message: string, source?: string) => ({
+  start: { line, column },
+  end: { line, column: column + 2 },
+  message,
+  source,
+})
+
+describe('PineLintCore', () => {
+  it('gives problems the ID, severity and tags of their rule', () => {
+    const problems = PineLintCore.problemsFrom(
+      [at(3, 1, "Undeclared identifier 'foo'", 'local')],
+      [at(4, 1, "The 'security' function is deprecated"), at(5, 1, 'Something else')],
+    )
+    assert.deepEqual(
+      problems.map(({ code, severity, source, tags }) => ({ code, severity, source, tags })),
+      [
+        { code: 'undeclared-identifier', severity: 'error', source: 'local', tags: undefined },
+        { code: 'deprecated', severity: 'warning', source: 'pine-facade', tags: ['deprecated'] },
+        { code: 'other-warning', severity: 'warning', source: 'pine-facade', tags: undefined },
+      ],
+    )
+  })
+
+  it('reads the older errors and reason2 groups of pine-facade', () => {
+    const problems = PineLintCore.problemsOf({ reason2: { errors: [at(2, 1, 'Mismatched input')] } })
+    assert.deepEqual(
+      problems.map((problem) => [problem.code, problem.severity]),
+      [['syntax-error', 'error']],
+    )
+  })
+
+  it('applies configured severities and turns rules off', () => {
+    const problems = PineLintCore.problemsFrom([at(1, 1, "Undeclared identifier 'a'"), at(2, 1, 'Mismatched input')])
+    assert.deepEqual(
+      PineLintCore.applyRuleSettings(problems, { 'undeclared-identifier': 'hint', 'syntax-error': 'off' }).map(
+        (problem) => [problem.code, problem.severity],
+      ),
+      [['undeclared-identifier', 'hint']],
+    )
+  })
+
+  it('relates a redeclaration to the first declaration', () => {
+    const text = '//@version=5\nindicator("T")\nlength = 1\nlength = 2\n'
+    const [problem] = PineLintCore.problemsOf({ result: { errors2: [at(4, 1, "'length' is already defined")] } }, text)
+    assert.equal(problem.code, 'redeclaration')
+    assert.deepEqual(problem.related, [
+      { line: 3, column: 1, endLine: 3, endColumn: 6, message: "'length' is first declared here" },
+    ])
+  })
+
+  it('detects the script version and title', () => {
+    assert.deepEqual(PineLintCore.scriptVersion('//@version=6\nstrategy("S")\n'), {
+      version: '6',
+      fileName: '"S"',
+      valid: true,
+    })
+    assert.deepEqual(PineLintCore.scriptVersion('plot(close)\n'), { version: null, fileName: null, valid: false })
+    const { valid, problem } = PineLintCore.scriptVersion('\n//@version=4\nstudy("S")\n')
+    assert.equal(valid, false)
+    assert.deepEqual(
+      [problem?.code, problem?.line, problem?.column, problem?.endColumn],
+      ['unsupported-version', 2, 1, 13],
+    )
+    assert.match(problem?.message ?? '', /Convert v4 to v5 with the quick fix/)
+  })
+})
@@ -0,0 +1,89 @@
+import { after, before, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { PineLocalLint } from '../PineLocalLint'
+import { PineDocsManager } from '../PineDocsManager'
+import { useBundles } from './docs'
+
+const linter = new PineLocalLint(new PineDocsManager())
+const header = '//@version=5\nindicator("Test")\n'
+const messages = (text: string) => linter.lint(text).result.errors2.map((error) => error.message)
+
+describe('PineLocalLint', () => {
+  it('accepts a valid script', () => {
+    assert.deepEqual(messages(`${header}length = input.int(14)\nplot(ta.sma(close, length))\n`), [])
+  })
+
+  it('reports a missing version and declaration statement', () => {
+    assert.deepEqual(messages('plot(close)\n'), [
+      "Script is missing the '//@version' annotation",
+      "Script is missing a declaration statement: 'indicator()', 'strategy()' or 'library()'",
+    ])
+  })
+
+  it('reports undeclared identifiers but not names in comments or strings', () => {
+    assert.deepEqual(messages(`${header}plot(foo) // bar\nlabel.new(bar_index, high, "baz")\n`), [
+      "Undeclared identifier 'foo'",
+    ])
+  })
+
+  it('reports unknown built-in functions', () => {
+    assert.deepEqual(messages(`${header}plot(ta.smaa(close, 14))\n`), [
+      "Could not find function or function reference 'ta.smaa'",
+    ])
+  })
+
+  it('reports wrong argument counts and names', () => {
+    assert.deepEqual(messages(`${header}plot(ta.sma(close, 14, 2))\n`), [
+      "Too many arguments passed into 'ta.sma': expected at most 2, got 3",
+    ])
+    assert.deepEqual(messages(`${header}plot(close, colour = color.red)\n`), [
+      "The 'plot' function does not have an argument with the name 'colour'",
+    ])
+  })
+
+  it('knows user functions, their parameters and tuple declarations', () => {
+    const text = `${header}double(x) =>\n    x * 2\n[a, b] = [close, open]\nplot(double(a) + b)\n`
+    assert.deepEqual(messages(text), [])
+    assert.deepEqual(messages(`${text}plot(double(a, b))\n`), [
+      "Too many arguments passed into 'double': expected at most 1, got 2",
+    ])
+    assert.deepEqual(messages(`${text}plot(double())\n`), ["Missing required arguments in call to 'double': x"])
+  })
+
+  it('reports 1-based positions marked as local', () => {
+    const [error] = linter.lint(`${header}plot(foo)\n`).result.errors2
+    assert.deepEqual(error, {
+      start: { line: 3, column: 6 },
+      end: { line: 3, column: 8 },
+      message: "Undeclared identifier 'foo'",
+      source: 'local',
+    })
+  })
+})
+
+describe('PineLocalLint with a bundle per version', () => {
+  const indicator = { name: 'indicator', syntax: 'indicator(title) → void', args: [{ name: 'title' }] }
+  let restore: () => void
+  before(() => {
+    restore = useBundles({
+      'pineDocs.v5.json': { functions: [indicator, { name: 'request.quandl', syntax: 'request.quandl(ticker)' }] },
+      'pineDocs.v6.json': {
+        functions: [indicator, { name: 'request.security', syntax: 'request.security(symbol, timeframe, expression)' }],
+        variables: [{ name: 'bid' }],
+      },
+    })
+  })
+  after(() => restore())
+
+  it('checks each script against the docs of its version', () => {
+    const versioned = new PineLocalLint(new PineDocsManager())
+    const messagesOf = (text: string) => versioned.lint(text).result.errors2.map((error) => error.message)
+    const quandl = 'indicator("T")\nx = request.quandl("A")\n'
+    assert.deepEqual(messagesOf(`//@version=6\n${quandl}`), [
+      "Could not find function or function reference 'request.quandl'",
+    ])
+    assert.deepEqual(messagesOf(`//@version=5\n${quandl}`), [])
+    assert.deepEqual(messagesOf('//@version=5\nindicator("T")\nx = bid\n'), ["Undeclared identifier 'bid'"])
+    assert.deepEqual(messagesOf('//@version=6\nindicator("T")\nx = bid\n'), [])
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { PineMigration } from '../PineMigration'
+
+/** Applies the fixes of the migration to a script. */
+const migrate = (text: string) =>
+  PineMigration.changesFor(text)
+    .flatMap((change) => change.edits)
+    .sort((a, b) => b.start - a.start || b.end - a.end)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), text)
+/** Lists the changes as `rule fix` or `rule review`. */
+const changesOf = (text: string) =>
+  PineMigration.changesFor(text).map((change) => `${change.rule} ${change.edits.length > 0 ? 'fix' : 'review'}`)
+
+describe('PineMigration', () => {
+  it('updates the version annotation', () => {
+    assert.equal(migrate('//@version=5\nindicator("T")\n'), '//@version=6\nindicator("T")\n')
+  })
+
+  it('moves the when argument into an if block', () => {
+    assert.equal(
+      migrate('if bar_index > 10\n    strategy.entry("L", strategy.long, when = close > open)\n'),
+      'if bar_index > 10\n    if close > open\n        strategy.entry("L", strategy.long)\n',
+    )
+    assert.equal(
+      migrate('strategy.exit("X", "L",\n  stop = low,\n  when = up)\n'),
+      'if up\n    strategy.exit("X", "L",\n      stop = low)\n',
+    )
+    assert.equal(migrate('strategy.close_all(when = true)\n'), 'strategy.close_all()\n')
+  })
+
+  it('leaves a when argument to be moved by hand when the call does not start its line', () => {
+    const text = 'f() => strategy.close_all(when = longCond)\nx = strategy.cancel("L", when = c)\n'
+    assert.equal(migrate(text), text)
+    assert.deepEqual(changesOf(text), ['when review', 'when review'])
+  })
+
+  it('moves the transp argument into the color', () => {
+    assert.equal(migrate('plot(close, "C", color.red, transp = 50)\n'), 'plot(close, "C", color.new(color.red, 50))\n')
+    assert.equal(
+      migrate('bgcolor(color.new(color.red, 20), transp = 50)\nplot(close, transp = 50)\n'),
+      'bgcolor(color.new(color.red, 20))\nplot(close)\n',
+    )
+  })
+
+  it('keeps the integer division of const ints', () => {
+    const text = 'a = 5\nconst int b = 2\nvar c = 3\nx = a / b\ny = c / 2\nz = 10 / 4.0\n'
+    assert.equal(migrate(text), text.replace('a / b', 'int(a / b)'))
+  })
+
+  it('leaves divisions that are already truncated', () => {
+    const text = 'x = int(7 / 2)\ny = int(7 / 2 + 1)\n'
+    assert.equal(migrate(text), 'x = int(7 / 2)\ny = int(int(7 / 2) + 1)\n')
+    assert.deepEqual(changesOf(text), ['division fix'])
+  })
+
+  it('does not treat reassigned variables as const ints', () => {
+    const text = 'a = 5\nb = 2\nif close > open\n    a := 7\nb += 1\nx = a / 2\ny = 10 / b\n'
+    assert.equal(migrate(text), text)
+  })
+
+  it('replaces na where a bool is expected', () => {
+    assert.equal(
+      migrate('bool up = na\nup := na\nx = close > open ? true : na\n'),
+      'bool up = false\nup := false\nx = close > open ? true : false\n',
+    )
+    assert.deepEqual(changesOf('bool up = close > open\ny = na(up)\n'), ['boolNa review'])
+  })
+
+  it('turns off dynamic requests in the declaration', () => {
+    assert.equal(
+      migrate('indicator("T")\nx = request.security("A", "D", close)\n'),
+      'indicator("T", dynamic_requests = false)\nx = request.security("A", "D", close)\n',
+    )
+    assert.deepEqual(changesOf('x = request.security("A", "D", close)\n'), ['dynamicRequests review'])
+  })
+
+  it('leaves overlapping fixes to be done by hand', () => {
+    const changes = PineMigration.changesFor('strategy.entry("L", strategy.long, when = 10 / 4 > 1)\n')
+    assert.deepEqual(
+      changes.map((change) => [change.rule, change.edits.length]),
+      [
+        ['when', 2],
+        ['division', 0],
+      ],
+    )
+    assert.match(changes[1].explanation, /overlaps another fix/)
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { openDocument } from './vscode'
+import { PineReferenceProvider } from '../PineReferenceProvider'
+import { PineCodeLensProvider } from '../PineCodeLensProvider'
+
+const text = [
+  '//@version=5',
+  'indicator("T")',
+  'f(x) => x * 2',
+  'g(x) => x + 1',
+  'y = f(close) + f(open)',
+  'plot(y)',
+  '',
+].join('\n')
+const spans = (locations: vscode.Location[] | undefined) =>
+  locations?.map((location) => [location.range.start.line, location.range.start.character])
+
+describe('PineReferenceProvider', () => {
+  it('finds the references of a function, with or without its declaration', () => {
+    const document = openDocument(text)
+    const provider = new PineReferenceProvider()
+    const position = new vscode.Position(4, 4)
+    assert.deepEqual(spans(provider.provideReferences(document, position, { includeDeclaration: false })), [
+      [4, 4],
+      [4, 15],
+    ])
+    assert.deepEqual(spans(provider.provideReferences(document, position, { includeDeclaration: true })), [
+      [2, 0],
+      [4, 4],
+      [4, 15],
+    ])
+  })
+
+  it('keeps parameters of different functions apart', () => {
+    const document = openDocument(text)
+    const references = new PineReferenceProvider().provideReferences(document, new vscode.Position(2, 2), {
+      includeDeclaration: true,
+    })
+    assert.deepEqual(spans(references), [
+      [2, 2],
+      [2, 8],
+    ])
+  })
+
+  it('returns nothing for built-ins', () => {
+    const document = openDocument(text)
+    assert.equal(
+      new PineReferenceProvider().provideReferences(document, new vscode.Position(5, 1), { includeDeclaration: true }),
+      undefined,
+    )
+  })
+})
+
+describe('PineCodeLensProvider', () => {
+  it('counts the references of functions', () => {
+    const lenses = new PineCodeLensProvider().provideCodeLenses(openDocument(text))
+    assert.deepEqual(
+      lenses.map((lens) => [lens.range.start.line, lens.command?.title, lens.command?.command]),
+      [
+        [2, '2 references', 'editor.action.showReferences'],
+        [3, '0 references', ''],
+      ],
+    )
+  })
+})
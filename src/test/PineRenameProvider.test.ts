@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { applyEdits, openDocument } from './vscode'
+import { PineRenameProvider } from '../PineRenameProvider'
+
+const provider = new PineRenameProvider()
+const header = '//@version=5\nindicator("T")\n'
+const rename = async (text: string, line: number, character: number, newName: string) => {
+  const document = openDocument(text)
+  const edit = await provider.provideRenameEdits(document, new vscode.Position(line, character), newName)
+  return applyEdits(document, edit.get(document.uri))
+}
+
+describe('PineRenameProvider', () => {
+  it('renames a variable and its references only', async () => {
+    const text = `${header}len = 14\nf(len) => len * 2\nplot(ta.sma(close, len) + f(1))\n`
+    assert.equal(
+      await rename(text, 2, 0, 'length'),
+      `${header}length = 14\nf(len) => len * 2\nplot(ta.sma(close, length) + f(1))\n`,
+    )
+  })
+
+  it('renames a parameter within its function', async () => {
+    const text = `${header}len = 14\nf(len) => len * 2\n`
+    assert.equal(await rename(text, 3, 2, 'n'), `${header}len = 14\nf(n) => n * 2\n`)
+  })
+
+  it('adds an explicit alias when renaming an import', async () => {
+    const text = `${header}import user/Lib/1\nx = Lib.f()\n`
+    assert.equal(await rename(text, 3, 4, 'L'), `${header}import user/Lib/1 as L\nx = L.f()\n`)
+  })
+
+  it('rejects invalid, keyword, built-in and colliding names', async () => {
+    const text = `${header}a = 1\nb = 2\nf(x, y) => x + y\n`
+    const document = openDocument(text)
+    const renameTo = (line: number, character: number, newName: string) =>
+      provider.provideRenameEdits(document, new vscode.Position(line, character), newName)
+    await assert.rejects(renameTo(2, 0, '1a'), /'1a' is not a valid identifier/)
+    await assert.rejects(renameTo(2, 0, 'for'), /'for' is a keyword/)
+    await assert.rejects(renameTo(2, 0, 'close'), /'close' is a built-in name/)
+    await assert.rejects(renameTo(2, 0, 'b'), /'b' is already declared in this scope/)
+    await assert.rejects(renameTo(4, 2, 'y'), /'f' already has a parameter named 'y'/)
+  })
+
+  it('refuses to prepare a rename of keywords and built-ins', () => {
+    const document = openDocument(`${header}if close > open\n    plot(close)\n`)
+    assert.throws(() => provider.prepareRename(document, new vscode.Position(2, 1)), /'if' is a keyword/)
+    assert.throws(() => provider.prepareRename(document, new vscode.Position(2, 5)), /'close' is built in/)
+  })
+})
@@ -0,0 +1,89 @@
+import { after, before, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { openDocument } from './vscode'
+import { PineSemanticTokensProvider } from '../PineSemanticTokensProvider'
+import { useBundles } from './docs'
+
+const { tokenTypes, tokenModifiers } = PineSemanticTokensProvider.legend
+
+/** Decodes the tokens of a script into `text: type modifiers` strings. */
+const tokensOf = (text: string) => {
+  const document = openDocument(text)
+  const { data } = new PineSemanticTokensProvider().provideDocumentSemanticTokens(document)
+  const lines = text.split('\n')
+  const tokens: string[] = []
+  let line = 0
+  let character = 0
+  for (let i = 0; i < data.length; i += 5) {
+    line += data[i]
+    character = data[i] ? data[i + 1] : character + data[i + 1]
+    const modifiers = tokenModifiers.filter((_modifier, bit) => data[i + 4] & (1 << bit))
+    const name = lines[line].slice(character, character + data[i + 2])
+    tokens.push([`${name}: ${tokenTypes[data[i + 3]]}`, ...modifiers].join(' '))
+  }
+  return tokens
+}
+
+describe('PineSemanticTokensProvider', () => {
+  it('classifies declarations, references and built-ins', () => {
+    const text = [
+      '//@version=5',
+      'indicator("T")',
+      'const int LENGTH = 14',
+      'f(src) => ta.sma(src, LENGTH)',
+      'plot(f(close), color = color.red)',
+      '',
+    ].join('\n')
+    assert.deepEqual(tokensOf(text), [
+      'indicator: function defaultLibrary',
+      'int: type defaultLibrary',
+      'LENGTH: variable declaration readonly',
+      'f: function declaration',
+      'src: parameter declaration',
+      'ta: namespace defaultLibrary',
+      'sma: function defaultLibrary',
+      'src: parameter',
+      'LENGTH: variable readonly',
+      'plot: function defaultLibrary',
+      'f: function',
+      'close: variable defaultLibrary',
+      'color: parameter defaultLibrary',
+      'color: namespace defaultLibrary',
+      'red: variable readonly defaultLibrary',
+    ])
+  })
+
+  it('classifies types, fields, enums and methods', () => {
+    const text = ['type Point', '    float x', 'enum Side', '    long', 'method len(Point p) => p.x', ''].join('\n')
+    assert.deepEqual(tokensOf(text), [
+      'Point: type declaration',
+      'float: type defaultLibrary',
+      'x: property declaration',
+      'Side: enum declaration',
+      'long: enumMember declaration readonly',
+      'len: method declaration',
+      'Point: type',
+      'p: parameter declaration',
+      'p: parameter',
+      'x: property',
+    ])
+  })
+
+  it('marks functions documented as deprecated', () => {
+    const text = '// @function Old.\n// @deprecated Use g.\nf() => 1\nx = f()\n'
+    assert.deepEqual(tokensOf(text).slice(0, 2), ['f: function declaration deprecated', 'x: variable declaration'])
+  })
+})
+
+describe('PineSemanticTokensProvider with a bundle per version', () => {
+  let restore: () => void
+  before(() => {
+    restore = useBundles({ 'pineDocs.v5.json': {}, 'pineDocs.v6.json': { variables: [{ name: 'bid' }] } })
+  })
+  after(() => restore())
+
+  it('classifies the built-ins of the version of the script', () => {
+    assert.deepEqual(tokensOf('//@version=5\nx = bid\n'), ['x: variable declaration'])
+    assert.deepEqual(tokensOf('//@version=6\nx = bid\n'), ['x: variable declaration', 'bid: variable defaultLibrary'])
+  })
+})
@@ -0,0 +1,72 @@
+import { after, afterEach, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { openDocument, settings } from './vscode'
+import { Class } from '../PineClass'
+import { PineLint } from '../PineLint'
+import { PineWorkspaceLint } from '../PineWorkspaceLint'
+
+/** What pine-facade answers, undefined when the request fails. */
+let reply: any
+let requests = 0
+Class.PineRequest.request = async () => {
+  requests++
+  return reply
+}
+
+const lintFile = (text: string, path: string) => new PineWorkspaceLint().lintFile(openDocument(text, path).uri)
+const header = '//@version=5\nindicator("T")\n'
+const remoteError = {
+  success: true,
+  result: { errors2: [{ start: { line: 3, column: 1 }, end: { line: 3, column: 4 }, message: 'remote' }] },
+}
+
+describe('PineWorkspaceLint', () => {
+  afterEach(() => {
+    settings.clear()
+    reply = undefined
+    requests = 0
+  })
+
+  after(() => Class.PineLintCache.flush())
+
+  it('reuses the cached pine-facade response of an unchanged file', async () => {
+    reply = remoteError
+    const text = `${header}plot(close)\n`
+    const first = await lintFile(text, '/workspace/cached.pine')
+    const second = await lintFile(text, '/workspace/cached.pine')
+    assert.deepEqual([first.status, first.errors, first.cached], ['problems', 1, false])
+    assert.deepEqual([second.status, second.errors, second.cached], ['problems', 1, true])
+    assert.equal(requests, 1)
+  })
+
+  it('does not cache local results when pine-facade fails in merged mode', async () => {
+    settings.set('pinescript.lint.source', 'merged')
+    const text = `${header}plot(foo)\n`
+    const failed = await lintFile(text, '/workspace/merged.pine')
+    assert.deepEqual([failed.status, failed.errors, failed.cached], ['problems', 1, false])
+    assert.equal(failed.note, 'no response from pine-facade, linted locally')
+
+    reply = remoteError
+    const retried = await lintFile(text, '/workspace/merged.pine')
+    assert.deepEqual([retried.errors, retried.cached, retried.note], [1, false, undefined])
+    assert.equal(requests, 2)
+  })
+
+  it('fails a file when pine-facade fails in remote mode', async () => {
+    const result = await lintFile(`${header}plot(open)\n`, '/workspace/failed.pine')
+    assert.deepEqual([result.status, result.note], ['failed', 'no response from pine-facade'])
+  })
+
+  it('reports scripts older than v5 as unsupported', async () => {
+    const document = openDocument('//@version=4\nstudy("T")\nplot(close)\n', '/workspace/v4.pine')
+    const result = await new PineWorkspaceLint().lintFile(document.uri)
+    assert.deepEqual([result.status, result.errors, result.note], ['problems', 1, 'v4 is not supported'])
+    assert.equal(PineLint.getDiagnostics(document.uri)?.[0].code, 'unsupported-version')
+    assert.equal(requests, 0)
+  })
+
+  it('skips scripts without a version in remote mode', async () => {
+    const result = await lintFile('indicator("T")\nplot(close)\n', '/workspace/none.pine')
+    assert.deepEqual([result.status, result.note], ['skipped', 'no //@version'])
+  })
+})
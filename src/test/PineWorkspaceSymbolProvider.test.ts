@@ -0,0 +1,61 @@
+import { afterEach, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as vscode from 'vscode'
+import { workspace } from './vscode'
+import { PineWorkspaceSymbolProvider } from '../PineWorkspaceSymbolProvider'
+
+/** Writes a file to the stand-in workspace and lists it in `findFiles`. */
+const writeFile = (path: string, text: string) => {
+  const uri = vscode.Uri.file(path)
+  workspace.fs.written.set(uri.toString(), new TextEncoder().encode(text))
+  if (!workspace.files.some((file) => file.toString() === uri.toString())) {
+    workspace.files.push(uri)
+  }
+  return uri
+}
+const search = async (provider: PineWorkspaceSymbolProvider, query: string) =>
+  (await provider.provideWorkspaceSymbols(query)).map((symbol) => [
+    symbol.name,
+    symbol.containerName,
+    symbol.location.uri.path,
+    symbol.location.range.start.line,
+  ])
+
+describe('PineWorkspaceSymbolProvider', () => {
+  afterEach(() => {
+    workspace.files = []
+    workspace.fs.written.clear()
+  })
+
+  it('finds functions, methods, types and enums of every file', async () => {
+    writeFile(
+      '/workspace/lib.pine',
+      '//@version=5\nlibrary("Tools")\nexport smooth(x) => x\nexport type Bar\n    float o\n',
+    )
+    writeFile('/workspace/main.pine', '//@version=5\nindicator("T")\nenum Side\n    long\nmethod size(Bar b) => b.o\n')
+    const provider = new PineWorkspaceSymbolProvider()
+    assert.deepEqual(await search(provider, ''), [
+      ['smooth', 'Tools', '/workspace/lib.pine', 2],
+      ['Bar', 'Tools', '/workspace/lib.pine', 3],
+      ['size', 'Bar', '/workspace/main.pine', 4],
+      ['Side', '', '/workspace/main.pine', 2],
+    ])
+  })
+
+  it('reindexes changed files only', async () => {
+    const uri = writeFile('/workspace/a.pine', 'first() => 1\n')
+    const provider = new PineWorkspaceSymbolProvider()
+    assert.deepEqual(await search(provider, 'fir'), [['first', '', '/workspace/a.pine', 0]])
+    writeFile('/workspace/a.pine', 'second() => 2\n')
+    assert.deepEqual(await search(provider, 'sec'), [])
+    provider.invalidate(uri)
+    assert.deepEqual(await search(provider, 'sec'), [['second', '', '/workspace/a.pine', 0]])
+  })
+
+  it('matches the query as a subsequence, ignoring case and spaces', () => {
+    assert.equal(PineWorkspaceSymbolProvider.fuzzyMatch('cSm', 'calcSmooth'), true)
+    assert.equal(PineWorkspaceSymbolProvider.fuzzyMatch('calc sm', 'calcSmooth'), true)
+    assert.equal(PineWorkspaceSymbolProvider.fuzzyMatch('smc', 'calcSmooth'), false)
+    assert.equal(PineWorkspaceSymbolProvider.fuzzyMatch('', 'anything'), true)
+  })
+})
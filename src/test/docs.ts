@@ -0,0 +1,31 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PineDocsManager } from '../PineDocsManager'
+
+/** The entries of a test bundle, by section. */
+export type TestBundle = Partial<Record<'functions' | 'variables' | 'constants', Record<string, any>[]>>
+
+/**
+ * Points PineDocsManager at a temporary folder of documentation bundles.
+ * @param bundles - The bundles, keyed by file name, e.g. `pineDocs.v6.json`.
+ * @returns A function that removes the folder and restores the shipped bundles.
+ */
+export function useBundles(bundles: Record<string, TestBundle>): () => void {
+  const shipped = PineDocsManager.folder
+  const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'pine-docs-'))
+  const sections = ['types', 'methods', 'controls', 'variables', 'constants', 'functions', 'operators', 'annotations']
+  const files: Record<string, TestBundle> = { 'pineDocs.json': {}, ...bundles }
+  for (const [file, entries] of Object.entries(files)) {
+    const bundle: Record<string, any> = { fields: [{ docs: [] }] }
+    for (const section of sections) {
+      bundle[section] = [{ docs: entries[section as keyof TestBundle] ?? [] }]
+    }
+    fs.writeFileSync(path.join(folder, file), JSON.stringify(bundle))
+  }
+  PineDocsManager.folder = folder
+  return () => {
+    PineDocsManager.folder = shipped
+    fs.rmSync(folder, { recursive: true, force: true })
+  }
+}
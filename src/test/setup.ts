@@ -0,0 +1,23 @@
+/**
+ * Loaded with `node --require` before the tests: answers `require('vscode')` with the stand-in of ./vscode.ts.
+ * Members the stand-in does not define resolve to a function that does nothing, so modules that touch other parts
+ * of the editor API while loading still load.
+ */
+import Module = require('module')
+import * as vscode from './vscode'
+
+const noop: any = new Proxy(function noop() {}, {
+  get: (_target, key) => (key === 'then' || key === Symbol.toPrimitive ? undefined : noop),
+  apply: () => undefined,
+  construct: () => ({}),
+})
+
+const stub = new Proxy(vscode, {
+  get: (target, key) => (key in target ? (target as any)[key] : noop),
+})
+
+const moduleLoader = Module as unknown as { _load: (request: string, ...args: unknown[]) => unknown }
+const load = moduleLoader._load
+moduleLoader._load = function loadModule(request: string, ...args: unknown[]) {
+  return request === 'vscode' ? stub : load.call(this, request, ...args)
+}
@@ -0,0 +1,804 @@
+/**
+ * A stand-in for the `vscode` module, which only exists inside the editor. It implements the value classes and the
+ * parts of the editor API the extension's providers use, so they can be tested with plain Node. setup.ts loads it in
+ * place of `vscode`; members it does not define resolve to no-ops there.
+ */
+import * as path from 'path'
+
+export class Position {
+  constructor(readonly line: number, readonly character: number) {}
+
+  isBefore(other: Position): boolean {
+    return this.compareTo(other) < 0
+  }
+
+  isBeforeOrEqual(other: Position): boolean {
+    return this.compareTo(other) <= 0
+  }
+
+  isAfter(other: Position): boolean {
+    return this.compareTo(other) > 0
+  }
+
+  isAfterOrEqual(other: Position): boolean {
+    return this.compareTo(other) >= 0
+  }
+
+  isEqual(other: Position): boolean {
+    return this.compareTo(other) === 0
+  }
+
+  compareTo(other: Position): number {
+    return this.line - other.line || this.character - other.character
+  }
+
+  translate(lineDelta = 0, characterDelta = 0): Position {
+    return new Position(this.line + lineDelta, this.character + characterDelta)
+  }
+
+  with(line = this.line, character = this.character): Position {
+    return new Position(line, character)
+  }
+}
+
+export class Range {
+  readonly start: Position
+  readonly end: Position
+
+  constructor(start: Position | number, end: Position | number, endLine?: number, endCharacter?: number) {
+    if (typeof start === 'number' && typeof end === 'number') {
+      this.start = new Position(start, end)
+      this.end = new Position(endLine ?? start, endCharacter ?? end)
+    } else {
+      this.start = start as Position
+      this.end = end as Position
+    }
+  }
+
+  get isEmpty(): boolean {
+    return this.start.isEqual(this.end)
+  }
+
+  get isSingleLine(): boolean {
+    return this.start.line === this.end.line
+  }
+
+  contains(value: Position | Range): boolean {
+    if (value instanceof Range) {
+      return this.contains(value.start) && this.contains(value.end)
+    }
+    return value.isAfterOrEqual(this.start) && value.isBeforeOrEqual(this.end)
+  }
+
+  isEqual(other: Range): boolean {
+    return this.start.isEqual(other.start) && this.end.isEqual(other.end)
+  }
+
+  with(start = this.start, end = this.end): Range {
+    return new Range(start, end)
+  }
+}
+
+export class Selection extends Range {
+  constructor(readonly anchor: Position, readonly active: Position) {
+    super(anchor.isBefore(active) ? anchor : active, anchor.isBefore(active) ? active : anchor)
+  }
+}
+
+export class Uri {
+  private constructor(
+    readonly scheme: string,
+    readonly authority: string,
+    readonly path: string,
+    readonly query: string,
+    readonly fragment: string,
+  ) {}
+
+  static file(path: string): Uri {
+    return new Uri('file', '', path.replace(/\\/g, '/'), '', '')
+  }
+
+  static parse(value: string): Uri {
+    const match = /^([\w+.-]+):(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/.exec(value)
+    if (!match) {
+      return Uri.file(value)
+    }
+    return new Uri(match[1], match[2] ?? '', decodeURIComponent(match[3]), match[4] ?? '', match[5] ?? '')
+  }
+
+  static from(components: { scheme: string; authority?: string; path?: string; query?: string; fragment?: string }) {
+    const { scheme, authority = '', path = '', query = '', fragment = '' } = components
+    return new Uri(scheme, authority, path, query, fragment)
+  }
+
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return base.with({ path: path.posix.join(base.path, ...segments) })
+  }
+
+  get fsPath(): string {
+    return this.path
+  }
+
+  with(change: { scheme?: string; authority?: string; path?: string; query?: string; fragment?: string }): Uri {
+    return new Uri(
+      change.scheme ?? this.scheme,
+      change.authority ?? this.authority,
+      change.path ?? this.path,
+      change.query ?? this.query,
+      change.fragment ?? this.fragment,
+    )
+  }
+
+  toString(): string {
+    const authority = this.scheme === 'file' || this.authority ? `//${this.authority}` : ''
+    const query = this.query ? `?${this.query}` : ''
+    const fragment = this.fragment ? `#${this.fragment}` : ''
+    return `${this.scheme}:${authority}${this.path}${query}${fragment}`
+  }
+
+  toJSON() {
+    return this.toString()
+  }
+}
+
+export class Location {
+  readonly range: Range
+
+  constructor(readonly uri: Uri, rangeOrPosition: Range | Position) {
+    this.range = rangeOrPosition instanceof Position ? new Range(rangeOrPosition, rangeOrPosition) : rangeOrPosition
+  }
+}
+
+export enum EndOfLine {
+  LF = 1,
+  CRLF = 2,
+}
+
+export enum SymbolKind {
+  File = 0,
+  Module = 1,
+  Namespace = 2,
+  Package = 3,
+  Class = 4,
+  Method = 5,
+  Property = 6,
+  Field = 7,
+  Constructor = 8,
+  Enum = 9,
+  Interface = 10,
+  Function = 11,
+  Variable = 12,
+  Constant = 13,
+  String = 14,
+  Number = 15,
+  Boolean = 16,
+  Array = 17,
+  Object = 18,
+  Key = 19,
+  Null = 20,
+  EnumMember = 21,
+  Struct = 22,
+  Event = 23,
+  Operator = 24,
+  TypeParameter = 25,
+}
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3,
+}
+
+export enum DiagnosticTag {
+  Unnecessary = 1,
+  Deprecated = 2,
+}
+
+export enum CompletionItemKind {
+  Text = 0,
+  Method = 1,
+  Function = 2,
+  Constructor = 3,
+  Field = 4,
+  Variable = 5,
+  Class = 6,
+  Interface = 7,
+  Module = 8,
+  Property = 9,
+  Unit = 10,
+  Value = 11,
+  Enum = 12,
+  Keyword = 13,
+  Snippet = 14,
+  Color = 15,
+  File = 16,
+  Reference = 17,
+  Folder = 18,
+  EnumMember = 19,
+  Constant = 20,
+  Struct = 21,
+  Event = 22,
+  Operator = 23,
+  TypeParameter = 24,
+}
+
+export enum CompletionItemTag {
+  Deprecated = 1,
+}
+
+export enum FoldingRangeKind {
+  Comment = 1,
+  Imports = 2,
+  Region = 3,
+}
+
+export enum InlayHintKind {
+  Type = 1,
+  Parameter = 2,
+}
+
+export enum StatusBarAlignment {
+  Left = 1,
+  Right = 2,
+}
+
+export enum ConfigurationTarget {
+  Global = 1,
+  Workspace = 2,
+  WorkspaceFolder = 3,
+}
+
+export class CodeActionKind {
+  static readonly Empty = new CodeActionKind('')
+  static readonly QuickFix = new CodeActionKind('quickfix')
+  static readonly Refactor = new CodeActionKind('refactor')
+  static readonly RefactorRewrite = new CodeActionKind('refactor.rewrite')
+  static readonly Source = new CodeActionKind('source')
+
+  constructor(readonly value: string) {}
+
+  append(part: string): CodeActionKind {
+    return new CodeActionKind(this.value ? `${this.value}.${part}` : part)
+  }
+
+  contains(other: CodeActionKind): boolean {
+    return this.value === other.value || other.value.startsWith(`${this.value}.`)
+  }
+}
+
+export class Diagnostic {
+  code?: string | number | { value: string | number; target: Uri }
+  source?: string
+  tags?: DiagnosticTag[]
+  relatedInformation?: DiagnosticRelatedInformation[]
+
+  constructor(
+    public range: Range,
+    public message: string,
+    public severity: DiagnosticSeverity = DiagnosticSeverity.Error,
+  ) {}
+}
+
+export class DiagnosticRelatedInformation {
+  constructor(public location: Location, public message: string) {}
+}
+
+export class DocumentSymbol {
+  children: DocumentSymbol[] = []
+
+  constructor(
+    public name: string,
+    public detail: string,
+    public kind: SymbolKind,
+    public range: Range,
+    public selectionRange: Range,
+  ) {}
+}
+
+export class SymbolInformation {
+  constructor(public name: string, public kind: SymbolKind, public containerName: string, public location: Location) {}
+}
+
+export class FoldingRange {
+  constructor(public start: number, public end: number, public kind?: FoldingRangeKind) {}
+}
+
+export class InlayHint {
+  paddingLeft?: boolean
+  paddingRight?: boolean
+  tooltip?: string | MarkdownString
+  textEdits?: TextEdit[]
+
+  constructor(public position: Position, public label: string, public kind?: InlayHintKind) {}
+}
+
+export class TextEdit {
+  constructor(public range: Range, public newText: string) {}
+
+  static replace(range: Range, newText: string): TextEdit {
+    return new TextEdit(range, newText)
+  }
+
+  static insert(position: Position, newText: string): TextEdit {
+    return new TextEdit(new Range(position, position), newText)
+  }
+
+  static delete(range: Range): TextEdit {
+    return new TextEdit(range, '')
+  }
+}
+
+export class WorkspaceEdit {
+  private edits: { uri: Uri; edit: TextEdit; metadata?: any }[] = []
+
+  get size(): number {
+    return new Set(this.edits.map(({ uri }) => uri.toString())).size
+  }
+
+  replace(uri: Uri, range: Range, newText: string, metadata?: any): void {
+    this.edits.push({ uri, edit: new TextEdit(range, newText), metadata })
+  }
+
+  insert(uri: Uri, position: Position, newText: string, metadata?: any): void {
+    this.replace(uri, new Range(position, position), newText, metadata)
+  }
+
+  delete(uri: Uri, range: Range, metadata?: any): void {
+    this.replace(uri, range, '', metadata)
+  }
+
+  set(uri: Uri, edits: TextEdit[]): void {
+    this.edits = this.edits.filter((entry) => entry.uri.toString() !== uri.toString())
+    this.edits.push(...edits.map((edit) => ({ uri, edit })))
+  }
+
+  get(uri: Uri): TextEdit[] {
+    return this.edits.filter((entry) => entry.uri.toString() === uri.toString()).map(({ edit }) => edit)
+  }
+
+  has(uri: Uri): boolean {
+    return this.get(uri).length > 0
+  }
+
+  entries(): [Uri, TextEdit[]][] {
+    const uris = new Map(this.edits.map(({ uri }) => [uri.toString(), uri]))
+    return [...uris.values()].map((uri) => [uri, this.get(uri)])
+  }
+
+  /** The metadata the edits were made with, in the order they were made. */
+  metadata(): any[] {
+    return this.edits.map(({ metadata }) => metadata)
+  }
+}
+
+export class CallHierarchyItem {
+  constructor(
+    public kind: SymbolKind,
+    public name: string,
+    public detail: string,
+    public uri: Uri,
+    public range: Range,
+    public selectionRange: Range,
+  ) {}
+}
+
+export class CallHierarchyIncomingCall {
+  constructor(public from: CallHierarchyItem, public fromRanges: Range[]) {}
+}
+
+export class CallHierarchyOutgoingCall {
+  constructor(public to: CallHierarchyItem, public fromRanges: Range[]) {}
+}
+
+export class CodeAction {
+  edit?: WorkspaceEdit
+  diagnostics?: Diagnostic[]
+  command?: { title: string; command: string; arguments?: any[] }
+  isPreferred?: boolean
+
+  constructor(public title: string, public kind?: CodeActionKind) {}
+}
+
+export class CodeLens {
+  constructor(public range: Range, public command?: { title: string; command: string; arguments?: any[] }) {}
+
+  get isResolved(): boolean {
+    return !!this.command
+  }
+}
+
+export class MarkdownString {
+  isTrusted?: boolean
+  supportHtml?: boolean
+
+  constructor(public value = '') {}
+
+  appendText(value: string): MarkdownString {
+    this.value += value.replace(/[\\`*_{}[\]()#+\-.!]/g, '\\$&')
+    return this
+  }
+
+  appendMarkdown(value: string): MarkdownString {
+    this.value += value
+    return this
+  }
+
+  appendCodeblock(value: string, language = ''): MarkdownString {
+    this.value += `\n\`\`\`${language}\n${value}\n\`\`\`\n`
+    return this
+  }
+}
+
+export class SnippetString {
+  constructor(public value = '') {}
+}
+
+export class CompletionItem {
+  detail?: string
+  documentation?: string | MarkdownString
+  insertText?: string | SnippetString
+  tags?: CompletionItemTag[]
+  sortText?: string
+  preselect?: boolean
+  range?: Range
+  command?: { title: string; command: string; arguments?: any[] }
+
+  constructor(public label: string, public kind?: CompletionItemKind) {}
+}
+
+export class CompletionList {
+  constructor(public items: CompletionItem[] = [], public isIncomplete = false) {}
+}
+
+export class Hover {
+  contents: MarkdownString[]
+
+  constructor(contents: MarkdownString | MarkdownString[], public range?: Range) {
+    this.contents = Array.isArray(contents) ? contents : [contents]
+  }
+}
+
+export class ThemeColor {
+  constructor(readonly id: string) {}
+}
+
+export class SemanticTokensLegend {
+  constructor(readonly tokenTypes: string[], readonly tokenModifiers: string[] = []) {}
+}
+
+export class SemanticTokens {
+  constructor(readonly data: Uint32Array) {}
+}
+
+export class SemanticTokensBuilder {
+  private tokens: number[][] = []
+
+  constructor(readonly legend?: SemanticTokensLegend) {}
+
+  push(line: number | Range, character: number | string, length?: number | string[], type?: number, modifiers = 0) {
+    if (line instanceof Range) {
+      const typeIndex = this.legend?.tokenTypes.indexOf(character as string) ?? -1
+      const modifierBits = ((length as string[] | undefined) ?? []).reduce(
+        (bits, modifier) => bits | (1 << (this.legend?.tokenModifiers.indexOf(modifier) ?? 0)),
+        0,
+      )
+      this.tokens.push([
+        line.start.line,
+        line.start.character,
+        line.end.character - line.start.character,
+        typeIndex,
+        modifierBits,
+      ])
+      return
+    }
+    this.tokens.push([line, character as number, length as number, type ?? 0, modifiers])
+  }
+
+  build(): SemanticTokens {
+    const data: number[] = []
+    let previousLine = 0
+    let previousCharacter = 0
+    for (const [line, character, length, type, modifiers] of this.tokens) {
+      const deltaLine = line - previousLine
+      data.push(deltaLine, deltaLine ? character : character - previousCharacter, length, type, modifiers)
+      previousLine = line
+      previousCharacter = character
+    }
+    return new SemanticTokens(Uint32Array.from(data))
+  }
+}
+
+export class Disposable {
+  constructor(private callOnDispose: () => void = () => {}) {}
+
+  static from(...disposables: { dispose(): any }[]): Disposable {
+    return new Disposable(() => disposables.forEach((disposable) => disposable.dispose()))
+  }
+
+  dispose(): void {
+    this.callOnDispose()
+  }
+}
+
+export class EventEmitter<T> {
+  private listeners: ((value: T) => void)[] = []
+
+  readonly event = (listener: (value: T) => void) => {
+    this.listeners.push(listener)
+    return new Disposable(() => {
+      this.listeners = this.listeners.filter((other) => other !== listener)
+    })
+  }
+
+  fire(value: T): void {
+    this.listeners.forEach((listener) => listener(value))
+  }
+
+  dispose(): void {
+    this.listeners = []
+  }
+}
+
+export class CancellationTokenSource {
+  token = { isCancellationRequested: false, onCancellationRequested: new EventEmitter<void>().event }
+
+  cancel(): void {
+    this.token.isCancellationRequested = true
+  }
+
+  dispose(): void {}
+}
+
+/** A text document held in memory. */
+export class TextDocument {
+  version = 1
+  isDirty = false
+  isClosed = false
+  isUntitled = false
+  readonly eol = EndOfLine.LF
+  private text: string
+  private lineStarts: number[] = []
+
+  constructor(readonly uri: Uri, text: string, readonly languageId = 'pine') {
+    this.text = text
+    this.update(text)
+  }
+
+  get fileName(): string {
+    return this.uri.fsPath
+  }
+
+  get lineCount(): number {
+    return this.lineStarts.length
+  }
+
+  /** Replaces the text, as an edit in the editor would. */
+  update(text: string): void {
+    this.text = text
+    this.lineStarts = [0]
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        this.lineStarts.push(i + 1)
+      }
+    }
+    this.version++
+  }
+
+  getText(range?: Range): string {
+    return range ? this.text.slice(this.offsetAt(range.start), this.offsetAt(range.end)) : this.text
+  }
+
+  offsetAt(position: Position): number {
+    const line = Math.min(Math.max(position.line, 0), this.lineCount - 1)
+    const lineEnd = line + 1 < this.lineCount ? this.lineStarts[line + 1] - 1 : this.text.length
+    return Math.min(this.lineStarts[line] + Math.max(position.character, 0), lineEnd)
+  }
+
+  positionAt(offset: number): Position {
+    const clamped = Math.min(Math.max(offset, 0), this.text.length)
+    let line = 0
+    while (line + 1 < this.lineCount && this.lineStarts[line + 1] <= clamped) {
+      line++
+    }
+    return new Position(line, clamped - this.lineStarts[line])
+  }
+
+  lineAt(lineOrPosition: number | Position) {
+    const lineNumber = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line
+    const start = this.lineStarts[lineNumber]
+    const next = lineNumber + 1 < this.lineCount ? this.lineStarts[lineNumber + 1] : this.text.length
+    const text = this.text.slice(start, next).replace(/\r?\n$/, '')
+    return {
+      lineNumber,
+      text,
+      range: new Range(lineNumber, 0, lineNumber, text.length),
+      rangeIncludingLineBreak: new Range(this.positionAt(start), this.positionAt(next)),
+      firstNonWhitespaceCharacterIndex: text.length - text.trimStart().length,
+      isEmptyOrWhitespace: text.trim() === '',
+    }
+  }
+
+  getWordRangeAtPosition(position: Position, regex = /[\w.]+/g): Range | undefined {
+    const { text } = this.lineAt(position.line)
+    const pattern = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`)
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0
+      if (start <= position.character && position.character <= start + match[0].length) {
+        return new Range(position.line, start, position.line, start + match[0].length)
+      }
+    }
+    return undefined
+  }
+
+  validatePosition(position: Position): Position {
+    return this.positionAt(this.offsetAt(position))
+  }
+
+  validateRange(range: Range): Range {
+    return new Range(this.validatePosition(range.start), this.validatePosition(range.end))
+  }
+
+  save(): Promise<boolean> {
+    return Promise.resolve(true)
+  }
+}
+
+/** The configuration every `workspace.getConfiguration()` reads, keyed by the full setting name. */
+export const settings: Map<string, unknown> = new Map()
+
+const diagnosticCollections: Map<string, Map<string, Diagnostic[]>> = new Map()
+
+export const workspace = {
+  textDocuments: [] as TextDocument[],
+  workspaceFolders: undefined as { uri: Uri; name: string; index: number }[] | undefined,
+  /** The files `findFiles` returns. */
+  files: [] as Uri[],
+  getConfiguration(section?: string) {
+    const key = (name: string) => (section ? `${section}.${name}` : name)
+    return {
+      get<T>(name: string, defaultValue?: T): T | undefined {
+        return settings.has(key(name)) ? (settings.get(key(name)) as T) : defaultValue
+      },
+      has(name: string): boolean {
+        return settings.has(key(name))
+      },
+      inspect: () => undefined,
+      update(name: string, value: unknown): Promise<void> {
+        settings.set(key(name), value)
+        return Promise.resolve()
+      },
+    }
+  },
+  async openTextDocument(value: Uri | { content?: string; language?: string }): Promise<TextDocument> {
+    if (value instanceof Uri) {
+      const open = workspace.textDocuments.find((document) => document.uri.toString() === value.toString())
+      if (open) {
+        return open
+      }
+      throw new Error(`No document for ${value.toString()}`)
+    }
+    return new TextDocument(Uri.parse('untitled:Untitled-1'), value.content ?? '', value.language)
+  },
+  getWorkspaceFolder(uri: Uri) {
+    return workspace.workspaceFolders?.find((folder) => uri.path.startsWith(`${folder.uri.path}/`))
+  },
+  findFiles: async () => workspace.files,
+  applyEdit: async () => true,
+  createFileSystemWatcher: () => ({
+    onDidCreate: () => new Disposable(),
+    onDidChange: () => new Disposable(),
+    onDidDelete: () => new Disposable(),
+    dispose: () => {},
+  }),
+  onDidChangeConfiguration: () => new Disposable(),
+  onDidChangeTextDocument: () => new Disposable(),
+  onDidOpenTextDocument: () => new Disposable(),
+  onDidCloseTextDocument: () => new Disposable(),
+  onDidSaveTextDocument: () => new Disposable(),
+  fs: {
+    /** The files written through `fs`, by URI. */
+    written: new Map<string, Uint8Array>(),
+    readFile: async (uri: Uri) => {
+      const written = workspace.fs.written.get(uri.toString())
+      const document = workspace.textDocuments.find((open) => open.uri.toString() === uri.toString())
+      if (!written && !document) {
+        throw new Error(`No file ${uri.toString()}`)
+      }
+      return written ?? new TextEncoder().encode(document?.getText())
+    },
+    writeFile: async (uri: Uri, content: Uint8Array) => {
+      workspace.fs.written.set(uri.toString(), content)
+    },
+    createDirectory: async () => {},
+  },
+}
+
+export const window = {
+  activeTextEditor: undefined as
+    | { document: TextDocument; selection: Selection; edit?: (...args: any[]) => Promise<boolean> }
+    | undefined,
+  visibleTextEditors: [] as { document: TextDocument }[],
+  createOutputChannel: (name: string) => ({
+    name,
+    lines: [] as string[],
+    append(value: string) {
+      this.lines.push(value)
+    },
+    appendLine(value: string) {
+      this.lines.push(value)
+    },
+    clear() {
+      this.lines = []
+    },
+    show: () => {},
+    hide: () => {},
+    dispose: () => {},
+  }),
+  createStatusBarItem: () => ({ text: '', tooltip: '', show: () => {}, hide: () => {}, dispose: () => {} }),
+  showInformationMessage: async () => undefined,
+  showWarningMessage: async () => undefined,
+  showErrorMessage: async () => undefined,
+  onDidChangeActiveTextEditor: () => new Disposable(),
+}
+
+export const languages = {
+  createDiagnosticCollection(name = '') {
+    const entries: Map<string, Diagnostic[]> = new Map()
+    diagnosticCollections.set(name, entries)
+    return {
+      name,
+      set: (uri: Uri, diagnostics: Diagnostic[] | undefined) => entries.set(uri.toString(), diagnostics ?? []),
+      get: (uri: Uri) => entries.get(uri.toString()),
+      has: (uri: Uri) => entries.has(uri.toString()),
+      delete: (uri: Uri) => entries.delete(uri.toString()),
+      clear: () => entries.clear(),
+      forEach: (callback: (uri: Uri, diagnostics: Diagnostic[]) => void) => {
+        entries.forEach((diagnostics, uri) => callback(Uri.parse(uri), diagnostics))
+      },
+      dispose: () => entries.clear(),
+    }
+  },
+  getDiagnostics: (uri: Uri) => {
+    return [...diagnosticCollections.values()].flatMap((entries) => entries.get(uri.toString()) ?? [])
+  },
+}
+
+export const commands = {
+  registerCommand: () => new Disposable(),
+  executeCommand: async () => undefined,
+}
+
+export const env = { language: 'en', clipboard: { writeText: async () => {} } }
+
+/**
+ * Opens a Pine document in the stand-in workspace and makes it the active editor.
+ * @param text - The text of the document.
+ * @param path - The path of the document.
+ * @returns The document, typed as the editor's so it can be passed to the providers.
+ */
+export function openDocument(text: string, path = '/workspace/script.pine'): import('vscode').TextDocument {
+  const uri = Uri.file(path)
+  workspace.textDocuments = workspace.textDocuments.filter((document) => document.uri.toString() !== uri.toString())
+  const document = new TextDocument(uri, text)
+  workspace.textDocuments.push(document)
+  window.activeTextEditor = { document, selection: new Selection(new Position(0, 0), new Position(0, 0)) }
+  return document as unknown as import('vscode').TextDocument
+}
+
+/**
+ * Applies text edits to the text of a document, as the editor would.
+ * @param document - The document the edits were made for.
+ * @param edits - The edits, which must not overlap.
+ * @returns The edited text.
+ */
+export function applyEdits(
+  document: import('vscode').TextDocument,
+  edits: readonly { range: import('vscode').Range; newText: string }[],
+): string {
+  const text = document.getText()
+  return [...edits]
+    .map((edit) => ({ start: document.offsetAt(edit.range.start), end: document.offsetAt(edit.range.end), edit }))
+    .sort((a, b) => b.start - a.start || b.end - a.end)
+    .reduce((result, { start, end, edit }) => result.slice(0, start) + edit.newText + result.slice(end), text)
+}
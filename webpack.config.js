@@ -2,6 +2,7 @@
 'use strict'
 
 const path = require('path')
+const webpack = require('webpack')
 
 
 //@ts-check
@@ -14,6 +15,8 @@ const extensionConfig = {
   cache: false,
   entry: {
     extension: './src/extension.ts',
+    cli: './src/cli.ts', // the `pine-lint` command line linter, which doesn't use the vscode module
+    stub: './src/stub.ts', // the `pine-facade-stub` server that answers from recorded fixtures
   },
   // the entry point of this extension, 📖 -> https://webpack.js.org/configuration/entry-context/
   output: {
@@ -28,7 +31,7 @@ const extensionConfig = {
   },
   resolve: {
     // support reading TypeScript and JavaScript files, 📖 -> https://github.com/TypeStrong/ts-loader
-    extensions: ['.ts'],
+    extensions: ['.ts', '.js'],
   },
   module: {
     rules: [
@@ -39,6 +42,7 @@ const extensionConfig = {
       },
     ],
   },
+  plugins: [new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true, test: /(cli|stub)\.js$/ })],
   // devtool: 'source-map',
   infrastructureLogging: {
     level: 'none', // enables logging required for problem matchers